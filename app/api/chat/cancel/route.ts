@@ -0,0 +1,39 @@
+// app/api/chat/cancel/route.ts - Stop an in-flight chat request
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { AIProviderService } from '@/services/aiProviderService';
+import { ChatCancellationService } from '@/services/chatCancellationService';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { requestId, threadId, runId } = await request.json();
+
+    if (!requestId && !(threadId && runId)) {
+      throw new ApiError('requestId or threadId and runId are required', 400, 'VALIDATION_ERROR');
+    }
+
+    // Aborts the pending search/run; the chat route records the partial reply
+    const active = requestId ? ChatCancellationService.cancel(requestId) : null;
+    if (active) {
+      return NextResponse.json({ cancelled: true, threadId: active.threadId, runId: active.runId });
+    }
+
+    // Request is not running on this instance, cancel the run directly
+    if (threadId && runId) {
+      await AIProviderService.cancelRun(threadId, runId);
+      return NextResponse.json({ cancelled: true, threadId, runId });
+    }
+
+    return NextResponse.json({ cancelled: false });
+
+  } catch (error) {
+    console.error('Chat cancel API error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
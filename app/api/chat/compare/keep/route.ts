@@ -0,0 +1,39 @@
+// app/api/chat/compare/keep/route.ts - Keep one compared answer in the chat
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { ChatCompareService } from '@/services/chatCompareService';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { message, reply, keepThreadId, discardThreadIds, threadId, projectId } = body;
+
+    if (typeof message !== 'string' || !message.trim() || typeof reply !== 'string' || !reply.trim()) {
+      throw new ApiError('message and reply are required', 400, 'VALIDATION_ERROR');
+    }
+
+    if (typeof keepThreadId !== 'string') {
+      throw new ApiError('keepThreadId is required', 400, 'VALIDATION_ERROR');
+    }
+
+    const result = await ChatCompareService.keep({
+      message,
+      reply,
+      keepThreadId,
+      discardThreadIds: Array.isArray(discardThreadIds) ? discardThreadIds : [],
+      threadId: threadId || undefined,
+      projectId: projectId || undefined
+    });
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Keep comparison error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
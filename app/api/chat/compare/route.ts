@@ -0,0 +1,83 @@
+// app/api/chat/compare/route.ts - Answer one prompt with several providers/models side by side
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { AIProviderService } from '@/services/aiProviderService';
+import { ChatCompareService } from '@/services/chatCompareService';
+import { ThreadSettingsService } from '@/services/threadSettingsService';
+import { BudgetService } from '@/services/budgetService';
+
+export const dynamic = 'force-dynamic';
+
+// Providers that can take part in a comparison, with their models
+export async function GET() {
+  try {
+    const providers = await AIProviderService.getCompareOptions();
+    return NextResponse.json({ providers });
+
+  } catch (error) {
+    console.error('Compare options error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { message, threadId, projectId, fileIds, webSearchEnabled } = body;
+
+    if (!message || typeof message !== 'string' || message.trim() === '') {
+      throw new ApiError('Message is required', 400, 'VALIDATION_ERROR');
+    }
+    const targets = ChatCompareService.parseTargets(body.targets);
+
+    // Model names belong to one provider, so only the temperature carries over from the thread
+    const { temperature } = await ThreadSettingsService.resolve(threadId, body);
+
+    // Refuses the run once the project is over budget (admins can bypass with x-admin-key)
+    await BudgetService.enforce(projectId, threadId, BudgetService.isAdminRequest(request));
+
+    const result = await ChatCompareService.compare({
+      message,
+      targets,
+      threadId: threadId || undefined,
+      projectId: projectId || undefined,
+      webSearchEnabled: !!webSearchEnabled,
+      fileIds: Array.isArray(fileIds) ? fileIds : undefined,
+      temperature
+    });
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Compare API error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+// Drop a comparison without keeping any answer (?threadIds=a,b,c)
+export async function DELETE(request: NextRequest) {
+  try {
+    const threadIds = (request.nextUrl.searchParams.get('threadIds') || '')
+      .split(',')
+      .filter(Boolean);
+
+    // IDs that are not comparison scratch threads are ignored
+    const discarded = await ChatCompareService.discard(threadIds);
+    return NextResponse.json({ discarded });
+
+  } catch (error) {
+    console.error('Discard comparison error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
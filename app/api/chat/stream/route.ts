@@ -0,0 +1,173 @@
+// app/api/chat/stream/route.ts - Server-sent events version of /api/chat
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { AIProviderService } from '@/services/aiProviderService';
+import { ChatPipelineService, WebSearchOutcome } from '@/services/chatPipelineService';
+import { ChatCancellationService } from '@/services/chatCancellationService';
+import { ThreadSettingsService } from '@/services/threadSettingsService';
+import { BudgetService } from '@/services/budgetService';
+import { ChatResponse } from '@/lib/providers/aiProvider.interface';
+
+export const runtime = 'nodejs';
+
+const DEBUG = process.env.NODE_ENV === 'development' && process.env.DEBUG_CHAT === 'true';
+
+// Streams: thread, run, status, sources, delta, tool, done (same payload as /api/chat), error
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { message, threadId, projectId, fileIds, webSearchEnabled, deepResearch, useJsonFormat, originalMessage, requestId } = body;
+
+    // Validate before opening the stream so errors keep their HTTP status
+    if (!message || message.trim() === '') {
+      throw new ApiError('Message is required', 400, 'VALIDATION_ERROR');
+    }
+    const { model, temperature } = await ThreadSettingsService.resolve(threadId, body);
+
+    // Structured answers are validated (and repaired) as a whole, which streaming can't offer
+    if (body.outputSchema !== undefined || body.outputSchemaId !== undefined) {
+      throw new ApiError('Structured output is only available from /api/chat', 400, 'VALIDATION_ERROR');
+    }
+
+    // Refuses the run once the project is over budget (admins can bypass with x-admin-key)
+    const budget = await BudgetService.enforce(projectId, threadId, BudgetService.isAdminRequest(request));
+
+    const newFileIds: string[] = fileIds || [];
+    const encoder = new TextEncoder();
+
+    // Stops the request when /api/chat/cancel is called or the client disconnects
+    const disconnect = new AbortController();
+    const cancelSignal = requestId ? ChatCancellationService.register(requestId) : undefined;
+    const signal = cancelSignal ? AbortSignal.any([cancelSignal, disconnect.signal]) : disconnect.signal;
+    if (requestId && threadId) ChatCancellationService.track(requestId, { threadId });
+
+    // Set once the stream is closed or cancelled; enqueue/close would throw after that
+    let closed = false;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        try {
+          const existingThreadFiles = await ChatPipelineService.getThreadFileIds(threadId);
+          const allFileIds = [...new Set([...existingThreadFiles, ...newFileIds])];
+          if (DEBUG) console.log('Total file IDs for thread:', allFileIds);
+
+          // Handle web search (skipped when the assistant searches through its web_search tool)
+          let webSearch: WebSearchOutcome = { performed: false, sources: [], messageContent: originalMessage || message };
+          if (webSearchEnabled && !(await AIProviderService.usesFunctionTools())) {
+            send('status', { stage: 'searching' });
+            webSearch = await ChatPipelineService.performWebSearch(message, originalMessage, useJsonFormat || false, signal, { projectId, threadId, deepResearch });
+            if (webSearch.performed) {
+              send('sources', { searchSources: webSearch.sources });
+            }
+          }
+
+          // Relevant passages from project documents and earlier answers
+          const retrieval = await ChatPipelineService.retrieveDocuments(originalMessage || message, projectId, threadId, newFileIds);
+          if (retrieval.performed) {
+            send('sources', { documentSources: retrieval.sources });
+          }
+
+          let response: ChatResponse | undefined;
+          try {
+            const messages = await ChatPipelineService.buildMessages(webSearch.messageContent, projectId, threadId, retrieval.context);
+            const events = signal?.aborted ? [] : AIProviderService.streamMessage(
+              messages,
+              {
+                threadId: threadId || undefined,
+                projectId: projectId || undefined,
+                webSearchEnabled,
+                deepResearch,
+                fileIds: allFileIds.length > 0 ? allFileIds : undefined,
+                model,
+                temperature,
+                responseFormat: useJsonFormat ? 'json' : 'text',
+                signal
+              }
+            );
+
+            for await (const event of events) {
+              if (event.type === 'done') {
+                response = event.response;
+              } else if (event.type === 'thread') {
+                if (requestId) ChatCancellationService.track(requestId, { threadId: event.threadId });
+                send('thread', { threadId: event.threadId });
+              } else if (event.type === 'run') {
+                if (requestId) ChatCancellationService.track(requestId, { runId: event.runId });
+                send('run', { runId: event.runId });
+              } else if (event.type === 'delta') {
+                send('delta', { content: event.content });
+              } else {
+                send('tool', { tool: event.tool, status: event.status, detail: event.detail });
+              }
+            }
+
+            // Stopped while searching, before the provider was called
+            if (!response && signal?.aborted) {
+              response = ChatPipelineService.cancelledResponse(threadId);
+            }
+          } catch (error) {
+            if (!(error instanceof ApiError) || error.code !== 'RUN_FAILED') {
+              throw error;
+            }
+
+            // Failed runs still answer the user instead of erroring out
+            console.error('Assistant run failed:', error);
+            response = ChatPipelineService.failedRunResponse(error, threadId, webSearchEnabled);
+          }
+
+          if (!response) {
+            throw new ApiError('Stream ended without a response', 502, 'STREAM_ERROR');
+          }
+
+          const payload = await ChatPipelineService.finalizeResponse(response, {
+            threadId,
+            projectId,
+            budget,
+            webSearchEnabled,
+            newFileIds,
+            allFileIds,
+            webSearch,
+            retrieval
+          });
+
+          send('done', payload);
+        } catch (error) {
+          console.error('Chat stream error:', error);
+          send('error', createErrorResponse(error));
+        } finally {
+          if (requestId) ChatCancellationService.release(requestId);
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        // Nobody is reading anymore, so don't let the run finish unseen
+        closed = true;
+        disconnect.abort();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    });
+
+  } catch (error) {
+    console.error('Chat stream API error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
@@ -0,0 +1,26 @@
+// app/api/health/ready/route.ts - Readiness: 503 until Supabase and an AI provider are usable
+import { NextRequest, NextResponse } from 'next/server';
+import { HealthService } from '@/services/healthService';
+import { BudgetService } from '@/services/budgetService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const report = await HealthService.getReport();
+
+    // Check messages and provider details only with the admin key (x-admin-key)
+    const body = BudgetService.isAdminRequest(request) ? report : HealthService.toPublic(report);
+
+    return NextResponse.json(body, {
+      status: report.ready ? 200 : 503,
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Readiness check error:', error);
+    return NextResponse.json(
+      { status: 'unhealthy', ready: false, error: 'Readiness check failed' },
+      { status: 503, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
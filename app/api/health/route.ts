@@ -0,0 +1,12 @@
+// app/api/health/route.ts - Liveness: the process is up; dependencies are checked by /api/health/ready
+import { NextResponse } from 'next/server';
+import { HealthService } from '@/services/healthService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  // Always 200 while the process can answer; readiness lives at /api/health/ready
+  return NextResponse.json(HealthService.getLiveness(), {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
@@ -0,0 +1,16 @@
+// app/api/models/route.ts - Models available for per-thread selection
+import { NextResponse } from 'next/server';
+import { createErrorResponse } from '@/lib/utils/apiErrors';
+import { AIProviderService } from '@/services/aiProviderService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const options = await AIProviderService.getModelOptions();
+    return NextResponse.json(options);
+  } catch (error) {
+    console.error('Models API error:', error);
+    return NextResponse.json(createErrorResponse(error), { status: 500 });
+  }
+}
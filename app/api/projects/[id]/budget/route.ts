@@ -0,0 +1,55 @@
+// app/api/projects/[id]/budget/route.ts - Project spending budget and admin override
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse, PermissionError } from '@/lib/utils/apiErrors';
+import { BudgetService } from '@/services/budgetService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const status = await BudgetService.getStatus(id);
+    return NextResponse.json({ budget: status });
+
+  } catch (error) {
+    console.error('Project budget error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+// Changing a budget or granting an override requires the admin key
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+
+    if (!BudgetService.isAdminRequest(request)) {
+      throw new PermissionError('Admin key required to change project budgets');
+    }
+
+    const settings = BudgetService.parseSettings(await request.json());
+    if (Object.keys(settings).length === 0) {
+      throw new ApiError('No budget fields to update', 400, 'VALIDATION_ERROR');
+    }
+
+    const status = await BudgetService.updateSettings(id, settings);
+    return NextResponse.json({ budget: status });
+
+  } catch (error) {
+    console.error('Project budget update error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
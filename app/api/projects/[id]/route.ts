@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { ProjectInstructionsService } from '@/services/projectInstructionsService';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -37,4 +39,53 @@ export async function GET(
 
   if (error) return NextResponse.json({ error }, { status: 404 });
   return NextResponse.json(data);
-}
\ No newline at end of file
+}
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params;
+
+  let body: Record<string, unknown>;
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return NextResponse.json({ error: { message: 'Invalid JSON body' } }, { status: 400 });
+  }
+
+  const updates: Record<string, unknown> = {};
+  try {
+    if ('name' in body) {
+      if (typeof body.name !== 'string' || body.name.trim() === '') {
+        throw new ApiError('`name` cannot be empty', 400, 'VALIDATION_ERROR');
+      }
+      updates.name = body.name.trim();
+    }
+    for (const field of ['description', 'color']) {
+      if (!(field in body)) continue;
+      if (body[field] !== null && typeof body[field] !== 'string') {
+        throw new ApiError(`\`${field}\` must be string if provided`, 400, 'VALIDATION_ERROR');
+      }
+      updates[field] = body[field] || null;
+    }
+    Object.assign(updates, ProjectInstructionsService.parseSettings(body));
+  } catch (error) {
+    const message = error instanceof ApiError ? error.message : 'Invalid project update';
+    return NextResponse.json({ error: { message } }, { status: 400 });
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json({ error: { message: 'No fields to update' } }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from('projects')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', params.id)
+    .select()
+    .single();
+
+  if (error) return NextResponse.json({ error }, { status: 500 });
+  return NextResponse.json({ project: data });
+}
@@ -0,0 +1,50 @@
+// app/api/projects/[id]/search/route.ts - Project web search backend
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { WebSearchService } from '@/services/webSearchService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const search = await WebSearchService.getSettings(id);
+    return NextResponse.json({ search });
+
+  } catch (error) {
+    console.error('Project search settings error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+
+    const settings = WebSearchService.parseSettings(await request.json());
+    if (Object.keys(settings).length === 0) {
+      throw new ApiError('No search settings to update', 400, 'VALIDATION_ERROR');
+    }
+
+    const search = await WebSearchService.updateSettings(id, settings);
+    return NextResponse.json({ search });
+
+  } catch (error) {
+    console.error('Project search settings update error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
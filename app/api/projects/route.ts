@@ -1,6 +1,8 @@
 // app/api/projects/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { ProjectInstructionsService } from '@/services/projectInstructionsService';
 
 // Optional: make sure this route is always dynamic (no static caching)
 export const dynamic = 'force-dynamic';
@@ -47,12 +49,21 @@ export async function POST(req: NextRequest) {
     return errorJson('`color` must be string if provided', 400);
   }
 
+  // Optional assistant settings (instructions, tone, target country, output conventions)
+  let settings;
+  try {
+    settings = ProjectInstructionsService.parseSettings(body as Record<string, unknown>);
+  } catch (e) {
+    return errorJson(e instanceof ApiError ? e.message : 'Invalid project settings', 400);
+  }
+
   const { data, error } = await supabase
     .from('projects')
     .insert({
       name: name.trim(),
       description,
       color,
+      ...settings,
     })
     .select()
     .single();
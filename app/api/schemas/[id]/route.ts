@@ -0,0 +1,64 @@
+// app/api/schemas/[id]/route.ts - Read, edit or delete a stored output schema
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { StructuredOutputService } from '@/services/structuredOutputService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const schema = await StructuredOutputService.getSchema(id);
+    return NextResponse.json({ schema });
+
+  } catch (error) {
+    console.error('Output schema error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const input = StructuredOutputService.parseInput(await request.json(), true);
+    const schema = await StructuredOutputService.updateSchema(id, input);
+    return NextResponse.json({ schema });
+
+  } catch (error) {
+    console.error('Update output schema error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    await StructuredOutputService.deleteSchema(id);
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete output schema error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
@@ -0,0 +1,39 @@
+// app/api/schemas/route.ts - List and store JSON Schemas for structured answers
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { StructuredOutputService } from '@/services/structuredOutputService';
+
+export const dynamic = 'force-dynamic';
+
+// ?projectId= adds that project's schemas to the global ones
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId') || undefined;
+    const schemas = await StructuredOutputService.listSchemas(projectId);
+    return NextResponse.json({ schemas });
+
+  } catch (error) {
+    console.error('Output schemas error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = StructuredOutputService.parseInput(await request.json());
+    const schema = await StructuredOutputService.createSchema(input);
+    return NextResponse.json({ schema }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create output schema error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
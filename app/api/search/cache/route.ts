@@ -0,0 +1,55 @@
+// app/api/search/cache/route.ts - Search cache hit/miss metrics and manual purge
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse, PermissionError } from '@/lib/utils/apiErrors';
+import { BudgetService } from '@/services/budgetService';
+import { SearchCacheService } from '@/services/searchCacheService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = searchParams.get('days') ? parseInt(searchParams.get('days')!) : undefined;
+
+    if (days !== undefined && (isNaN(days) || days <= 0)) {
+      throw new ApiError('days must be a positive number', 400, 'VALIDATION_ERROR');
+    }
+
+    const stats = await SearchCacheService.getStats(days);
+    return NextResponse.json({ cache: stats });
+
+  } catch (error) {
+    console.error('Search cache stats error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+// Purging requires the admin key; ?expired=true, ?provider= and ?query= narrow it
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!BudgetService.isAdminRequest(request)) {
+      throw new PermissionError('Admin key required to purge the search cache');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const deleted = await SearchCacheService.purge({
+      expiredOnly: searchParams.get('expired') === 'true',
+      provider: searchParams.get('provider') || undefined,
+      query: searchParams.get('query') || undefined
+    });
+
+    return NextResponse.json({ success: true, deleted });
+
+  } catch (error) {
+    console.error('Search cache purge error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
@@ -1,7 +1,8 @@
 // app/api/search/route.ts - MODIFIED VERSION
 import { NextRequest, NextResponse } from 'next/server';
-import { openaiClient, tavilyClient } from '@/lib/clients';
+import { openaiClient } from '@/lib/clients';
 import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { WebSearchService } from '@/services/webSearchService';
 
 export const runtime = 'nodejs';
 
@@ -23,18 +24,15 @@ export async function POST(request: NextRequest) {
     let searchResults = '';
     let searchSources: any[] = [];
 
-    // ✅ MODIFIED: Use tavilyClient instead of direct API call
-    if (useSearch && tavilyClient) {
+    // Search with the thread's project backend (or the deployment default)
+    if (useSearch && await WebSearchService.isAvailable({ threadId })) {
       try {
-        console.log('Performing Tavily search for:', query);
+        console.log('Performing web search for:', query);
         
-        const searchResponse = await tavilyClient.search({
+        const searchResponse = await WebSearchService.search({
           query: query,
-          maxResults: 5,
-          searchDepth: 'basic',
-          includeAnswer: true,
-          includeImages: false,
-        });
+          maxResults: 5
+        }, { threadId });
 
         // Format Tavily search results
         if (searchResponse) {
@@ -63,7 +61,7 @@ export async function POST(request: NextRequest) {
           console.log(`Found ${searchResponse.results.length} search results`);
         }
       } catch (searchError: any) {
-        console.error('Tavily search failed:', searchError);
+        console.error('Web search failed:', searchError);
         // Continue without search results
       }
     }
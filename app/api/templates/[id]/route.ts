@@ -0,0 +1,71 @@
+// app/api/templates/[id]/route.ts - Read, edit or delete a prompt template
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { PromptTemplateService } from '@/services/promptTemplateService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const template = await PromptTemplateService.getTemplate(id);
+    return NextResponse.json({ template });
+
+  } catch (error) {
+    console.error('Prompt template error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+// Body fields are optional; `version` is the version the editor started from
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+
+    if (body.version !== undefined && (!Number.isInteger(body.version) || body.version < 1)) {
+      throw new ApiError('`version` must be a positive integer', 400, 'VALIDATION_ERROR');
+    }
+
+    const input = PromptTemplateService.parseInput(body, true);
+    const template = await PromptTemplateService.updateTemplate(id, input, body.version);
+    return NextResponse.json({ template });
+
+  } catch (error) {
+    console.error('Update prompt template error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    await PromptTemplateService.deleteTemplate(id);
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete prompt template error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
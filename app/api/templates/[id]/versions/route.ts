@@ -0,0 +1,25 @@
+// app/api/templates/[id]/versions/route.ts - Revision history of a prompt template
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { PromptTemplateService } from '@/services/promptTemplateService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const versions = await PromptTemplateService.listVersions(id);
+    return NextResponse.json({ versions });
+
+  } catch (error) {
+    console.error('Prompt template versions error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
@@ -0,0 +1,39 @@
+// app/api/templates/route.ts - List and create prompt templates
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { PromptTemplateService } from '@/services/promptTemplateService';
+
+export const dynamic = 'force-dynamic';
+
+// ?projectId= adds that project's templates to the global ones
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId') || undefined;
+    const templates = await PromptTemplateService.listTemplates(projectId);
+    return NextResponse.json({ templates });
+
+  } catch (error) {
+    console.error('Prompt templates error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = PromptTemplateService.parseInput(await request.json());
+    const template = await PromptTemplateService.createTemplate(input);
+    return NextResponse.json({ template }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create prompt template error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
@@ -0,0 +1,63 @@
+// app/api/threads/[id]/branches/route.ts - Fork a thread to edit a message or regenerate an answer, and list its branches
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { ThreadBranchService } from '@/services/threadBranchService';
+import { ThreadSettingsService } from '@/services/threadSettingsService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const family = await ThreadBranchService.getFamily(id);
+    return NextResponse.json(family);
+
+  } catch (error) {
+    console.error('Thread branches error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+    const { userTurn, projectId, kind } = body;
+
+    if (!Number.isInteger(userTurn) || userTurn < 0) {
+      throw new ApiError('userTurn must be a non-negative integer', 400, 'VALIDATION_ERROR');
+    }
+
+    if (kind !== undefined && kind !== 'edit' && kind !== 'regenerate') {
+      throw new ApiError("kind must be 'edit' or 'regenerate'", 400, 'VALIDATION_ERROR');
+    }
+
+    // Regenerating with another model keeps that model on the branch
+    const { model } = ThreadSettingsService.parseSettings({ model: body.model ?? null });
+
+    const branch = await ThreadBranchService.createBranch(id, userTurn, {
+      kind,
+      projectId: projectId || undefined,
+      model: model || undefined
+    });
+    return NextResponse.json({ branch }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create branch error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
@@ -0,0 +1,69 @@
+// app/api/threads/[id]/memory/route.ts - View, edit or reset a thread's rolling summary
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { ThreadMemoryService } from '@/services/threadMemoryService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const memory = await ThreadMemoryService.getMemory(id);
+    return NextResponse.json({ memory, enabled: ThreadMemoryService.isEnabled() });
+
+  } catch (error) {
+    console.error('Thread memory error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { summary } = await request.json();
+
+    if (typeof summary !== 'string') {
+      throw new ApiError('summary must be a string', 400, 'VALIDATION_ERROR');
+    }
+
+    const memory = await ThreadMemoryService.updateSummary(id, summary);
+    return NextResponse.json({ memory });
+
+  } catch (error) {
+    console.error('Update thread memory error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    await ThreadMemoryService.deleteMemory(id);
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Reset thread memory error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
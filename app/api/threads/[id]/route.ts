@@ -10,6 +10,7 @@ import { createClient } from '@supabase/supabase-js';
 // ADD these imports at the top:
 import { openaiClient } from '@/lib/clients';
 import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { ThreadMemoryService } from '@/services/threadMemoryService';
 
 
 const supabase = createClient(
@@ -52,6 +53,11 @@ export async function DELETE(
       throw new ApiError('Failed to delete thread from database', 500, 'DATABASE_ERROR');
     }
 
+    // Rolling summary has no foreign key (unsaved chats have memory too)
+    await ThreadMemoryService.deleteMemory(id).catch(memoryError => {
+      console.error('Thread memory deletion failed:', memoryError);
+    });
+
     console.log('Thread deleted successfully');
     return NextResponse.json({ success: true });
 
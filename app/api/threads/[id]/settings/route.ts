@@ -0,0 +1,42 @@
+// app/api/threads/[id]/settings/route.ts - Per-thread model and temperature
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { AIProviderService } from '@/services/aiProviderService';
+import { ThreadSettingsService } from '@/services/threadSettingsService';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const settings = await ThreadSettingsService.getSettings(id);
+  return NextResponse.json({ settings });
+}
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const settings = ThreadSettingsService.parseSettings(await request.json());
+
+    if (settings.model) {
+      const { models } = await AIProviderService.getModelOptions();
+      if (models.length > 0 && !models.includes(settings.model)) {
+        throw new ApiError(`Model ${settings.model} is not available`, 400, 'INVALID_MODEL');
+      }
+    }
+
+    const updated = await ThreadSettingsService.updateSettings(id, settings);
+    return NextResponse.json({ settings: updated });
+
+  } catch (error) {
+    console.error('Thread settings error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
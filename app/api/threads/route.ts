@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { ContentCleaningService } from '@/services/contentCleaningService';
 import { OpenAIFileHandler } from '@/services/openaiFileHandler';
+import { ThreadSettingsService } from '@/services/threadSettingsService';
+import { ApiError } from '@/lib/utils/apiErrors';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -409,6 +411,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Optional per-thread model/temperature, saved with the thread
+    let settings;
+    try {
+      settings = ThreadSettingsService.parseSettings(body);
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Invalid thread settings';
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
     // Clean messages before saving
     const cleanedMessages = messages.map((msg: any) => ({
       ...msg,
@@ -423,6 +434,7 @@ export async function POST(request: NextRequest) {
         title: title || 'New Thread',
         messages: cleanedMessages,
         project_id: projectId || null,
+        ...settings,
         updated_at: new Date().toISOString()
       })
       .select()
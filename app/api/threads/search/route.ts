@@ -0,0 +1,48 @@
+// app/api/threads/search/route.ts - Full-text and semantic search across threads
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { ThreadSearchService } from '@/services/threadSearchService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+    const from = searchParams.get('from') || undefined;
+    const to = searchParams.get('to') || undefined;
+    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : undefined;
+
+    if (query.length < 2) {
+      throw new ApiError('Search query must be at least 2 characters', 400, 'VALIDATION_ERROR');
+    }
+
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value && isNaN(new Date(value).getTime())) {
+        throw new ApiError(`${name} must be a valid date`, 400, 'VALIDATION_ERROR');
+      }
+    }
+
+    if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+      throw new ApiError('limit must be a positive number', 400, 'VALIDATION_ERROR');
+    }
+
+    const results = await ThreadSearchService.search({
+      query,
+      projectId: searchParams.get('projectId') || undefined,
+      from,
+      to,
+      limit
+    });
+
+    return NextResponse.json({ query, results });
+
+  } catch (error) {
+    console.error('Thread search error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
@@ -3,6 +3,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { openaiClient, storageClient } from '@/lib/clients';
 import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
 import { createClient } from '@supabase/supabase-js';
+import { RetrievalService } from '@/services/retrievalService';
+import { AIProviderService } from '@/services/aiProviderService';
+import { LocalThreadStore } from '@/lib/providers/localThreadStore';
 
 // ✅ REMOVED: Direct Vercel Blob fetch calls (40 lines)
 // ✅ REMOVED: Duplicate timeout logic (10 lines)
@@ -13,6 +16,15 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_KEY!
 );
 
+// Remove a processed file from wherever its provider keeps it
+async function deleteProcessedFile(fileId: string): Promise<void> {
+  if (LocalThreadStore.isLocalFile(fileId)) {
+    await LocalThreadStore.deleteFile(fileId);
+  } else {
+    await openaiClient.deleteFile(fileId);
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
@@ -34,18 +46,14 @@ export async function POST(request: NextRequest) {
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
 
-    // ✅ MODIFIED: Upload to OpenAI using openaiClient
-    let openaiFile;
-    try {
-      openaiFile = await openaiClient.uploadFile(
-        buffer,
-        file.name,
-        'assistants'
-      );
-    } catch (error) {
-      console.error('OpenAI upload failed:', error);
-      throw new ApiError('Failed to upload file to OpenAI', 500, 'OPENAI_UPLOAD_ERROR');
+    // Hand the file to the provider that will read it: OpenAI stores the file
+    // itself, local providers keep only its extracted text in Supabase
+    const processed = await AIProviderService.processFile(buffer, file.type, file.name, threadId || undefined);
+    if (!processed.fileId) {
+      console.error(`${processed.provider || 'Provider'} file processing failed:`, processed.error);
+      throw new ApiError(processed.error || 'Failed to process file', 500, 'FILE_PROCESSING_ERROR');
     }
+    const fileId = processed.fileId;
 
     // ✅ MODIFIED: Upload to Vercel Blob using storageClient with progress
     let blobResult;
@@ -59,7 +67,7 @@ export async function POST(request: NextRequest) {
             metadata: {
               threadId,
               projectId,
-              openaiFileId: openaiFile.id,
+              openaiFileId: fileId,
               originalName: file.name
             },
             onProgress: (progress) => {
@@ -69,8 +77,8 @@ export async function POST(request: NextRequest) {
           }
         );
       } catch (error) {
-        // If blob upload fails, clean up OpenAI file
-        await openaiClient.deleteFile(openaiFile.id);
+        // If blob upload fails, clean up the processed file
+        await deleteProcessedFile(fileId);
         throw new ApiError('Failed to upload file to storage', 500, 'STORAGE_UPLOAD_ERROR');
       }
     }
@@ -81,7 +89,7 @@ export async function POST(request: NextRequest) {
         await supabase
           .from('blob_files')
           .insert({
-            openai_file_id: openaiFile.id,
+            openai_file_id: fileId,
             vercel_blob_url: blobResult.url,
             vercel_file_key: blobResult.pathname,
             filename: file.name,
@@ -92,8 +100,8 @@ export async function POST(request: NextRequest) {
           });
       } catch (error) {
         console.error('Database insert failed:', error);
-        // Clean up both OpenAI and Blob on database failure
-        await openaiClient.deleteFile(openaiFile.id);
+        // Clean up both the processed file and Blob on database failure
+        await deleteProcessedFile(fileId);
         if (storageClient) {
           await storageClient.delete(blobResult.url);
         }
@@ -101,6 +109,16 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Index the document for retrieval across the project (no-op unless RAG_ENABLED)
+    const indexedChunks = await RetrievalService.indexFile({
+      fileId,
+      filename: file.name,
+      fileType: file.type,
+      buffer,
+      projectId: projectId || undefined,
+      threadId: threadId || undefined
+    });
+
     // Update storage metrics
     if (storageClient) {
       try {
@@ -127,10 +145,12 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      fileId: openaiFile.id,
+      fileId,
       filename: file.name,
+      provider: processed.provider,
       size: file.size,
       blobUrl: blobResult?.url,
+      indexedChunks,
       message: 'File uploaded successfully'
     });
 
@@ -153,12 +173,12 @@ export async function DELETE(request: NextRequest) {
       throw new ApiError('File ID is required', 400, 'MISSING_FILE_ID');
     }
 
-    // Delete from OpenAI
+    // Delete from OpenAI, or the locally extracted text
     try {
-      await openaiClient.deleteFile(fileId);
+      await deleteProcessedFile(fileId);
     } catch (error) {
-      console.error('OpenAI deletion failed:', error);
-      // Continue with blob deletion even if OpenAI fails
+      console.error('File deletion failed:', error);
+      // Continue with blob deletion even if the provider delete fails
     }
 
     // Delete from Vercel Blob
@@ -170,6 +190,8 @@ export async function DELETE(request: NextRequest) {
       }
     }
 
+    await RetrievalService.deleteSource(fileId);
+
     // Remove from database
     await supabase
       .from('blob_files')
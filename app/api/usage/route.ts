@@ -0,0 +1,33 @@
+// app/api/usage/route.ts - AI usage and estimated cost per project/thread
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, createErrorResponse } from '@/lib/utils/apiErrors';
+import { UsageService } from '@/services/usageService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = searchParams.get('days') ? parseInt(searchParams.get('days')!) : undefined;
+
+    if (days !== undefined && (isNaN(days) || days <= 0)) {
+      throw new ApiError('days must be a positive number', 400, 'VALIDATION_ERROR');
+    }
+
+    const summary = await UsageService.getSummary({
+      projectId: searchParams.get('projectId') || undefined,
+      threadId: searchParams.get('threadId') || undefined,
+      days
+    });
+
+    return NextResponse.json(summary);
+
+  } catch (error) {
+    console.error('Usage API error:', error);
+
+    const errorResponse = createErrorResponse(error);
+    const status = error instanceof ApiError ? error.status : 500;
+
+    return NextResponse.json(errorResponse, { status });
+  }
+}
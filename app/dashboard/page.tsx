@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import { UsageOverview } from '../../components/dashboard/UsageOverview';
 
 interface StorageStats {
   totalSizeBytes: number;
@@ -189,7 +190,7 @@ export default function StorageDashboard() {
             Storage Dashboard
           </h1>
           <p className="text-gray-600">
-            Monitor Vercel Blob storage usage and manage file cleanup
+            Monitor Vercel Blob storage usage, manage file cleanup and track AI spend
           </p>
         </div>
 
@@ -438,6 +439,9 @@ export default function StorageDashboard() {
           )}
         </motion.div>
 
+        {/* AI Usage */}
+        <UsageOverview />
+
         {/* Footer Info */}
         <div className="mt-8 text-center text-sm text-gray-500">
           <p>Last updated: {new Date(stats.updatedAt).toLocaleString()}</p>
@@ -5,7 +5,7 @@ import React, { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 
 // Types
-import { Message } from '../types/entities.types';
+import { ChatResponse, Message, MessageFocus, ThreadBranch, ThreadSearchResult } from '../types/entities.types';
 
 // Hooks
 import { useProjects } from '../hooks/useProjects';
@@ -13,18 +13,31 @@ import { useThreads } from '../hooks/useThreads';
 import { useChat } from '../hooks/useChat';
 import { useWebSearch } from '../hooks/useWebSearch';
 import { useAutoSave } from '../hooks/useAutoSave';
+import { useThreadSettings } from '../hooks/useThreadSettings';
+import { useBranches } from '../hooks/useBranches';
+import { useCompare, MAX_COMPARE_TARGETS } from '../hooks/useCompare';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
 
 // Components
 import { ProjectSidebar } from '../components/sidebar/ProjectSidebar';
 import { MessageList } from '../components/chat/MessageList';
 import { ChatInput } from '../components/chat/ChatInput';
 import { WebSearchToggle } from '../components/chat/WebSearchToggle';
+import { ModelPicker } from '../components/chat/ModelPicker';
+import { BranchNavigator } from '../components/chat/BranchNavigator';
+import { RegenerateOptions } from '../components/chat/RegenerateMenu';
+import { CompareTargetPicker } from '../components/chat/CompareTargetPicker';
+import { CompareView } from '../components/chat/CompareView';
 import { NewProjectModal } from '../components/modals/NewProjectModal';
+import { ProjectSettingsModal } from '../components/modals/ProjectSettingsModal';
+import { ThreadMemoryModal } from '../components/modals/ThreadMemoryModal';
+import { PromptTemplatesModal } from '../components/modals/PromptTemplatesModal';
 import ThreadShareModal from "./components/ThreadShareModal";
 
 // Utils
 import { formatErrorMessage } from '../utils/errorHandler';
 import { ProjectService } from '../services/projectService';
+import { ApiError } from '../services/apiClient';
 
 const ChatApp: React.FC = () => {
   // UI State
@@ -34,8 +47,13 @@ const ChatApp: React.FC = () => {
   
   // Modal States
   const [showNewProjectModal, setShowNewProjectModal] = useState(false);
+  const [showProjectSettingsModal, setShowProjectSettingsModal] = useState(false);
   const [showThreadShareModal, setShowThreadShareModal] = useState(false);
+  const [showThreadMemoryModal, setShowThreadMemoryModal] = useState(false);
+  const [showTemplatesModal, setShowTemplatesModal] = useState(false);
   const [selectedThreadForShare, setSelectedThreadForShare] = useState<{ id: string; title: string } | null>(null);
+  const [messageFocus, setMessageFocus] = useState<MessageFocus | null>(null);
+  const [keepingAnswer, setKeepingAnswer] = useState(false);
 
   // Custom Hooks
   const {
@@ -44,6 +62,7 @@ const ChatApp: React.FC = () => {
     loading: projectsLoading,
     loadProjects,
     createProject,
+    updateProject,
     deleteProject,
     loadProject
   } = useProjects();
@@ -62,18 +81,52 @@ const ChatApp: React.FC = () => {
     typing,
     threadId,
     setThreadId,
+    setMessages,
     sendMessage,
+    editMessage,
+    regenerateMessage,
+    cancelRun,
     clearChat,
     setMessagesFromThread
   } = useChat();
 
   const {
     webSearchEnabled,
+    deepResearchEnabled,
     searchInProgress,
     setSearchInProgress,
-    toggleWebSearch
+    toggleWebSearch,
+    toggleDeepResearch
   } = useWebSearch();
 
+  const {
+    settings: threadSettings,
+    modelOptions,
+    loadSettings,
+    updateSettings,
+    resetSettings
+  } = useThreadSettings(threadId);
+
+  const { family: branchFamily, refreshBranches, getAnswerVersions } = useBranches(threadId);
+
+  const {
+    enabled: compareEnabled,
+    options: compareOptions,
+    targets: compareTargets,
+    result: compareResult,
+    comparing,
+    error: compareError,
+    toggleCompare,
+    updateTarget: updateCompareTarget,
+    addTarget: addCompareTarget,
+    removeTarget: removeCompareTarget,
+    runCompare,
+    keepColumn,
+    discardResult: discardComparison
+  } = useCompare();
+
+  const { templates, saveTemplate, deleteTemplate } = usePromptTemplates(currentProject?.id);
+
   const { autoSaveStatus } = useAutoSave(
     threadId,
     messages,
@@ -101,9 +154,16 @@ const ChatApp: React.FC = () => {
 
   // Event Handlers
   const handleSendMessage = async (message: string, fileIds: string[]) => {
+    if (compareEnabled) {
+      return handleCompare(message, fileIds);
+    }
+
     try {
       setSearchInProgress(webSearchEnabled);
-      const response = await sendMessage(message, webSearchEnabled, fileIds);
+      const response = await sendMessage(message, webSearchEnabled, fileIds, currentProject?.id, {
+        ...threadSettings,
+        deepResearch: deepResearchEnabled
+      });
       
       // Auto-save to current project if new thread created
       if (response.threadId && response.threadId !== threadId && currentProject) {
@@ -111,18 +171,125 @@ const ChatApp: React.FC = () => {
           ...messages,
           { role: 'user', content: message, timestamp: new Date().toLocaleString() },
           { role: 'assistant', content: response.reply, timestamp: new Date().toLocaleString() }
-        ]);
+        ], threadSettings);
         // Reload project to show new thread at top
         await loadProject(currentProject.id);
       }
     } catch (error) {
       console.error('Send message error:', error);
+      // Budget refusals are already shown in the conversation
+      if (!(error instanceof ApiError && error.code === 'BUDGET_EXCEEDED')) {
+        alert(formatErrorMessage(error));
+      }
+    } finally {
+      setSearchInProgress(false);
+    }
+  };
+
+  // Compare mode: answers stay out of the chat until one is kept
+  const handleCompare = async (message: string, fileIds: string[]) => {
+    if (compareTargets.length < 2) {
+      alert('Pick at least two models to compare');
+      throw new Error('Not enough models to compare');
+    }
+
+    try {
+      setSearchInProgress(webSearchEnabled);
+      await runCompare(message, {
+        threadId,
+        projectId: currentProject?.id,
+        webSearchEnabled,
+        fileIds: fileIds.length > 0 ? fileIds : undefined,
+        temperature: threadSettings.temperature
+      });
+    } catch (error) {
+      // Shown in the comparison panel
+      console.error('Compare error:', error);
+    } finally {
+      setSearchInProgress(false);
+    }
+  };
+
+  const handleKeepAnswer = async (index: number) => {
+    try {
+      setKeepingAnswer(true);
+      const { documentSources, searchSources } = compareResult || {};
+      const { threadId: keptThreadId, prompt, column } = await keepColumn(index, {
+        threadId,
+        projectId: currentProject?.id
+      });
+
+      const kept: Message[] = [
+        { role: 'user', content: prompt, timestamp: new Date().toLocaleString() },
+        { role: 'assistant', content: column.reply, documentSources, searchSources, timestamp: new Date().toLocaleString() }
+      ];
+      setMessages(prev => [...prev, ...kept]);
+
+      // A new chat continues in the kept answer's thread, with its model
+      if (keptThreadId !== threadId) {
+        setThreadId(keptThreadId);
+        if (currentProject) {
+          await saveThread(keptThreadId, currentProject.id, [...messages, ...kept], {
+            ...threadSettings,
+            model: column.model
+          });
+          await loadProject(currentProject.id);
+        }
+        await loadSettings(keptThreadId);
+      }
+    } catch (error) {
+      console.error('Keep answer error:', error);
       alert(formatErrorMessage(error));
+    } finally {
+      setKeepingAnswer(false);
+    }
+  };
+
+  // Edits and regenerations run in a new branch thread
+  const runInBranch = async (
+    resubmit: () => Promise<{ branch: ThreadBranch; response: ChatResponse; history: Message[] }>,
+    webSearch: boolean
+  ) => {
+    try {
+      setSearchInProgress(webSearch);
+      const { branch, response, history } = await resubmit();
+
+      // Save the branch's history so it shows up in the project and in search
+      if (currentProject) {
+        await saveThread(branch.threadId, currentProject.id, [
+          ...history,
+          { role: 'assistant', content: response.reply, timestamp: new Date().toLocaleString() }
+        ], threadSettings);
+        await loadProject(currentProject.id);
+      }
+      await Promise.all([refreshBranches(branch.threadId), loadSettings(branch.threadId)]);
+    } catch (error) {
+      console.error('Branch error:', error);
+      if (!(error instanceof ApiError && error.code === 'BUDGET_EXCEEDED')) {
+        alert(formatErrorMessage(error));
+      }
     } finally {
       setSearchInProgress(false);
     }
   };
 
+  const handleEditMessage = (index: number, content: string) => runInBranch(
+    () => editMessage(index, content, webSearchEnabled, currentProject?.id, {
+      ...threadSettings,
+      deepResearch: deepResearchEnabled
+    }),
+    webSearchEnabled
+  );
+
+  const handleRegenerate = (index: number, options: RegenerateOptions) => runInBranch(
+    () => regenerateMessage(index, options.webSearchEnabled, currentProject?.id, {
+      ...threadSettings,
+      ...(options.model && { model: options.model }),
+      deepResearch: options.webSearchEnabled && deepResearchEnabled
+    }),
+    options.webSearchEnabled
+  );
+
   const handleSelectProject = async (project: any) => {
     try {
       const loadedProject = await loadProject(project.id);
@@ -143,8 +310,10 @@ const ChatApp: React.FC = () => {
         const threadMessages = await loadThread(uniqueThreadIds[0]);
         setMessagesFromThread(threadMessages);
         setThreadId(uniqueThreadIds[0]);
+        await loadSettings(uniqueThreadIds[0]);
       } else {
         clearChat();
+        resetSettings();
       }
       
       setShowProjectPanel(false);
@@ -159,6 +328,7 @@ const ChatApp: React.FC = () => {
       const threadMessages = await loadThread(threadId);
       setMessagesFromThread(threadMessages);
       setThreadId(threadId);
+      await loadSettings(threadId);
       
       if (isMobile) {
         setShowProjectPanel(false);
@@ -169,7 +339,28 @@ const ChatApp: React.FC = () => {
     }
   };
 
-  const handleCreateProject = async (projectData: { name: string; description?: string; color?: string }) => {
+  const handleOpenSearchResult = async (result: ThreadSearchResult) => {
+    try {
+      // Switch to the result's project so the thread shows in the sidebar
+      if (result.projectId && result.projectId !== currentProject?.id) {
+        await loadProject(result.projectId);
+        const { threads: projectThreads } = await ProjectService.getProject(result.projectId);
+        updateThreadsFromProject(projectThreads || [], result.projectId);
+      }
+
+      await handleSelectThread(result.threadId);
+      setMessageFocus({
+        messageIndex: result.messageIndex,
+        anchor: result.anchor,
+        requestedAt: Date.now()
+      });
+    } catch (error) {
+      console.error('Open search result error:', error);
+      alert(formatErrorMessage(error));
+    }
+  };
+
+  const handleCreateProject = async (projectData: Parameters<typeof createProject>[0]) => {
     try {
       await createProject(projectData);
       setShowNewProjectModal(false);
@@ -189,6 +380,7 @@ const ChatApp: React.FC = () => {
       await deleteProject(projectId);
       if (currentProject?.id === projectId) {
         clearChat();
+        resetSettings();
       }
     } catch (error) {
       console.error('Delete project error:', error);
@@ -205,6 +397,7 @@ const ChatApp: React.FC = () => {
       await deleteThreadService(threadId);
       if (threadId === threadId) {
         clearChat();
+        resetSettings();
       }
     } catch (error) {
       console.error('Delete thread error:', error);
@@ -216,6 +409,7 @@ const ChatApp: React.FC = () => {
 
   const handleNewChat = () => {
     clearChat();
+    resetSettings();
     setShowProjectPanel(false);
   };
 
@@ -243,9 +437,11 @@ const ChatApp: React.FC = () => {
         onSelectProject={handleSelectProject}
         onSelectThread={handleSelectThread}
         onNewProject={() => setShowNewProjectModal(true)}
+        onEditProject={() => setShowProjectSettingsModal(true)}
         onDeleteProject={handleDeleteProject}
         onDeleteThread={handleDeleteThread}
         onShareThread={openThreadShareModal}
+        onOpenSearchResult={handleOpenSearchResult}
         onNewChat={handleNewChat}
       />
 
@@ -304,25 +500,94 @@ const ChatApp: React.FC = () => {
           messages={messages} 
           typing={typing} 
           isMobile={isMobile} 
+          focus={messageFocus}
+          onEditMessage={threadId ? handleEditMessage : undefined}
+          editDisabled={chatLoading}
+          regenerate={threadId ? {
+            models: modelOptions.models,
+            defaultModel: threadSettings.model,
+            defaultWebSearch: webSearchEnabled,
+            onRegenerate: handleRegenerate
+          } : undefined}
+          getAnswerVersions={getAnswerVersions}
+          onSelectVersion={handleSelectThread}
         />
 
         {/* Controls */}
         <div className="border-t bg-gray-50">
-          <div className="p-3">
+          <div className={`p-3 flex gap-3 ${isMobile ? 'flex-col' : 'items-center justify-between'}`}>
             <WebSearchToggle
               enabled={webSearchEnabled}
               searchInProgress={searchInProgress}
               onToggle={toggleWebSearch}
+              deepResearch={deepResearchEnabled}
+              onToggleDeepResearch={toggleDeepResearch}
+              isMobile={isMobile}
+            />
+            <ModelPicker
+              settings={threadSettings}
+              modelOptions={modelOptions}
+              onChange={(update) => updateSettings(update).catch(error => alert(formatErrorMessage(error)))}
+              disabled={chatLoading}
               isMobile={isMobile}
             />
+            <CompareTargetPicker
+              enabled={compareEnabled}
+              options={compareOptions}
+              targets={compareTargets}
+              maxTargets={MAX_COMPARE_TARGETS}
+              onToggle={toggleCompare}
+              onChangeTarget={updateCompareTarget}
+              onAddTarget={addCompareTarget}
+              onRemoveTarget={removeCompareTarget}
+              disabled={chatLoading || comparing}
+              isMobile={isMobile}
+            />
+            <BranchNavigator
+              family={branchFamily}
+              currentThreadId={threadId}
+              onSelectBranch={handleSelectThread}
+              disabled={chatLoading}
+            />
+            <button
+              onClick={() => setShowTemplatesModal(true)}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+              title="Reusable prompts, inserted by typing / in the message box"
+            >
+              Templates
+            </button>
+            {threadId && (
+              <button
+                onClick={() => setShowThreadMemoryModal(true)}
+                className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                title="View or edit the summary of this thread's earlier messages"
+              >
+                Memory
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Side-by-side answers */}
+        <CompareView
+          result={compareResult}
+          comparing={comparing}
+          error={compareError}
+          onKeep={handleKeepAnswer}
+          onDiscard={discardComparison}
+          keeping={keepingAnswer}
+          isMobile={isMobile}
+        />
+
         {/* Input */}
         <ChatInput
           onSendMessage={handleSendMessage}
-          disabled={chatLoading || projectsLoading}
+          onStop={cancelRun}
+          running={chatLoading}
+          disabled={chatLoading || projectsLoading || comparing || keepingAnswer}
           isMobile={isMobile}
+          templates={templates}
+          onManageTemplates={() => setShowTemplatesModal(true)}
         />
       </div>
 
@@ -333,6 +598,29 @@ const ChatApp: React.FC = () => {
         onCreateProject={handleCreateProject}
       />
 
+      <ProjectSettingsModal
+        isOpen={showProjectSettingsModal}
+        project={currentProject}
+        onClose={() => setShowProjectSettingsModal(false)}
+        onSave={updateProject}
+      />
+
+      <PromptTemplatesModal
+        isOpen={showTemplatesModal}
+        projectId={currentProject?.id}
+        projectName={currentProject?.name}
+        templates={templates}
+        onClose={() => setShowTemplatesModal(false)}
+        onSave={saveTemplate}
+        onDelete={deleteTemplate}
+      />
+
+      <ThreadMemoryModal
+        isOpen={showThreadMemoryModal}
+        threadId={threadId}
+        onClose={() => setShowThreadMemoryModal(false)}
+      />
+
       {showThreadShareModal && selectedThreadForShare && (
         <ThreadShareModal
           isOpen={showThreadShareModal}
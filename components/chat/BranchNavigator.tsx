@@ -0,0 +1,65 @@
+// components/chat/BranchNavigator.tsx
+import React from 'react';
+import { BranchFamily, ThreadBranch } from '../../types/entities.types';
+
+interface BranchNavigatorProps {
+  family: BranchFamily | null;
+  currentThreadId: string | null;
+  onSelectBranch: (threadId: string) => void;
+  disabled?: boolean;
+}
+
+const getBranchLabel = (branch: ThreadBranch) => {
+  if (branch.branchUserTurn === undefined) return 'Original';
+  return branch.kind === 'regenerate'
+    ? `Regenerated answer ${branch.branchUserTurn + 1}`
+    : `Edited message ${branch.branchUserTurn + 1}`;
+};
+
+export const BranchNavigator: React.FC<BranchNavigatorProps> = ({
+  family,
+  currentThreadId,
+  onSelectBranch,
+  disabled = false
+}) => {
+  if (!family || family.branches.length < 2) return null;
+
+  const { branches } = family;
+  const position = branches.findIndex(branch => branch.threadId === currentThreadId);
+  if (position < 0) return null;
+
+  const buttonClassName = 'px-2 py-1 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="flex items-center gap-1 text-sm text-gray-700" title="Alternative versions of this conversation">
+      <button
+        onClick={() => onSelectBranch(branches[position - 1].threadId)}
+        disabled={disabled || position === 0}
+        className={buttonClassName}
+        aria-label="Previous branch"
+      >
+        ‹
+      </button>
+      <select
+        value={currentThreadId || ''}
+        onChange={(e) => onSelectBranch(e.target.value)}
+        disabled={disabled}
+        className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {branches.map((branch, index) => (
+          <option key={branch.threadId} value={branch.threadId}>
+            Branch {index + 1} / {branches.length} · {getBranchLabel(branch)}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => onSelectBranch(branches[position + 1].threadId)}
+        disabled={disabled || position === branches.length - 1}
+        className={buttonClassName}
+        aria-label="Next branch"
+      >
+        ›
+      </button>
+    </div>
+  );
+};
@@ -1,23 +1,66 @@
 // components/chat/ChatInput.tsx
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { useFileUpload } from '../../hooks/useFileUpload';
 import { getFileIcon } from '../../utils/fileUtils';
+import { PromptTemplate } from '../../types/entities.types';
+import { TemplatePicker } from './TemplatePicker';
+import { TemplateVariablesForm } from './TemplateVariablesForm';
 
 interface ChatInputProps {
   onSendMessage: (message: string, fileIds: string[]) => Promise<void>;
+  onStop?: () => void;
+  running?: boolean;
   disabled?: boolean;
   isMobile?: boolean;
+  templates?: PromptTemplate[];
+  onManageTemplates?: () => void;
 }
 
+// "/assess" while typing a slash command; anything after a space ends it
+const SLASH_COMMAND_PATTERN = /^\/([a-z0-9-]*)$/i;
+
 export const ChatInput: React.FC<ChatInputProps> = ({ 
   onSendMessage, 
+  onStop,
+  running = false,
   disabled = false, 
-  isMobile = false 
+  isMobile = false,
+  templates = [],
+  onManageTemplates
 }) => {
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const [pickerIndex, setPickerIndex] = useState(0);
+  const [pickerDismissed, setPickerDismissed] = useState(false);
+  const [activeTemplate, setActiveTemplate] = useState<PromptTemplate | null>(null);
   const { uploadedFiles, fileIds, uploading, uploadFiles, removeFile, clearFiles } = useFileUpload();
 
+  const slashMatches = useMemo(() => {
+    const match = input.match(SLASH_COMMAND_PATTERN);
+    if (!match || templates.length === 0) return null;
+
+    const query = match[1].toLowerCase();
+    return templates.filter(template => template.command.startsWith(query));
+  }, [input, templates]);
+
+  const showPicker = slashMatches !== null && !pickerDismissed && !activeTemplate;
+
+  const selectTemplate = useCallback((template: PromptTemplate) => {
+    setPickerIndex(0);
+    if (template.variables.length > 0) {
+      setActiveTemplate(template);
+      setInput('');
+    } else {
+      setInput(template.body);
+    }
+  }, []);
+
+  const insertTemplate = useCallback((text: string) => {
+    setActiveTemplate(null);
+    setInput(text);
+    document.getElementById('chat-message-input')?.focus();
+  }, []);
+
   const handleSend = useCallback(async () => {
     if (loading || !input.trim()) return;
     const messageToSend = input.trim();
@@ -35,6 +78,24 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   }, [input, fileIds, loading, onSendMessage, clearFiles]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (showPicker && slashMatches.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setPickerIndex(index => (index + step + slashMatches.length) % slashMatches.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectTemplate(slashMatches[Math.min(pickerIndex, slashMatches.length - 1)]);
+        return;
+      }
+    }
+    if (showPicker && e.key === 'Escape') {
+      setPickerDismissed(true);
+      return;
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -50,6 +111,25 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   return (
     <div className="p-3 md:p-4 bg-white/90 backdrop-blur border-t border-gray-200 z-40">
       <div className="flex flex-col gap-2">
+        {/* Prompt Templates */}
+        {showPicker && (
+          <TemplatePicker
+            templates={slashMatches}
+            activeIndex={Math.min(pickerIndex, Math.max(slashMatches.length - 1, 0))}
+            onSelect={selectTemplate}
+            onHover={setPickerIndex}
+            onManage={onManageTemplates}
+          />
+        )}
+        {activeTemplate && (
+          <TemplateVariablesForm
+            key={activeTemplate.id}
+            template={activeTemplate}
+            onInsert={insertTemplate}
+            onCancel={() => setActiveTemplate(null)}
+          />
+        )}
+
         {/* File Upload Display */}
         {uploadedFiles.length > 0 && (
           <div className={`${isMobile ? 'bg-green-50 border border-green-200 rounded-md p-2' : 'flex flex-wrap gap-2 p-3 bg-green-50 border border-green-200 rounded-md'}`}>
@@ -114,12 +194,16 @@ export const ChatInput: React.FC<ChatInputProps> = ({
             value={input}
             onChange={(e) => {
               setInput(e.target.value);
+              setPickerIndex(0);
+              setPickerDismissed(false);
               // Auto-resize textarea
               e.target.style.height = 'auto';
               e.target.style.height = Math.min(e.target.scrollHeight, 120) + 'px';
             }}
             onKeyDown={handleKeyDown}
-            placeholder="Type a message... (Shift+Enter for new line)"
+            placeholder={templates.length > 0
+              ? 'Type a message, or / for templates... (Shift+Enter for new line)'
+              : 'Type a message... (Shift+Enter for new line)'}
             rows={1}
             disabled={disabled || loading}
             autoComplete="off"
@@ -155,21 +239,31 @@ export const ChatInput: React.FC<ChatInputProps> = ({
             </>
           )}
 
-          <button
-            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-              loading || disabled
-                ? 'bg-gray-300 text-gray-500' 
-                : 'bg-blue-500 hover:bg-blue-600 text-white'
-            }`}
-            onClick={handleSend}
-            disabled={loading || disabled}
-          >
-            {loading ? (
-              <span className="animate-pulse">...</span>
-            ) : (
-              <span>{isMobile ? '↗' : 'Send'}</span>
-            )}
-          </button>
+          {running && onStop ? (
+            <button
+              className="px-4 py-2 rounded-lg font-medium transition-colors bg-red-500 hover:bg-red-600 text-white"
+              onClick={onStop}
+              title="Stop generating"
+            >
+              <span>{isMobile ? '■' : 'Stop'}</span>
+            </button>
+          ) : (
+            <button
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                loading || disabled
+                  ? 'bg-gray-300 text-gray-500' 
+                  : 'bg-blue-500 hover:bg-blue-600 text-white'
+              }`}
+              onClick={handleSend}
+              disabled={loading || disabled}
+            >
+              {loading ? (
+                <span className="animate-pulse">...</span>
+              ) : (
+                <span>{isMobile ? '↗' : 'Send'}</span>
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
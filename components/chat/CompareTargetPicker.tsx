@@ -0,0 +1,107 @@
+// components/chat/CompareTargetPicker.tsx
+import React from 'react';
+import { CompareTarget, ModelOptions } from '../../types/entities.types';
+
+interface CompareTargetPickerProps {
+  enabled: boolean;
+  options: ModelOptions[];
+  targets: CompareTarget[];
+  maxTargets: number;
+  onToggle: () => void;
+  onChangeTarget: (index: number, target: CompareTarget) => void;
+  onAddTarget: () => void;
+  onRemoveTarget: (index: number) => void;
+  disabled?: boolean;
+  isMobile?: boolean;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  openai: 'OpenAI',
+  lmstudio: 'LM Studio',
+  ollama: 'Ollama'
+};
+
+export const getProviderLabel = (provider: string) => PROVIDER_LABELS[provider] || provider;
+
+// provider and model share one select; the model may be empty (provider default)
+const toValue = (target: CompareTarget) => `${target.provider}|${target.model || ''}`;
+const fromValue = (value: string): CompareTarget => {
+  const [provider, model] = value.split('|');
+  return { provider, model: model || undefined };
+};
+
+export const CompareTargetPicker: React.FC<CompareTargetPickerProps> = ({
+  enabled,
+  options,
+  targets,
+  maxTargets,
+  onToggle,
+  onChangeTarget,
+  onAddTarget,
+  onRemoveTarget,
+  disabled = false,
+  isMobile = false
+}) => {
+  const selectClassName = 'rounded-lg border border-gray-200 bg-white px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+  return (
+    <div className={`flex items-center gap-2 flex-wrap ${isMobile ? 'w-full' : ''}`}>
+      <button
+        onClick={onToggle}
+        disabled={disabled}
+        className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+          enabled ? 'bg-purple-600 text-white hover:bg-purple-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+        }`}
+        title="Send the next message to several models and keep the best answer"
+      >
+        ⚖ Compare
+      </button>
+
+      {enabled && targets.map((target, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <select
+            value={toValue(target)}
+            onChange={(e) => onChangeTarget(index, fromValue(e.target.value))}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {options.map(option => (
+              <optgroup key={option.provider} label={getProviderLabel(option.provider)}>
+                {option.models.length === 0 && (
+                  <option value={`${option.provider}|`}>Default model</option>
+                )}
+                {option.models.map(model => (
+                  <option key={model} value={`${option.provider}|${model}`}>{model}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          {targets.length > 2 && (
+            <button
+              onClick={() => onRemoveTarget(index)}
+              disabled={disabled}
+              className="text-gray-400 hover:text-red-500 disabled:opacity-40"
+              aria-label="Remove model from comparison"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+
+      {enabled && targets.length < maxTargets && options.length > 0 && (
+        <button
+          onClick={onAddTarget}
+          disabled={disabled}
+          className="px-2 py-1 rounded-lg text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+        >
+          + Model
+        </button>
+      )}
+
+      {enabled && options.length > 0 && targets.length < 2 && (
+        <span className="text-xs text-gray-500">Pick at least two models</span>
+      )}
+    </div>
+  );
+};
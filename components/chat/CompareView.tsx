@@ -0,0 +1,101 @@
+// components/chat/CompareView.tsx
+import React from 'react';
+import { CompareColumn, CompareResult } from '../../types/entities.types';
+import { MarkdownMessage } from '../markdown/MarkdownMessage';
+import { getProviderLabel } from './CompareTargetPicker';
+
+interface CompareViewProps {
+  result: CompareResult | null;
+  comparing: boolean;
+  error?: string | null;
+  onKeep: (index: number) => void;
+  onDiscard: () => void;
+  keeping?: boolean;
+  isMobile?: boolean;
+}
+
+const formatLatency = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const ColumnStats: React.FC<{ column: CompareColumn }> = ({ column }) => (
+  <div className="text-[11px] text-gray-500">
+    {[
+      formatLatency(column.latencyMs),
+      column.usage && `${column.usage.promptTokens.toLocaleString()} in / ${column.usage.completionTokens.toLocaleString()} out tokens`
+    ].filter(Boolean).join(' · ')}
+  </div>
+);
+
+export const CompareView: React.FC<CompareViewProps> = ({
+  result,
+  comparing,
+  error,
+  onKeep,
+  onDiscard,
+  keeping = false,
+  isMobile = false
+}) => {
+  if (!result && !comparing && !error) return null;
+
+  return (
+    <div className="border-t bg-white px-3 py-3 max-h-[60vh] overflow-y-auto">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <p className="text-sm text-gray-700 truncate">
+          <span className="font-medium">Comparing:</span>{' '}
+          {result?.prompt || (comparing ? 'waiting for answers…' : '')}
+        </p>
+        {result && (
+          <button
+            onClick={onDiscard}
+            disabled={keeping}
+            className="shrink-0 px-2 py-1 rounded-md text-xs text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+          >
+            Discard all
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      {comparing && (
+        <p className="text-sm text-gray-500 animate-pulse">Asking each model…</p>
+      )}
+
+      {result && (
+        <div
+          className={`grid gap-3 ${isMobile ? 'grid-cols-1' : ''}`}
+          style={isMobile ? undefined : { gridTemplateColumns: `repeat(${result.columns.length}, minmax(0, 1fr))` }}
+        >
+          {result.columns.map((column, index) => (
+            <div key={index} className="flex flex-col rounded-lg border border-gray-200 bg-gray-50 min-w-0">
+              <div className="px-3 py-2 border-b border-gray-200">
+                <div className="text-sm font-medium text-gray-900 truncate">
+                  {getProviderLabel(column.provider)}
+                  {column.model && <span className="font-normal text-gray-500"> · {column.model}</span>}
+                </div>
+                <ColumnStats column={column} />
+              </div>
+
+              <div className="flex-1 px-3 py-2 text-sm overflow-x-auto">
+                {column.status === 'completed'
+                  ? <MarkdownMessage content={column.reply} sources={result.searchSources} />
+                  : <p className="text-red-600">{column.error || 'No answer'}</p>}
+              </div>
+
+              {column.status === 'completed' && (
+                <div className="px-3 py-2 border-t border-gray-200">
+                  <button
+                    onClick={() => onKeep(index)}
+                    disabled={keeping}
+                    className="w-full px-3 py-1.5 rounded-md text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Keep this answer
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+// components/chat/DocumentSources.tsx
+import React from 'react';
+import { DocumentSource } from '../../types/entities.types';
+
+interface DocumentSourcesProps {
+  sources: DocumentSource[];
+}
+
+export const DocumentSources: React.FC<DocumentSourcesProps> = ({ sources }) => {
+  if (sources.length === 0) return null;
+
+  return (
+    <details className="mt-3 text-xs text-gray-600">
+      <summary className="cursor-pointer select-none">
+        📄 Project sources ({sources.length})
+      </summary>
+      <ul className="mt-2 space-y-2">
+        {sources.map((source, index) => {
+          const label = source.sourceType === 'file'
+            ? `${source.title}${source.page ? `, p. ${source.page}` : ''}`
+            : `Earlier answer in “${source.title}”`;
+
+          return (
+            <li key={`${source.sourceId}-${index}`} className="border-l-2 border-gray-200 pl-2">
+              {source.url ? (
+                <a href={source.url} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-600 hover:underline">
+                  {label}
+                </a>
+              ) : (
+                <span className="font-medium text-gray-800">{label}</span>
+              )}
+              <p className="text-gray-500 mt-0.5">{source.snippet}</p>
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+};
@@ -1,22 +1,61 @@
 // components/chat/MessageItem.tsx
 
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Message } from '../../types/entities.types';
+import { AnswerVersions, Message } from '../../types/entities.types';
 import { MarkdownMessage } from '../markdown/MarkdownMessage';
+import { WebSources } from './WebSources';
 import { FileRenderer } from '../common/FileRenderer';
+import { DocumentSources } from './DocumentSources';
+import { RegenerateMenu, RegenerateOptions } from './RegenerateMenu';
+
+export interface RegenerateConfig {
+  models: string[];
+  defaultModel?: string;
+  defaultWebSearch: boolean;
+  onRegenerate: (index: number, options: RegenerateOptions) => void;
+}
 
 interface MessageItemProps {
   message: Message;
   index: number;
   isMobile?: boolean;
+  onEdit?: (index: number, content: string) => void; // Edit and resubmit in a new branch
+  editDisabled?: boolean;
+  regenerate?: RegenerateConfig;
+  versions?: AnswerVersions | null; // Other takes on this answer
+  onSelectVersion?: (threadId: string) => void;
 }
 
 export const MessageItem: React.FC<MessageItemProps> = ({ 
   message, 
   index, 
-  isMobile = false 
+  isMobile = false,
+  onEdit,
+  editDisabled = false,
+  regenerate,
+  versions,
+  onSelectVersion
 }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const canEdit = Boolean(onEdit) && message.role === 'user' && typeof message.content === 'string';
+  const showAnswerActions = message.role === 'assistant' && !message.streaming && (regenerate || versions);
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() || draft === message.content) {
+      setEditing(false);
+      return;
+    }
+    setEditing(false);
+    onEdit!(index, draft);
+  };
+
   const getRoleName = (role: string) => {
     switch (role) {
       case "user": return "You";
@@ -70,29 +109,120 @@ export const MessageItem: React.FC<MessageItemProps> = ({
         {message.timestamp && (
           <span className="text-xs text-gray-500">({message.timestamp})</span>
         )}
+        {canEdit && !editing && (
+          <button
+            onClick={startEditing}
+            disabled={editDisabled}
+            className="ml-2 text-xs font-normal text-blue-600 hover:text-blue-700 disabled:opacity-40"
+            title="Edit and resubmit as a new branch"
+          >
+            Edit
+          </button>
+        )}
       </p>
-      <div className={getOverflowClass(message.role)}>
-        <MarkdownMessage 
-          content={message.content} 
-          className={hasTableContent ? "has-table-content" : ""} 
-        />
+      {editing ? (
+        <div className="p-3 rounded-md bg-gray-100 border border-gray-300">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submitEdit();
+              if (e.key === 'Escape') setEditing(false);
+            }}
+            rows={Math.min(10, Math.max(3, draft.split('\n').length))}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            autoFocus
+          />
+          <div className="mt-2 flex items-center justify-end gap-2 text-sm">
+            <span className="mr-auto text-xs text-gray-500">The original conversation is kept as another branch</span>
+            <button onClick={() => setEditing(false)} className="px-3 py-1 rounded-md text-gray-600 hover:bg-gray-200">
+              Cancel
+            </button>
+            <button
+              onClick={submitEdit}
+              disabled={editDisabled || !draft.trim()}
+              className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save &amp; resubmit
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className={getOverflowClass(message.role)}>
+          {message.progress && (
+            <p className="text-xs text-gray-500 italic mb-2">{message.progress}</p>
+          )}
+
+          <MarkdownMessage 
+            content={message.content} 
+            className={hasTableContent ? "has-table-content" : ""} 
+            sources={message.searchSources}
+          />
+
+          {message.streaming && (
+            <span className="inline-block w-2 h-4 bg-gray-400 animate-pulse align-middle" />
+          )}
         
-        {message.files && message.files.length > 0 && (
-          <div className="mt-3">
-            {message.files.map((file, fileIndex) => {
-              // Skip rendering if file is already linked in text content
-              const isAlreadyLinkedInText = typeof message.content === 'string' && 
-                message.content.includes(`/api/files/${file.file_id}`);
+          {message.searchSources && (
+            <WebSources sources={message.searchSources} />
+          )}
+
+          {message.documentSources && (
+            <DocumentSources sources={message.documentSources} />
+          )}
+
+          {message.files && message.files.length > 0 && (
+            <div className="mt-3">
+              {message.files.map((file, fileIndex) => {
+                // Skip rendering if file is already linked in text content
+                const isAlreadyLinkedInText = typeof message.content === 'string' && 
+                  message.content.includes(`/api/files/${file.file_id}`);
               
-              if (isAlreadyLinkedInText) {
-                return null;
-              }
+                if (isAlreadyLinkedInText) {
+                  return null;
+                }
               
-              return <FileRenderer key={fileIndex} file={file} isMobile={isMobile} />;
-            })}
-          </div>
-        )}
-      </div>
+                return <FileRenderer key={fileIndex} file={file} isMobile={isMobile} />;
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showAnswerActions && (
+        <div className="mt-1 flex items-center gap-3">
+          {versions && onSelectVersion && (
+            <div className="flex items-center gap-1 text-xs text-gray-500">
+              <button
+                onClick={() => onSelectVersion(versions.threadIds[versions.current - 1])}
+                disabled={editDisabled || versions.current <= 0}
+                className="px-1 hover:text-gray-800 disabled:opacity-30"
+                aria-label="Previous version"
+              >
+                ‹
+              </button>
+              <span>{versions.current + 1} / {versions.threadIds.length}</span>
+              <button
+                onClick={() => onSelectVersion(versions.threadIds[versions.current + 1])}
+                disabled={editDisabled || versions.current >= versions.threadIds.length - 1}
+                className="px-1 hover:text-gray-800 disabled:opacity-30"
+                aria-label="Next version"
+              >
+                ›
+              </button>
+            </div>
+          )}
+          {regenerate && (
+            <RegenerateMenu
+              models={regenerate.models}
+              defaultModel={regenerate.defaultModel}
+              defaultWebSearch={regenerate.defaultWebSearch}
+              onRegenerate={(options) => regenerate.onRegenerate(index, options)}
+              disabled={editDisabled}
+            />
+          )}
+        </div>
+      )}
     </motion.div>
   );
 };
\ No newline at end of file
@@ -1,7 +1,7 @@
 // components/chat/MessageList.tsx
 import React, { useRef, useEffect, useState } from 'react';
-import { Message } from '../../types/entities.types';
-import { MessageItem } from './MessageItem';
+import { AnswerVersions, Message, MessageFocus } from '../../types/entities.types';
+import { MessageItem, RegenerateConfig } from './MessageItem';
 import { TypingIndicator } from '../common/TypingIndicator';
 import { JumpButtons } from '../common/JumpButtons';
 
@@ -9,14 +9,45 @@ interface MessageListProps {
   messages: Message[];
   typing?: boolean;
   isMobile?: boolean;
+  focus?: MessageFocus | null; // Set when a search result opens this thread
+  onEditMessage?: (index: number, content: string) => void;
+  editDisabled?: boolean;
+  regenerate?: RegenerateConfig;
+  getAnswerVersions?: (userTurn: number) => AnswerVersions | null;
+  onSelectVersion?: (threadId: string) => void;
 }
 
+const normalize = (text: unknown) =>
+  (typeof text === 'string' ? text : JSON.stringify(text ?? '')).replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * The message a search result points at: the saved position if it still
+ * holds the matched text, otherwise the first message containing it
+ */
+const findFocusIndex = (messages: Message[], focus: MessageFocus): number => {
+  const anchor = focus.anchor ? normalize(focus.anchor) : '';
+  const atIndex = focus.messageIndex !== undefined ? messages[focus.messageIndex] : undefined;
+
+  if (!anchor) return atIndex ? focus.messageIndex! : -1;
+  if (atIndex && normalize(atIndex.content).includes(anchor)) return focus.messageIndex!;
+
+  const found = messages.findIndex(msg => normalize(msg.content).includes(anchor));
+  return found >= 0 ? found : atIndex ? focus.messageIndex! : -1;
+};
+
 export const MessageList: React.FC<MessageListProps> = React.memo(({ 
   messages, 
   typing = false, 
-  isMobile = false 
+  isMobile = false,
+  focus = null,
+  onEditMessage,
+  editDisabled = false,
+  regenerate,
+  getAnswerVersions,
+  onSelectVersion
 }) => {
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const appliedFocusRef = useRef<number | null>(null);
   const [showJumpButtons, setShowJumpButtons] = useState(false);
 
   // Scroll to bottom when messages change
@@ -27,6 +58,20 @@ export const MessageList: React.FC<MessageListProps> = React.memo(({
     });
   }, [messages]);
 
+  // Scroll to and briefly highlight the message a search result pointed at
+  useEffect(() => {
+    if (!focus || appliedFocusRef.current === focus.requestedAt || messages.length === 0) return;
+
+    const index = findFocusIndex(messages, focus);
+    const element = index >= 0 ? chatContainerRef.current?.children[index] : undefined;
+    if (!element) return;
+
+    appliedFocusRef.current = focus.requestedAt;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    element.classList.add('ring-2', 'ring-yellow-300', 'rounded-xl');
+    setTimeout(() => element.classList.remove('ring-2', 'ring-yellow-300', 'rounded-xl'), 2500);
+  }, [focus, messages]);
+
   // Handle scroll to show/hide jump buttons
   useEffect(() => {
     const chatContainer = chatContainerRef.current;
@@ -64,16 +109,27 @@ export const MessageList: React.FC<MessageListProps> = React.memo(({
         ref={chatContainerRef}
         className="flex-1 overflow-y-auto ring-1 ring-gray-200 shadow-sm rounded-2xl bg-white p-4 md:p-5 space-y-4 pb-28 chat-container"
       >
-        {messages.map((msg, index) => (
-          <MessageItem 
-            key={index} 
-            message={msg} 
-            index={index} 
-            isMobile={isMobile} 
-          />
-        ))}
-
-        {typing && <TypingIndicator />}
+        {messages.map((msg, index) => {
+          // Turn of the question this answer replies to
+          const userTurn = messages.slice(0, index).filter(m => m.role === 'user').length - 1;
+
+          return (
+            <MessageItem 
+              key={index} 
+              message={msg} 
+              index={index} 
+              isMobile={isMobile} 
+              onEdit={onEditMessage}
+              editDisabled={editDisabled}
+              regenerate={userTurn >= 0 ? regenerate : undefined}
+              versions={msg.role === 'assistant' && userTurn >= 0 ? getAnswerVersions?.(userTurn) : null}
+              onSelectVersion={onSelectVersion}
+            />
+          );
+        })}
+
+        {/* Streamed replies render in place of the typing indicator */}
+        {typing && !messages.some(msg => msg.streaming) && <TypingIndicator />}
       </div>
 
       <JumpButtons
@@ -0,0 +1,67 @@
+// components/chat/ModelPicker.tsx
+import React from 'react';
+import { ModelOptions, ThreadSettings } from '../../types/entities.types';
+
+interface ModelPickerProps {
+  settings: ThreadSettings;
+  modelOptions: ModelOptions;
+  onChange: (settings: ThreadSettings) => void;
+  disabled?: boolean;
+  isMobile?: boolean;
+}
+
+const TEMPERATURE_PRESETS = [
+  { label: 'Default', value: undefined },
+  { label: 'Precise (0.2)', value: 0.2 },
+  { label: 'Balanced (0.7)', value: 0.7 },
+  { label: 'Creative (1.0)', value: 1.0 }
+];
+
+export const ModelPicker: React.FC<ModelPickerProps> = ({
+  settings,
+  modelOptions,
+  onChange,
+  disabled = false,
+  isMobile = false
+}) => {
+  if (modelOptions.models.length === 0) return null;
+
+  const selectClassName = `rounded-lg border border-gray-200 bg-white px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 ${
+    isMobile ? 'flex-1' : ''
+  }`;
+
+  return (
+    <div className={`flex items-center gap-2 ${isMobile ? 'w-full' : ''}`}>
+      <select
+        value={settings.model || ''}
+        onChange={(e) => onChange({ model: e.target.value || undefined })}
+        className={selectClassName}
+        disabled={disabled}
+        title="Model for this conversation"
+      >
+        <option value="">Default model</option>
+        {modelOptions.models.map(model => (
+          <option key={model} value={model}>{model}</option>
+        ))}
+      </select>
+
+      <select
+        value={settings.temperature ?? ''}
+        onChange={(e) => onChange({
+          temperature: e.target.value === '' ? undefined : parseFloat(e.target.value)
+        })}
+        className={selectClassName}
+        disabled={disabled}
+        title="Temperature for this conversation"
+      >
+        {TEMPERATURE_PRESETS.map(preset => (
+          <option key={preset.label} value={preset.value ?? ''}>{preset.label}</option>
+        ))}
+        {settings.temperature !== undefined &&
+          !TEMPERATURE_PRESETS.some(preset => preset.value === settings.temperature) && (
+          <option value={settings.temperature}>Custom ({settings.temperature})</option>
+        )}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+// components/chat/RegenerateMenu.tsx
+import React, { useState } from 'react';
+
+export interface RegenerateOptions {
+  model?: string;
+  webSearchEnabled: boolean;
+}
+
+interface RegenerateMenuProps {
+  models: string[];
+  defaultModel?: string;
+  defaultWebSearch: boolean;
+  onRegenerate: (options: RegenerateOptions) => void;
+  disabled?: boolean;
+}
+
+export const RegenerateMenu: React.FC<RegenerateMenuProps> = ({
+  models,
+  defaultModel,
+  defaultWebSearch,
+  onRegenerate,
+  disabled = false
+}) => {
+  const [open, setOpen] = useState(false);
+  const [model, setModel] = useState(defaultModel || '');
+  const [webSearch, setWebSearch] = useState(defaultWebSearch);
+
+  const toggle = () => {
+    // Start from the thread's current settings each time the menu opens
+    if (!open) {
+      setModel(defaultModel || '');
+      setWebSearch(defaultWebSearch);
+    }
+    setOpen(!open);
+  };
+
+  const submit = () => {
+    setOpen(false);
+    onRegenerate({ model: model || undefined, webSearchEnabled: webSearch });
+  };
+
+  return (
+    <div className="relative inline-block">
+      <button
+        onClick={toggle}
+        disabled={disabled}
+        className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-40"
+        title="Get another version of this answer"
+      >
+        ↻ Regenerate
+      </button>
+
+      {open && (
+        <div className="absolute left-0 z-20 mt-1 w-56 rounded-lg border border-gray-200 bg-white p-3 shadow-lg space-y-2 text-sm">
+          {models.length > 0 && (
+            <select
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              className="w-full rounded-lg border border-gray-200 px-2 py-1 text-sm text-gray-700"
+            >
+              <option value="">Default model</option>
+              {models.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={webSearch}
+              onChange={(e) => setWebSearch(e.target.checked)}
+            />
+            Web search
+          </label>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setOpen(false)} className="px-2 py-1 rounded-md text-gray-600 hover:bg-gray-100">
+              Cancel
+            </button>
+            <button onClick={submit} className="px-2 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700">
+              Regenerate
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+// components/chat/TemplatePicker.tsx
+import React from 'react';
+import { PromptTemplate } from '../../types/entities.types';
+
+interface TemplatePickerProps {
+  templates: PromptTemplate[]; // Already filtered by what was typed after "/"
+  activeIndex: number;
+  onSelect: (template: PromptTemplate) => void;
+  onHover: (index: number) => void;
+  onManage?: () => void;
+}
+
+/**
+ * Slash-command suggestions shown above the chat input
+ */
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({
+  templates,
+  activeIndex,
+  onSelect,
+  onHover,
+  onManage
+}) => (
+  <div className="rounded-lg border border-gray-200 bg-white shadow-lg max-h-64 overflow-y-auto" role="listbox">
+    {templates.length === 0 && (
+      <p className="px-3 py-2 text-sm text-gray-500">No matching templates</p>
+    )}
+
+    {templates.map((template, index) => (
+      <button
+        key={template.id}
+        role="option"
+        aria-selected={index === activeIndex}
+        // mousedown keeps focus in the textarea
+        onMouseDown={(e) => {
+          e.preventDefault();
+          onSelect(template);
+        }}
+        onMouseEnter={() => onHover(index)}
+        className={`w-full text-left px-3 py-2 flex items-baseline gap-2 ${
+          index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+        }`}
+      >
+        <span className="font-mono text-sm text-blue-700">/{template.command}</span>
+        <span className="text-sm text-gray-800 truncate">{template.title}</span>
+        <span className="ml-auto shrink-0 text-[11px] text-gray-400">
+          {template.projectId ? 'Project' : 'Global'}
+          {template.variables.length > 0 && ` · ${template.variables.length} field${template.variables.length === 1 ? '' : 's'}`}
+        </span>
+      </button>
+    ))}
+
+    {onManage && (
+      <button
+        onMouseDown={(e) => {
+          e.preventDefault();
+          onManage();
+        }}
+        className="w-full text-left px-3 py-2 text-xs text-gray-600 border-t border-gray-100 hover:bg-gray-50"
+      >
+        Manage templates…
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,70 @@
+// components/chat/TemplateVariablesForm.tsx
+import React, { useState } from 'react';
+import { PromptTemplate } from '../../types/entities.types';
+import { fillTemplate, formatVariableLabel } from '../../utils/templateUtils';
+
+interface TemplateVariablesFormProps {
+  template: PromptTemplate;
+  onInsert: (text: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Fill in a template's {{variables}} before it goes into the message box
+ */
+export const TemplateVariablesForm: React.FC<TemplateVariablesFormProps> = ({
+  template,
+  onInsert,
+  onCancel
+}) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onInsert(fillTemplate(template.body, values));
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+      className="rounded-lg border border-blue-200 bg-blue-50 p-3"
+    >
+      <div className="flex items-baseline gap-2 mb-2">
+        <span className="font-mono text-sm text-blue-700">/{template.command}</span>
+        <span className="text-sm font-medium text-gray-800 truncate">{template.title}</span>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {template.variables.map((name, index) => (
+          <label key={name} className="flex flex-col gap-1 text-xs text-gray-600">
+            {formatVariableLabel(name)}
+            <input
+              type="text"
+              value={values[name] || ''}
+              onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+              autoFocus={index === 0}
+              className="rounded-md border border-gray-200 bg-white px-2 py-1 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2 mt-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 rounded-md text-sm text-gray-600 hover:bg-white"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="px-3 py-1 rounded-md text-sm bg-blue-500 text-white hover:bg-blue-600"
+        >
+          Insert
+        </button>
+      </div>
+    </form>
+  );
+};
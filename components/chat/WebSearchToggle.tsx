@@ -5,6 +5,8 @@ interface WebSearchToggleProps {
   enabled: boolean;
   searchInProgress?: boolean;
   onToggle: () => void;
+  deepResearch?: boolean;
+  onToggleDeepResearch?: () => void; // Shows the deep research option while search is on
   isMobile?: boolean;
 }
 
@@ -12,44 +14,83 @@ export const WebSearchToggle: React.FC<WebSearchToggleProps> = ({
   enabled,
   searchInProgress = false,
   onToggle,
+  deepResearch = false,
+  onToggleDeepResearch,
   isMobile = false
 }) => {
+  const showDeepResearch = enabled && !!onToggleDeepResearch;
+
   if (isMobile) {
     return (
-      <button
-        onClick={onToggle}
-        className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors ${
-          enabled 
-            ? 'bg-blue-600 text-white' 
-            : 'bg-gray-200 text-gray-700'
-        }`}
-      >
-        🌐 Web Search {enabled && '✓'}
-      </button>
+      <div className="flex-1 flex gap-2">
+        <button
+          onClick={onToggle}
+          className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors ${
+            enabled
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-200 text-gray-700'
+          }`}
+        >
+          🌐 Web Search {enabled && '✓'}
+        </button>
+        {showDeepResearch && (
+          <button
+            onClick={onToggleDeepResearch}
+            className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors ${
+              deepResearch
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 text-gray-700'
+            }`}
+          >
+            📖 Deep Research {deepResearch && '✓'}
+          </button>
+        )}
+      </div>
     );
   }
 
   return (
-    <label className="flex items-center cursor-pointer">
-      <input
-        type="checkbox"
-        id="web-search-toggle"
-        name="webSearch"
-        checked={enabled}
-        onChange={onToggle}
-        className="mr-2 w-4 h-4 text-blue-600 rounded"
-      />
-      <span className="text-sm flex items-center gap-1">
-        {searchInProgress ? (
-          <span className="animate-pulse">🔍</span>
-        ) : (
-          <span>🌐</span>
-        )}
-        Web Search
-        {enabled && (
-          <span className="text-xs text-green-600 font-semibold">ON</span>
-        )}
-      </span>
-    </label>
+    <div className="flex items-center gap-4">
+      <label className="flex items-center cursor-pointer">
+        <input
+          type="checkbox"
+          id="web-search-toggle"
+          name="webSearch"
+          checked={enabled}
+          onChange={onToggle}
+          className="mr-2 w-4 h-4 text-blue-600 rounded"
+        />
+        <span className="text-sm flex items-center gap-1">
+          {searchInProgress ? (
+            <span className="animate-pulse">🔍</span>
+          ) : (
+            <span>🌐</span>
+          )}
+          Web Search
+          {enabled && (
+            <span className="text-xs text-green-600 font-semibold">ON</span>
+          )}
+        </span>
+      </label>
+      {showDeepResearch && (
+        <label
+          className="flex items-center cursor-pointer"
+          title="Read the top results in full instead of only their snippets (slower)"
+        >
+          <input
+            type="checkbox"
+            id="deep-research-toggle"
+            name="deepResearch"
+            checked={deepResearch}
+            onChange={onToggleDeepResearch}
+            className="mr-2 w-4 h-4 text-blue-600 rounded"
+          />
+          <span className="text-sm flex items-center gap-1">
+            <span>📖</span>
+            Deep Research
+          </span>
+        </label>
+      )}
+    </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,35 @@
+// components/chat/WebSources.tsx
+import React from 'react';
+import { SearchSource } from '../../types/entities.types';
+
+interface WebSourcesProps {
+  sources: SearchSource[];
+}
+
+export const WebSources: React.FC<WebSourcesProps> = ({ sources }) => {
+  if (sources.length === 0) return null;
+
+  const citedCount = sources.filter(source => source.cited).length;
+
+  return (
+    <details className="mt-3 text-xs text-gray-600">
+      <summary className="cursor-pointer select-none">
+        🌐 Web sources ({citedCount > 0 ? `${citedCount} of ${sources.length} cited` : sources.length})
+      </summary>
+      <ol className="mt-2 space-y-2">
+        {sources.map((source, index) => (
+          <li
+            key={`${source.id ?? index}-${source.url}`}
+            className={`border-l-2 pl-2 ${source.cited ? 'border-blue-300' : 'border-gray-200 opacity-70'}`}
+          >
+            {source.id !== undefined && <span className="mr-1 font-medium text-gray-500">[{source.id}]</span>}
+            <a href={source.url} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-600 hover:underline">
+              {source.title}
+            </a>
+            {source.snippet && <p className="text-gray-500 mt-0.5">{source.snippet}</p>}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+};
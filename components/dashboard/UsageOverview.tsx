@@ -0,0 +1,182 @@
+// components/dashboard/UsageOverview.tsx
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+
+interface UsageRollup {
+  id: string;
+  name: string;
+  projectId?: string;
+  messages: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  searchCalls: number;
+  codeInterpreterSessions: number;
+  estimatedCost: number;
+}
+
+interface UsageSummary {
+  totals: UsageRollup;
+  projects: UsageRollup[];
+  threads: UsageRollup[];
+}
+
+const PERIODS = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+  { label: 'All time', days: 0 }
+];
+
+const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+export const UsageOverview: React.FC = () => {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [days, setDays] = useState(30);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      setLoading(true);
+      try {
+        setError(null);
+        const params = new URLSearchParams();
+        if (days) params.set('days', String(days));
+        const response = await fetch(`/api/usage?${params}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch usage');
+        }
+        setSummary(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load usage');
+        console.error('Error fetching usage:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUsage();
+  }, [days]);
+
+  const threads = summary?.threads.filter(thread =>
+    !projectId || (thread.projectId || 'unassigned') === projectId
+  ) || [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.7 }}
+      className="bg-white rounded-lg shadow p-6 mt-8"
+    >
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">AI Usage</h2>
+          <p className="text-sm text-gray-500">Token usage and estimated cost per project and thread</p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(parseInt(e.target.value))}
+          className="rounded border border-gray-300 px-3 py-1 text-sm"
+        >
+          {PERIODS.map(period => (
+            <option key={period.days} value={period.days}>{period.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && !summary ? (
+        <p className="text-gray-500">Loading usage...</p>
+      ) : error ? (
+        <p className="text-red-600">{error}</p>
+      ) : summary && summary.totals.messages === 0 ? (
+        <p className="text-gray-500">No usage recorded for this period</p>
+      ) : summary && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            <div className="rounded border border-gray-100 p-4">
+              <div className="text-sm text-gray-500">Estimated Cost</div>
+              <div className="text-2xl font-bold text-blue-600">{formatCost(summary.totals.estimatedCost)}</div>
+            </div>
+            <div className="rounded border border-gray-100 p-4">
+              <div className="text-sm text-gray-500">Tokens</div>
+              <div className="text-2xl font-bold text-gray-800">{formatTokens(summary.totals.totalTokens)}</div>
+              <div className="text-xs text-gray-500">
+                {formatTokens(summary.totals.promptTokens)} in / {formatTokens(summary.totals.completionTokens)} out
+              </div>
+            </div>
+            <div className="rounded border border-gray-100 p-4">
+              <div className="text-sm text-gray-500">Web Searches</div>
+              <div className="text-2xl font-bold text-gray-800">{summary.totals.searchCalls}</div>
+            </div>
+            <div className="rounded border border-gray-100 p-4">
+              <div className="text-sm text-gray-500">Code Interpreter Sessions</div>
+              <div className="text-2xl font-bold text-gray-800">{summary.totals.codeInterpreterSessions}</div>
+            </div>
+          </div>
+
+          <h3 className="font-medium text-gray-800 mb-2">By Project</h3>
+          <div className="overflow-x-auto mb-6">
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-4 font-medium text-gray-700">Project</th>
+                  <th className="text-right py-2 px-4 font-medium text-gray-700">Replies</th>
+                  <th className="text-right py-2 px-4 font-medium text-gray-700">Tokens</th>
+                  <th className="text-right py-2 px-4 font-medium text-gray-700">Searches</th>
+                  <th className="text-right py-2 px-4 font-medium text-gray-700">Est. Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.projects.map(project => (
+                  <tr
+                    key={project.id}
+                    onClick={() => setProjectId(projectId === project.id ? null : project.id)}
+                    className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${
+                      projectId === project.id ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <td className="py-2 px-4 text-sm text-gray-900 font-medium">{project.name}</td>
+                    <td className="py-2 px-4 text-sm text-gray-600 text-right">{project.messages}</td>
+                    <td className="py-2 px-4 text-sm text-gray-600 text-right">{formatTokens(project.totalTokens)}</td>
+                    <td className="py-2 px-4 text-sm text-gray-600 text-right">{project.searchCalls}</td>
+                    <td className="py-2 px-4 text-sm text-gray-900 text-right">{formatCost(project.estimatedCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 className="font-medium text-gray-800 mb-2">
+            By Thread {projectId && <span className="text-sm font-normal text-gray-500">(filtered by project)</span>}
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-4 font-medium text-gray-700">Thread</th>
+                  <th className="text-right py-2 px-4 font-medium text-gray-700">Replies</th>
+                  <th className="text-right py-2 px-4 font-medium text-gray-700">Tokens</th>
+                  <th className="text-right py-2 px-4 font-medium text-gray-700">Est. Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {threads.slice(0, 50).map(thread => (
+                  <tr key={thread.id} className="border-b border-gray-100">
+                    <td className="py-2 px-4 text-sm text-gray-900 truncate max-w-xs" title={thread.id}>{thread.name}</td>
+                    <td className="py-2 px-4 text-sm text-gray-600 text-right">{thread.messages}</td>
+                    <td className="py-2 px-4 text-sm text-gray-600 text-right">{formatTokens(thread.totalTokens)}</td>
+                    <td className="py-2 px-4 text-sm text-gray-900 text-right">{formatCost(thread.estimatedCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+};
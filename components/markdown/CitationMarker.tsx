@@ -0,0 +1,39 @@
+// components/markdown/CitationMarker.tsx
+import React from 'react';
+import { SearchSource } from '../../types/entities.types';
+
+interface CitationMarkerProps {
+  source: SearchSource;
+}
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+export const CitationMarker: React.FC<CitationMarkerProps> = ({ source }) => (
+  <span className="relative inline-block group align-super">
+    <a
+      href={source.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      aria-label={`Source ${source.id}: ${source.title}`}
+      className="mx-0.5 px-1 rounded bg-blue-50 text-[0.7em] font-medium text-blue-700 no-underline hover:bg-blue-100"
+    >
+      {source.id}
+    </a>
+    <span
+      role="tooltip"
+      className="pointer-events-none absolute bottom-full left-1/2 z-20 mb-1 hidden w-64 -translate-x-1/2 rounded-lg border border-gray-200 bg-white p-2 text-left text-xs font-normal leading-snug shadow-lg group-hover:block group-focus-within:block"
+    >
+      <span className="block font-medium text-gray-900">{source.title}</span>
+      <span className="block text-gray-400">{getHostname(source.url)}</span>
+      {source.snippet && (
+        <span className="mt-1 block text-gray-600 line-clamp-3">{source.snippet}</span>
+      )}
+    </span>
+  </span>
+);
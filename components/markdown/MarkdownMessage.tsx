@@ -2,17 +2,26 @@
 import React from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { extractTextContent } from '../../utils/contentUtils';
+import { extractTextContent, linkCitations } from '../../utils/contentUtils';
+import { SearchSource } from '../../types/entities.types';
+import { CitationMarker } from './CitationMarker';
 
 interface MarkdownMessageProps {
   content: any;
   className?: string;
+  sources?: SearchSource[]; // Web sources the reply cites as [n]
 }
 
 export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ 
   content, 
-  className = "" 
+  className = "",
+  sources
 }) => {
+  const citedSources = new Map((sources || [])
+    .filter((source): source is SearchSource & { id: number } => source.id !== undefined)
+    .map(source => [source.id, source]));
+  const markdown = citedSources.size > 0 ? linkCitations(content, [...citedSources.keys()]) : content;
+
   return (
     <div className={`message-content chat-message ${className}`}>
       <ReactMarkdown
@@ -61,6 +70,12 @@ export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({
             );
           },
           a: ({ href, children, ...props }) => {
+                // Inline citation of a web source
+                const citedSource = href?.startsWith('#cite-') ? citedSources.get(Number(href.slice(6))) : undefined;
+                if (citedSource) {
+                  return <CitationMarker source={citedSource} />;
+                }
+
                 // Check for various file download patterns
                 const isFileDownload = 
                   href?.startsWith('/api/files/') || 
@@ -264,7 +279,7 @@ export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({
           ),
         }}
       >
-        {content}
+        {markdown}
       </ReactMarkdown>
     </div>
   );
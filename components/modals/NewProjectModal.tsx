@@ -1,11 +1,13 @@
 // components/modals/NewProjectModal.tsx
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { ProjectAssistantSettings } from '../../types/entities.types';
+import { ProjectSettingsFields } from './ProjectSettingsFields';
 
 interface NewProjectModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreateProject: (data: { name: string; description?: string; color?: string }) => void;
+  onCreateProject: (data: { name: string; description?: string; color?: string } & ProjectAssistantSettings) => void;
 }
 
 export const NewProjectModal: React.FC<NewProjectModalProps> = ({
@@ -15,6 +17,8 @@ export const NewProjectModal: React.FC<NewProjectModalProps> = ({
 }) => {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [settings, setSettings] = useState<ProjectAssistantSettings>({});
+  const [showSettings, setShowSettings] = useState(false);
   const [loading, setLoading] = useState(false);
 
   const randomColor = () => `#${Math.floor(Math.random() * 0xffffff).toString(16).padStart(6, '0')}`;
@@ -27,12 +31,18 @@ export const NewProjectModal: React.FC<NewProjectModalProps> = ({
       await onCreateProject({
         name: name.trim(),
         description: description.trim() || undefined,
-        color: randomColor()
+        color: randomColor(),
+        instructions: settings.instructions?.trim() || undefined,
+        tone: settings.tone?.trim() || undefined,
+        targetCountry: settings.targetCountry?.trim() || undefined,
+        outputConventions: settings.outputConventions?.trim() || undefined
       });
       
       // Reset form
       setName('');
       setDescription('');
+      setSettings({});
+      setShowSettings(false);
     } catch (error) {
       console.error('Create project error:', error);
     } finally {
@@ -61,7 +71,7 @@ export const NewProjectModal: React.FC<NewProjectModalProps> = ({
           initial={{ scale: 0.9, opacity: 0 }}
           animate={{ scale: 1, opacity: 1 }}
           exit={{ scale: 0.9, opacity: 0 }}
-          className="bg-white rounded-lg p-6 max-w-md w-full"
+          className="bg-white rounded-lg p-6 max-w-md w-full max-h-[90vh] overflow-y-auto"
           onClick={(e) => e.stopPropagation()}
         >
           <h3 className="text-lg font-semibold mb-4">Create New Project</h3>
@@ -96,6 +106,25 @@ export const NewProjectModal: React.FC<NewProjectModalProps> = ({
                 disabled={loading}
               />
             </div>
+
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowSettings(prev => !prev)}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                {showSettings ? '▾' : '▸'} Assistant settings (optional)
+              </button>
+              {showSettings && (
+                <div className="mt-3">
+                  <ProjectSettingsFields
+                    settings={settings}
+                    onChange={setSettings}
+                    disabled={loading}
+                  />
+                </div>
+              )}
+            </div>
           </div>
           
           <div className="flex gap-2 mt-6">
@@ -0,0 +1,156 @@
+// components/modals/ProjectBudgetSection.tsx
+import React, { useEffect, useState } from 'react';
+import { ProjectBudget } from '../../types/entities.types';
+import { ProjectService } from '../../services/projectService';
+import { formatErrorMessage } from '../../utils/errorHandler';
+
+interface ProjectBudgetSectionProps {
+  projectId: string;
+}
+
+const inputClassName =
+  'w-full rounded-xl ring-1 ring-gray-100 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const STATE_STYLES: Record<ProjectBudget['state'], string> = {
+  ok: 'bg-green-50 text-green-800',
+  warning: 'bg-yellow-50 text-yellow-800',
+  exceeded: 'bg-red-50 text-red-800'
+};
+
+export const ProjectBudgetSection: React.FC<ProjectBudgetSectionProps> = ({ projectId }) => {
+  const [budget, setBudget] = useState<ProjectBudget | null>(null);
+  const [budgetUsd, setBudgetUsd] = useState('');
+  const [period, setPeriod] = useState<'monthly' | 'total'>('monthly');
+  const [softLimitPercent, setSoftLimitPercent] = useState('80');
+  const [adminKey, setAdminKey] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    ProjectService.getBudget(projectId)
+      .then(status => {
+        setBudget(status);
+        setBudgetUsd(status.budgetUsd !== null ? String(status.budgetUsd) : '');
+        setPeriod(status.period);
+        setSoftLimitPercent(String(status.softLimitPercent));
+      })
+      .catch(error => setMessage(formatErrorMessage(error)));
+  }, [projectId]);
+
+  const save = async (updates: Parameters<typeof ProjectService.updateBudget>[1]) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      setBudget(await ProjectService.updateBudget(projectId, updates, adminKey));
+      setMessage('Budget updated');
+    } catch (error) {
+      setMessage(formatErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveBudget = () => save({
+    budgetUsd: budgetUsd.trim() ? parseFloat(budgetUsd) : null,
+    period,
+    softLimitPercent: parseInt(softLimitPercent) || 80
+  });
+
+  return (
+    <div className="space-y-3">
+      {budget && budget.budgetUsd !== null && (
+        <div className={`rounded-lg px-3 py-2 text-sm ${STATE_STYLES[budget.state]}`}>
+          ${budget.spent.toFixed(2)} of ${budget.budgetUsd.toFixed(2)} used
+          {budget.period === 'monthly' ? ' this month' : ''} ({budget.percentUsed}%)
+          {budget.overrideActive && budget.overrideUntil && (
+            <div className="text-xs mt-1">
+              Override active until {new Date(budget.overrideUntil).toLocaleString()}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Budget (USD)</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={budgetUsd}
+            onChange={(e) => setBudgetUsd(e.target.value)}
+            className={inputClassName}
+            placeholder="No limit"
+            disabled={saving}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Period</label>
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as 'monthly' | 'total')}
+            className={inputClassName}
+            disabled={saving}
+          >
+            <option value="monthly">Monthly</option>
+            <option value="total">Total</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Warn at (%)</label>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={softLimitPercent}
+            onChange={(e) => setSoftLimitPercent(e.target.value)}
+            className={inputClassName}
+            disabled={saving}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Admin Key</label>
+        <input
+          type="password"
+          value={adminKey}
+          onChange={(e) => setAdminKey(e.target.value)}
+          className={inputClassName}
+          placeholder="Required to change the budget"
+          autoComplete="off"
+          disabled={saving}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleSaveBudget}
+          disabled={!adminKey || saving}
+          className="py-1.5 px-3 text-sm bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50"
+        >
+          Save Budget
+        </button>
+        {budget?.overrideActive ? (
+          <button
+            onClick={() => save({ overrideHours: null })}
+            disabled={!adminKey || saving}
+            className="py-1.5 px-3 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            End Override
+          </button>
+        ) : (
+          <button
+            onClick={() => save({ overrideHours: 24 })}
+            disabled={!adminKey || saving}
+            className="py-1.5 px-3 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Allow Runs for 24h
+          </button>
+        )}
+      </div>
+
+      {message && <p className="text-xs text-gray-600">{message}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+// components/modals/ProjectSearchSection.tsx
+import React, { useEffect, useState } from 'react';
+import { ProjectSearchSettings, SearchProviderName } from '../../types/entities.types';
+import { ProjectService } from '../../services/projectService';
+import { formatErrorMessage } from '../../utils/errorHandler';
+
+interface ProjectSearchSectionProps {
+  projectId: string;
+}
+
+const inputClassName =
+  'w-full rounded-xl ring-1 ring-gray-100 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// One domain per line; preferred domains may end with a weight ("gov.bb 2")
+const toLines = (domains: string[]) => domains.join('\n');
+const fromLines = (text: string) => text.split(/[\n,]+/).map(line => line.trim()).filter(Boolean);
+
+const toPreferLines = (domains: ProjectSearchSettings['preferDomains']) =>
+  domains.map(({ domain, weight }) => weight === 1 ? domain : `${domain} ${weight}`).join('\n');
+const fromPreferLines = (text: string) => fromLines(text).map(line => {
+  const [domain, weight] = line.split(/\s+/);
+  return weight === undefined ? { domain, weight: 1 } : { domain, weight: Number(weight) };
+});
+
+export const ProjectSearchSection: React.FC<ProjectSearchSectionProps> = ({ projectId }) => {
+  const [search, setSearch] = useState<ProjectSearchSettings | null>(null);
+  const [provider, setProvider] = useState<SearchProviderName | ''>('');
+  const [allowDomains, setAllowDomains] = useState('');
+  const [denyDomains, setDenyDomains] = useState('');
+  const [preferDomains, setPreferDomains] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    ProjectService.getSearchSettings(projectId)
+      .then(settings => {
+        setSearch(settings);
+        setProvider(settings.provider || '');
+        setAllowDomains(toLines(settings.allowDomains));
+        setDenyDomains(toLines(settings.denyDomains));
+        setPreferDomains(toPreferLines(settings.preferDomains));
+      })
+      .catch(error => setMessage(formatErrorMessage(error)));
+  }, [projectId]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const settings = await ProjectService.updateSearchSettings(projectId, {
+        provider: provider || null,
+        allowDomains: fromLines(allowDomains),
+        denyDomains: fromLines(denyDomains),
+        preferDomains: fromPreferLines(preferDomains)
+      });
+      setSearch(settings);
+      // Show the lists as the server normalized them
+      setAllowDomains(toLines(settings.allowDomains));
+      setDenyDomains(toLines(settings.denyDomains));
+      setPreferDomains(toPreferLines(settings.preferDomains));
+      setMessage('Search settings updated');
+    } catch (error) {
+      setMessage(formatErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const defaultProvider = search?.providers.find(option => option.name === search.defaultProvider);
+  const selected = search?.providers.find(option => option.name === (provider || search.defaultProvider));
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Search Backend</label>
+        <select
+          value={provider}
+          onChange={(e) => setProvider(e.target.value as SearchProviderName | '')}
+          className={inputClassName}
+          disabled={!search || saving}
+        >
+          <option value="">
+            Deployment default{defaultProvider ? ` (${defaultProvider.label})` : ''}
+          </option>
+          {search?.providers.map(option => (
+            <option key={option.name} value={option.name}>
+              {option.label}{option.configured ? '' : ' — not configured'}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {selected && !selected.configured && (
+        <p className="text-xs text-yellow-800 bg-yellow-50 rounded-lg px-3 py-2">
+          {selected.label} is not configured on this deployment, so web search is off for this project.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Only Search</label>
+          <textarea
+            value={allowDomains}
+            onChange={(e) => setAllowDomains(e.target.value)}
+            className={`${inputClassName} font-mono text-xs`}
+            rows={4}
+            placeholder={'gov.bb\ncaricom.org\nworldbank.org'}
+            disabled={!search || saving}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Never Search</label>
+          <textarea
+            value={denyDomains}
+            onChange={(e) => setDenyDomains(e.target.value)}
+            className={`${inputClassName} font-mono text-xs`}
+            rows={4}
+            placeholder={'medium.com\nblogspot.com'}
+            disabled={!search || saving}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Prefer</label>
+        <textarea
+          value={preferDomains}
+          onChange={(e) => setPreferDomains(e.target.value)}
+          className={`${inputClassName} font-mono text-xs`}
+          rows={3}
+          placeholder={'itu.int 2\noecd.org'}
+          disabled={!search || saving}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          One domain per line; subdomains are included. Preferred domains rank higher — add a weight up to 5 (default 1).
+          Leave &quot;Only Search&quot; empty to search the whole web.
+        </p>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={!search || saving}
+        className="py-1.5 px-3 text-sm bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50"
+      >
+        Save Search Settings
+      </button>
+
+      {message && <p className="text-xs text-gray-600">{message}</p>}
+    </div>
+  );
+};
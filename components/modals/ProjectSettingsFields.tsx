@@ -0,0 +1,87 @@
+// components/modals/ProjectSettingsFields.tsx
+import React from 'react';
+import { ProjectAssistantSettings } from '../../types/entities.types';
+
+interface ProjectSettingsFieldsProps {
+  settings: ProjectAssistantSettings;
+  onChange: (settings: ProjectAssistantSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  'w-full rounded-xl ring-1 ring-gray-100 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const ProjectSettingsFields: React.FC<ProjectSettingsFieldsProps> = ({
+  settings,
+  onChange,
+  disabled = false
+}) => {
+  const update = (field: keyof ProjectAssistantSettings) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      onChange({ ...settings, [field]: e.target.value });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Target Country
+          </label>
+          <input
+            type="text"
+            value={settings.targetCountry || ''}
+            onChange={update('targetCountry')}
+            className={inputClassName}
+            placeholder="e.g., Grenada"
+            maxLength={100}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Tone
+          </label>
+          <input
+            type="text"
+            value={settings.tone || ''}
+            onChange={update('tone')}
+            className={inputClassName}
+            placeholder="e.g., Formal, concise"
+            maxLength={200}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Output Conventions
+        </label>
+        <textarea
+          value={settings.outputConventions || ''}
+          onChange={update('outputConventions')}
+          className={inputClassName}
+          rows={2}
+          placeholder="e.g., British spelling, USD figures, end with next steps"
+          maxLength={2000}
+          disabled={disabled}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Project Instructions
+        </label>
+        <textarea
+          value={settings.instructions || ''}
+          onChange={update('instructions')}
+          className={inputClassName}
+          rows={4}
+          placeholder="Background, priorities or constraints the assistant should always keep in mind..."
+          maxLength={10000}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+// components/modals/ProjectSettingsModal.tsx
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Project, ProjectAssistantSettings } from '../../types/entities.types';
+import { ProjectSettingsFields } from './ProjectSettingsFields';
+import { ProjectBudgetSection } from './ProjectBudgetSection';
+import { ProjectSearchSection } from './ProjectSearchSection';
+
+interface ProjectSettingsModalProps {
+  isOpen: boolean;
+  project: Project | null;
+  onClose: () => void;
+  onSave: (
+    projectId: string,
+    updates: { name: string; description?: string } & ProjectAssistantSettings
+  ) => Promise<unknown>;
+}
+
+export const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({
+  isOpen,
+  project,
+  onClose,
+  onSave
+}) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [settings, setSettings] = useState<ProjectAssistantSettings>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form whenever the modal opens for a project
+  useEffect(() => {
+    if (!isOpen || !project) return;
+    setName(project.name);
+    setDescription(project.description || '');
+    setSettings({
+      instructions: project.instructions,
+      tone: project.tone,
+      targetCountry: project.targetCountry,
+      outputConventions: project.outputConventions
+    });
+    setError(null);
+  }, [isOpen, project]);
+
+  const handleSave = async () => {
+    if (!project || !name.trim()) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      // Empty strings clear a setting on the server
+      await onSave(project.id, {
+        name: name.trim(),
+        description: description.trim(),
+        instructions: settings.instructions || '',
+        tone: settings.tone || '',
+        targetCountry: settings.targetCountry || '',
+        outputConventions: settings.outputConventions || ''
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save project settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen || !project) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          className="bg-white rounded-lg p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <h3 className="text-lg font-semibold mb-4">Project Settings</h3>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Project Name *
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full rounded-xl ring-1 ring-gray-100 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={loading}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full rounded-xl ring-1 ring-gray-100 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                rows={2}
+                disabled={loading}
+              />
+            </div>
+
+            <div className="pt-2 border-t border-gray-100">
+              <h4 className="text-sm font-semibold text-gray-800 mb-1">Assistant Settings</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                Applied to every conversation in this project.
+              </p>
+              <ProjectSettingsFields
+                settings={settings}
+                onChange={setSettings}
+                disabled={loading}
+              />
+            </div>
+
+            <div className="pt-2 border-t border-gray-100">
+              <h4 className="text-sm font-semibold text-gray-800 mb-1">Web Search</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                Where this project&apos;s search queries are sent and which sites answers may draw on.
+              </p>
+              <ProjectSearchSection projectId={project.id} />
+            </div>
+
+            <div className="pt-2 border-t border-gray-100">
+              <h4 className="text-sm font-semibold text-gray-800 mb-1">Spending Budget</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                New runs are refused once the estimated AI spend reaches the budget.
+              </p>
+              <ProjectBudgetSection projectId={project.id} />
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 mt-4">{error}</p>
+          )}
+
+          <div className="flex gap-2 mt-6">
+            <button
+              onClick={onClose}
+              disabled={loading}
+              className="flex-1 py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!name.trim() || loading}
+              className="flex-1 py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : 'Save Settings'}
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
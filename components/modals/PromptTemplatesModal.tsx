@@ -0,0 +1,297 @@
+// components/modals/PromptTemplatesModal.tsx
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { PromptTemplate, PromptTemplateInput, PromptTemplateVersion } from '../../types/entities.types';
+import { TemplateService } from '../../services/templateService';
+import { extractTemplateVariables } from '../../utils/templateUtils';
+import { formatErrorMessage } from '../../utils/errorHandler';
+
+interface PromptTemplatesModalProps {
+  isOpen: boolean;
+  projectId?: string;
+  projectName?: string;
+  templates: PromptTemplate[];
+  onClose: () => void;
+  onSave: (input: PromptTemplateInput, existing?: PromptTemplate) => Promise<PromptTemplate>;
+  onDelete: (templateId: string) => Promise<void>;
+}
+
+interface TemplateForm {
+  command: string;
+  title: string;
+  description: string;
+  body: string;
+  shared: boolean; // Available in every project rather than just this one
+}
+
+const toForm = (template?: PromptTemplate | PromptTemplateVersion, shared = false): TemplateForm => ({
+  command: template?.command || '',
+  title: template?.title || '',
+  description: template?.description || '',
+  body: template?.body || '',
+  shared
+});
+
+export const PromptTemplatesModal: React.FC<PromptTemplatesModalProps> = ({
+  isOpen,
+  projectId,
+  projectName,
+  templates,
+  onClose,
+  onSave,
+  onDelete
+}) => {
+  const [selected, setSelected] = useState<PromptTemplate | null>(null);
+  const [form, setForm] = useState<TemplateForm>(toForm(undefined, !projectId));
+  const [versions, setVersions] = useState<PromptTemplateVersion[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start on a blank template whenever the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(null);
+    setForm(toForm(undefined, !projectId));
+    setVersions(null);
+    setError(null);
+  }, [isOpen, projectId]);
+
+  const selectTemplate = (template: PromptTemplate | null) => {
+    setSelected(template);
+    setForm(template ? toForm(template, !template.projectId) : toForm(undefined, !projectId));
+    setVersions(null);
+    setError(null);
+  };
+
+  const updateForm = (update: Partial<TemplateForm>) => setForm(prev => ({ ...prev, ...update }));
+
+  const handleSave = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const saved = await onSave({
+        command: form.command,
+        title: form.title,
+        description: form.description,
+        body: form.body,
+        projectId: form.shared ? null : projectId
+      }, selected || undefined);
+      setSelected(saved);
+      setForm(toForm(saved, !saved.projectId));
+      setVersions(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete /${selected.command} and its version history?`)) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await onDelete(selected.id);
+      selectTemplate(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleVersions = async () => {
+    if (!selected) return;
+    if (versions) {
+      setVersions(null);
+      return;
+    }
+
+    try {
+      setVersions(await TemplateService.getVersions(selected.id));
+    } catch (err) {
+      setError(formatErrorMessage(err));
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const variables = extractTemplateVariables(form.body);
+  const inputClassName = 'w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          className="bg-white rounded-lg p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <h3 className="text-lg font-semibold mb-4">Prompt Templates</h3>
+
+          <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+            {/* Library */}
+            <div className="flex flex-col gap-1">
+              <button
+                onClick={() => selectTemplate(null)}
+                className={`text-left px-3 py-2 rounded-lg text-sm ${
+                  !selected ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                + New template
+              </button>
+              {templates.map(template => (
+                <button
+                  key={template.id}
+                  onClick={() => selectTemplate(template)}
+                  className={`text-left px-3 py-2 rounded-lg ${
+                    selected?.id === template.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="font-mono text-sm text-blue-700">/{template.command}</div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {template.title} · {template.projectId ? 'Project' : 'Global'} · v{template.version}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Editor */}
+            <div className="flex flex-col gap-3">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <label className="flex flex-col gap-1 text-sm text-gray-700">
+                  Command
+                  <div className="flex items-center gap-1">
+                    <span className="font-mono text-gray-400">/</span>
+                    <input
+                      value={form.command}
+                      onChange={(e) => updateForm({ command: e.target.value.toLowerCase() })}
+                      placeholder="assessment"
+                      className={`${inputClassName} font-mono`}
+                    />
+                  </div>
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-700">
+                  Title
+                  <input
+                    value={form.title}
+                    onChange={(e) => updateForm({ title: e.target.value })}
+                    placeholder="Digital maturity assessment"
+                    className={inputClassName}
+                  />
+                </label>
+              </div>
+
+              <label className="flex flex-col gap-1 text-sm text-gray-700">
+                Description
+                <input
+                  value={form.description}
+                  onChange={(e) => updateForm({ description: e.target.value })}
+                  placeholder="Optional"
+                  className={inputClassName}
+                />
+              </label>
+
+              <label className="flex flex-col gap-1 text-sm text-gray-700">
+                Prompt
+                <textarea
+                  value={form.body}
+                  onChange={(e) => updateForm({ body: e.target.value })}
+                  rows={8}
+                  placeholder="Draft a digital maturity assessment for {{country}} covering {{pillars}}"
+                  className={`${inputClassName} font-mono`}
+                />
+              </label>
+              <p className="text-xs text-gray-500 -mt-2">
+                {variables.length > 0
+                  ? `Fields: ${variables.join(', ')}`
+                  : 'Use {{name}} for values to fill in when the template is used.'}
+              </p>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.shared}
+                  disabled={!projectId}
+                  onChange={(e) => updateForm({ shared: e.target.checked })}
+                />
+                Share with all projects
+                {projectId && !form.shared && projectName && (
+                  <span className="text-xs text-gray-500">(otherwise only in {projectName})</span>
+                )}
+              </label>
+
+              {selected && (
+                <div>
+                  <button onClick={toggleVersions} className="text-xs text-blue-600 hover:underline">
+                    {versions ? 'Hide history' : `Version history (v${selected.version})`}
+                  </button>
+                  {versions && (
+                    <ul className="mt-2 max-h-40 overflow-y-auto divide-y divide-gray-100 rounded-lg border border-gray-200">
+                      {versions.map(version => (
+                        <li key={version.version} className="flex items-center gap-2 px-3 py-2 text-xs">
+                          <span className="font-medium text-gray-700">v{version.version}</span>
+                          <span className="text-gray-500 truncate">{version.title}</span>
+                          <span className="ml-auto shrink-0 text-gray-400">
+                            {new Date(version.createdAt).toLocaleString()}
+                          </span>
+                          {version.version !== selected.version && (
+                            <button
+                              onClick={() => setForm(toForm(version, form.shared))}
+                              className="shrink-0 text-blue-600 hover:underline"
+                              title="Load this version into the editor; saving makes it the newest version"
+                            >
+                              Restore
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+          </div>
+
+          <div className="flex gap-2 mt-6">
+            {selected && (
+              <button
+                onClick={handleDelete}
+                disabled={loading}
+                className="py-2 px-4 border border-red-200 rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            )}
+            <div className="flex-1" />
+            <button
+              onClick={onClose}
+              disabled={loading}
+              className="py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={loading || !form.command.trim() || !form.title.trim() || !form.body.trim()}
+              className="py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : selected ? 'Save New Version' : 'Create Template'}
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,152 @@
+// components/modals/ThreadMemoryModal.tsx
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ThreadMemory } from '../../types/entities.types';
+import { ThreadService } from '../../services/threadService';
+import { formatErrorMessage } from '../../utils/errorHandler';
+
+interface ThreadMemoryModalProps {
+  isOpen: boolean;
+  threadId: string | null;
+  onClose: () => void;
+}
+
+export const ThreadMemoryModal: React.FC<ThreadMemoryModalProps> = ({
+  isOpen,
+  threadId,
+  onClose
+}) => {
+  const [memory, setMemory] = useState<ThreadMemory | null>(null);
+  const [enabled, setEnabled] = useState(true);
+  const [summary, setSummary] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Reload whenever the modal opens; the summary may have rolled forward since
+  useEffect(() => {
+    if (!isOpen || !threadId) return;
+
+    setLoading(true);
+    setMessage(null);
+    ThreadService.getMemory(threadId)
+      .then(result => {
+        setMemory(result.memory);
+        setEnabled(result.enabled);
+        setSummary(result.memory?.summary || '');
+      })
+      .catch(error => setMessage(formatErrorMessage(error)))
+      .finally(() => setLoading(false));
+  }, [isOpen, threadId]);
+
+  const handleSave = async () => {
+    if (!threadId) return;
+
+    setLoading(true);
+    setMessage(null);
+    try {
+      const updated = await ThreadService.updateMemory(threadId, summary);
+      setMemory(updated);
+      setMessage('Summary saved');
+    } catch (error) {
+      setMessage(formatErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!threadId || !confirm('Discard this summary? Older messages are summarized again when the thread next outgrows its budget.')) {
+      return;
+    }
+
+    setLoading(true);
+    setMessage(null);
+    try {
+      await ThreadService.resetMemory(threadId);
+      setMemory(null);
+      setSummary('');
+      setMessage('Summary discarded');
+    } catch (error) {
+      setMessage(formatErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen || !threadId) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          className="bg-white rounded-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <h3 className="text-lg font-semibold mb-1">Thread Memory</h3>
+          <p className="text-xs text-gray-500 mb-4">
+            {memory
+              ? [
+                  `Covers ${memory.summarizedMessages} earlier message${memory.summarizedMessages === 1 ? '' : 's'}`,
+                  `~${memory.summaryTokens.toLocaleString()} tokens`,
+                  memory.editedAt && `edited ${new Date(memory.editedAt).toLocaleString()}`
+                ].filter(Boolean).join(' · ')
+              : 'Older messages are summarized here once the conversation outgrows the context budget.'}
+          </p>
+
+          {!enabled && (
+            <p className="text-sm text-yellow-800 bg-yellow-50 rounded-md p-2 mb-3">
+              Thread memory is switched off on the server (THREAD_MEMORY_ENABLED), so this summary is not used.
+            </p>
+          )}
+
+          <textarea
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            className="w-full rounded-xl ring-1 ring-gray-100 px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            rows={14}
+            placeholder="No summary yet. Anything written here is given to the assistant as background for this thread."
+            disabled={loading}
+          />
+
+          {message && (
+            <p className="text-sm text-gray-600 mt-2">{message}</p>
+          )}
+
+          <div className="flex gap-2 mt-6">
+            <button
+              onClick={handleReset}
+              disabled={loading || !memory}
+              className="py-2 px-4 border border-red-200 rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              Reset
+            </button>
+            <div className="flex-1" />
+            <button
+              onClick={onClose}
+              disabled={loading}
+              className="py-2 px-4 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={loading || summary === (memory?.summary || '')}
+              className="py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : 'Save Summary'}
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
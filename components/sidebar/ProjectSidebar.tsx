@@ -1,9 +1,10 @@
 // components/sidebar/ProjectSidebar.tsx
 import React from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
-import { Project, Thread } from '../../types/entities.types';
+import { Project, Thread, ThreadSearchResult } from '../../types/entities.types';
 import { ProjectList } from './ProjectList';
 import { ThreadList } from './ThreadList';
+import { ThreadSearch } from './ThreadSearch';
 
 interface ProjectSidebarProps {
   isOpen: boolean;
@@ -16,11 +17,13 @@ interface ProjectSidebarProps {
   onSelectProject: (project: Project) => void;
   onSelectThread: (threadId: string) => void;
   onNewProject: () => void;
+  onEditProject?: () => void;
   onDeleteProject: (projectId: string) => void;
   onDeleteThread: (threadId: string) => void;
   onNewChat: () => void;
   //onSyncThreads?: (projectId: string, threadIds: string[]) => void;
   onShareThread?: (thread: { id: string; title: string }) => void;
+  onOpenSearchResult?: (result: ThreadSearchResult) => void;
 }
 
 export const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
@@ -34,9 +37,11 @@ export const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
   onSelectProject,
   onSelectThread,
   onNewProject,
+  onEditProject,
   onDeleteProject,
   onDeleteThread,
   onShareThread,
+  onOpenSearchResult,
   onNewChat,
   //onSyncThreads
 }) => {
@@ -72,7 +77,16 @@ export const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
                 className="w-3 h-3 rounded-full" 
                 style={{ backgroundColor: currentProject.color }}
               />
-              <span className="text-sm font-medium">{currentProject.name}</span>
+              <span className="text-sm font-medium flex-1 truncate">{currentProject.name}</span>
+              {onEditProject && (
+                <button
+                  onClick={onEditProject}
+                  className="text-xs text-blue-600 hover:text-blue-700"
+                  title="Project settings"
+                >
+                  ⚙ Settings
+                </button>
+              )}
             </div>
             {currentProject.description && (
               <p className="text-xs text-gray-600 mt-1">{currentProject.description}</p>
@@ -83,6 +97,10 @@ export const ProjectSidebar: React.FC<ProjectSidebarProps> = ({
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-4">
+        {onOpenSearchResult && (
+          <ThreadSearch projects={projects} onOpenResult={onOpenSearchResult} />
+        )}
+
         <ProjectList
           projects={projects}
           currentProject={currentProject}
@@ -0,0 +1,166 @@
+// components/sidebar/ThreadSearch.tsx
+import React, { useState } from 'react';
+import { Project, ThreadSearchResult } from '../../types/entities.types';
+import { useThreadSearch } from '../../hooks/useThreadSearch';
+
+interface ThreadSearchProps {
+  projects: Project[];
+  onOpenResult: (result: ThreadSearchResult) => void;
+}
+
+const MATCH_LABELS: Record<ThreadSearchResult['matchType'], string> = {
+  title: 'Title',
+  message: 'Message',
+  file: 'File'
+};
+
+// Date inputs give a day; the API's upper bound is exclusive
+const toRangeStart = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined);
+const toRangeEnd = (day: string) => {
+  if (!day) return undefined;
+  const end = new Date(`${day}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+  return end.toISOString();
+};
+
+const HighlightedSnippet: React.FC<{ result: ThreadSearchResult }> = ({ result }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  result.highlights.forEach((range, index) => {
+    if (range.start < position) return;
+    parts.push(result.snippet.substring(position, range.start));
+    parts.push(
+      <mark key={index} className="bg-yellow-100 text-gray-900 rounded-sm">
+        {result.snippet.substring(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  });
+  parts.push(result.snippet.substring(position));
+
+  return <p className="text-xs text-gray-600 mt-0.5 line-clamp-3">{parts}</p>;
+};
+
+export const ThreadSearch: React.FC<ThreadSearchProps> = ({ projects, onOpenResult }) => {
+  const {
+    query,
+    filters,
+    results,
+    searching,
+    error,
+    active,
+    setQuery,
+    updateFilters,
+    clearSearch
+  } = useThreadSearch();
+  const [showFilters, setShowFilters] = useState(false);
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+
+  const projectNames = new Map(projects.map(project => [project.id, project.name]));
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-1">
+        <div className="relative flex-1">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && clearSearch()}
+            placeholder="Search all chats…"
+            className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          {searching && (
+            <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">…</span>
+          )}
+        </div>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`px-2 py-1.5 text-xs rounded-md ${
+            filters.projectId || filters.from || filters.to
+              ? 'bg-blue-50 text-blue-700'
+              : 'text-gray-500 hover:bg-gray-100'
+          }`}
+          title="Search filters"
+        >
+          Filters
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="mt-2 space-y-2 text-xs">
+          <select
+            value={filters.projectId || ''}
+            onChange={(e) => updateFilters({ projectId: e.target.value || undefined })}
+            className="w-full px-2 py-1 border border-gray-300 rounded-md"
+          >
+            <option value="">All projects</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-1">
+            <input
+              type="date"
+              value={fromDay}
+              onChange={(e) => {
+                setFromDay(e.target.value);
+                updateFilters({ from: toRangeStart(e.target.value) });
+              }}
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md"
+              title="Active from"
+            />
+            <span className="text-gray-400">–</span>
+            <input
+              type="date"
+              value={toDay}
+              onChange={(e) => {
+                setToDay(e.target.value);
+                updateFilters({ to: toRangeEnd(e.target.value) });
+              }}
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md"
+              title="Active until"
+            />
+          </div>
+        </div>
+      )}
+
+      {active && (
+        <div className="mt-2 max-h-[400px] overflow-y-auto space-y-1">
+          {error && <p className="text-xs text-red-600 p-2">{error}</p>}
+
+          {!error && !searching && results.length === 0 && (
+            <p className="text-xs text-gray-500 p-2">No matching chats</p>
+          )}
+
+          {results.map((result, index) => (
+            <button
+              key={`${result.threadId}-${result.matchType}-${result.messageIndex ?? index}`}
+              onClick={() => onOpenResult(result)}
+              className="w-full text-left p-2 rounded text-sm hover:bg-gray-100"
+            >
+              <div className="flex items-center gap-2">
+                <span className="truncate font-medium flex-1">{result.threadTitle}</span>
+                <span className="text-[10px] uppercase tracking-wide text-gray-400 shrink-0">
+                  {result.matchType === 'file' && result.fileName
+                    ? `${MATCH_LABELS.file}${result.page ? ` p. ${result.page}` : ''}`
+                    : MATCH_LABELS[result.matchType]}
+                </span>
+              </div>
+              <HighlightedSnippet result={result} />
+              <div className="text-[10px] text-gray-400 mt-0.5">
+                {[
+                  result.projectId && projectNames.get(result.projectId),
+                  result.lastActivity && new Date(result.lastActivity).toLocaleDateString(),
+                  result.matchedBy.includes('semantic') && !result.matchedBy.includes('text') && 'related'
+                ].filter(Boolean).join(' · ')}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
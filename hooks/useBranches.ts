@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AnswerVersions, BranchFamily } from '../types/entities.types';
+import { ThreadService } from '../services/threadService';
+import { logError } from '../utils/errorHandler';
+
+/**
+ * Branch family of the open thread, for the branch navigator and the
+ * version switcher on regenerated answers
+ */
+export const useBranches = (threadId: string | null) => {
+  const [family, setFamily] = useState<BranchFamily | null>(null);
+
+  const refreshBranches = useCallback(async (id: string | null = threadId) => {
+    if (!id) {
+      setFamily(null);
+      return;
+    }
+
+    try {
+      setFamily(await ThreadService.getBranches(id));
+    } catch (error) {
+      logError(error, 'Load branches');
+      setFamily(null);
+    }
+  }, [threadId]);
+
+  useEffect(() => {
+    refreshBranches(threadId);
+  }, [threadId, refreshBranches]);
+
+  /**
+   * Versions of the answer to a user turn: the thread they were regenerated
+   * from plus each regeneration, or null when there is only one
+   */
+  const getAnswerVersions = useCallback((userTurn: number): AnswerVersions | null => {
+    if (!family || !threadId) return null;
+
+    const current = family.branches.find(branch => branch.threadId === threadId);
+    const isVersion = current?.kind === 'regenerate' && current.branchUserTurn === userTurn;
+    const sourceId = isVersion ? current.parentThreadId : threadId;
+    if (!sourceId) return null;
+
+    const threadIds = [
+      sourceId,
+      ...family.branches
+        .filter(branch =>
+          branch.kind === 'regenerate' &&
+          branch.parentThreadId === sourceId &&
+          branch.branchUserTurn === userTurn
+        )
+        .map(branch => branch.threadId)
+    ];
+
+    return threadIds.length > 1
+      ? { threadIds, current: threadIds.indexOf(threadId) }
+      : null;
+  }, [family, threadId]);
+
+  return {
+    family,
+    refreshBranches,
+    getAnswerVersions
+  };
+};
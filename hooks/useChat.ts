@@ -1,25 +1,52 @@
-import { useState, useCallback } from 'react';
-import { Message, ChatResponse } from '../types/entities.types';
+import { useState, useCallback, useRef } from 'react';
+import { Message, ChatResponse, BranchKind, ThreadBranch, ChatRequestSettings } from '../types/entities.types';
 import { ChatService } from '../services/chatService';
+import { ThreadService } from '../services/threadService';
+import { ApiError } from '../services/apiClient';
 import { formatErrorMessage, logError } from '../utils/errorHandler';
 import { CONSTANTS } from '../types/constants';
 
+const getToolProgressLabel = (tool: string): string => {
+  switch (tool) {
+    case 'code_interpreter': return 'Running code...';
+    case 'file_search': return 'Searching files...';
+    default: return `Using ${tool}...`;
+  }
+};
+
+// Local abort if the server hasn't closed the stream shortly after a cancel
+const CANCEL_GRACE_PERIOD = 10000;
+const STOPPED_NOTICE = '_Response stopped by user._';
+
+interface ActiveRequest {
+  requestId: string;
+  controller: AbortController;
+  threadId?: string;
+  runId?: string;
+}
+
 export const useChat = () => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(false);
   const [typing, setTyping] = useState(false);
   const [activeRun, setActiveRun] = useState(false);
   const [threadId, setThreadId] = useState<string | null>(null);
+  const activeRequestRef = useRef<ActiveRequest | null>(null);
 
   const sendMessage = useCallback(async (
     input: string,
     webSearchEnabled: boolean = false,
-    fileIds: string[] = []
+    fileIds: string[] = [],
+    projectId?: string,
+    settings: ChatRequestSettings = {},
+    targetThreadId?: string // Thread to post to instead of the open one (e.g. a new branch)
     ): Promise<ChatResponse> => {
       if (activeRun || !input.trim()) {
         throw new Error('Cannot send message while processing or with empty input');
       }
 
+    const runThreadId = targetThreadId ?? threadId;
+
     setActiveRun(true);
     setLoading(true);
     setTyping(true);
@@ -45,24 +72,69 @@ export const useChat = () => {
       ]);
     }
 
-    try {
-      const response = await ChatService.sendMessage({
-        message: input,
-        originalMessage: input,
-        threadId,
-        webSearchEnabled,
-        fileIds: fileIds.length > 0 ? fileIds : undefined
-      });
+    const activeRequest: ActiveRequest = {
+      requestId: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      controller: new AbortController(),
+      threadId: runThreadId || undefined
+    };
+    activeRequestRef.current = activeRequest;
 
-      // Remove search indicator
+    // Streamed reply is built up in a placeholder assistant message
+    let streamStarted = false;
+    let streamedContent = '';
+    const removeSearchIndicator = () => {
       if (webSearchEnabled) {
         setMessages(prev => prev.filter(msg =>
           !(msg.role === "system" && typeof msg.content === 'string' && msg.content.includes(CONSTANTS.SEARCH_FLAG))
         ));
       }
+    };
+    const updateStreamingMessage = (update: (msg: Message) => Message) => {
+      if (!streamStarted) {
+        streamStarted = true;
+        removeSearchIndicator();
+        setTyping(false);
+        setMessages(prev => [
+          ...prev,
+          update({ role: "assistant", content: "", streaming: true, timestamp: new Date().toLocaleString() })
+        ]);
+        return;
+      }
+      setMessages(prev => prev.map(msg => msg.streaming ? update(msg) : msg));
+    };
+
+    try {
+      const response = await ChatService.streamMessage({
+        message: input,
+        originalMessage: input,
+        threadId: runThreadId,
+        projectId,
+        webSearchEnabled,
+        fileIds: fileIds.length > 0 ? fileIds : undefined,
+        requestId: activeRequest.requestId,
+        ...settings
+      }, {
+        onThread: (id) => { activeRequest.threadId = id; },
+        onRun: (runId) => { activeRequest.runId = runId; },
+        onDelta: (content) => {
+          streamedContent += content;
+          updateStreamingMessage(msg => ({
+            ...msg,
+            content: msg.content + content,
+            progress: undefined
+          }));
+        },
+        onTool: (tool, status) => updateStreamingMessage(msg => ({
+          ...msg,
+          progress: status === 'completed' ? undefined : getToolProgressLabel(tool)
+        }))
+      }, activeRequest.controller.signal);
+
+      // Remove search indicator
+      removeSearchIndicator();
 
       // Update thread ID if new
-      if (response.threadId && response.threadId !== threadId) {
+      if (response.threadId && response.threadId !== runThreadId) {
         setThreadId(response.threadId);
         // Mark this as a new thread that needs to be shown
         // This will be picked up by the auto-save hook
@@ -79,13 +151,50 @@ export const useChat = () => {
         role: "assistant",
         content: cleanReply,
         files: response.files,
+        documentSources: response.documentSources,
+        searchSources: response.searchSources,
         timestamp: new Date().toLocaleString()
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      // Final reply replaces the streamed text (adds file links, strips search context)
+      setMessages(prev => streamStarted
+        ? prev.map(msg => msg.streaming ? assistantMessage : msg)
+        : [...prev, assistantMessage]
+      );
+
+      // Project is past its soft budget limit
+      if (response.budget && response.budget.budgetUsd !== null) {
+        const { spent, budgetUsd, percentUsed, period } = response.budget;
+        setMessages(prev => [...prev, {
+          role: "system",
+          content: `⚠️ This project has used ${percentUsed}% of its ${period === 'monthly' ? 'monthly ' : ''}budget ($${spent.toFixed(2)} of $${budgetUsd.toFixed(2)}).`,
+          timestamp: new Date().toLocaleString()
+        }]);
+      }
 
       return response;
     } catch (error) {
+      // Aborted locally after a stop request; keep what was streamed
+      if (activeRequest.controller.signal.aborted) {
+        removeSearchIndicator();
+        const stoppedReply = [streamedContent, STOPPED_NOTICE].filter(Boolean).join('\n\n');
+        const stoppedMessage: Message = {
+          role: "assistant",
+          content: stoppedReply,
+          timestamp: new Date().toLocaleString()
+        };
+        setMessages(prev => streamStarted
+          ? prev.map(msg => msg.streaming ? stoppedMessage : msg)
+          : [...prev, stoppedMessage]
+        );
+
+        if (activeRequest.threadId && activeRequest.threadId !== runThreadId) {
+          setThreadId(activeRequest.threadId);
+        }
+
+        return { reply: stoppedReply, threadId: activeRequest.threadId, status: 'cancelled' };
+      }
+
       // Remove search indicator on error
       if (webSearchEnabled) {
         setMessages(prev => prev.filter(msg =>
@@ -96,23 +205,126 @@ export const useChat = () => {
       const errorMessage = formatErrorMessage(error);
       logError(error, 'Send message');
 
+      const budgetExceeded = error instanceof ApiError && error.code === 'BUDGET_EXCEEDED';
+
+      // Keep any partial reply, drop an empty placeholder
       setMessages(prev => [
-        ...prev,
-        {
-          role: "assistant",
-          content: `Error: ${errorMessage}`,
-          timestamp: new Date().toLocaleString(),
-        },
+        ...prev
+          .filter(msg => !(msg.streaming && !msg.content))
+          .map(msg => msg.streaming ? { ...msg, streaming: false, progress: undefined } : msg),
+        budgetExceeded
+          ? {
+            role: "system",
+            content: `🚫 ${errorMessage}`,
+            timestamp: new Date().toLocaleString(),
+          }
+          : {
+            role: "assistant",
+            content: `Error: ${errorMessage}`,
+            timestamp: new Date().toLocaleString(),
+          },
       ]);
 
       throw error;
     } finally {
+      if (activeRequestRef.current === activeRequest) {
+        activeRequestRef.current = null;
+      }
       setTyping(false);
       setLoading(false);
       setActiveRun(false);
     }
   }, [activeRun, threadId]);
 
+  /**
+   * Fork the thread just before the user message at userIndex and send
+   * input in the new branch, keeping the original thread intact
+   */
+  const resubmitInBranch = useCallback(async (
+    userIndex: number,
+    input: string,
+    kind: BranchKind,
+    webSearchEnabled: boolean,
+    projectId?: string,
+    settings: ChatRequestSettings = {}
+  ): Promise<{ branch: ThreadBranch; response: ChatResponse; history: Message[] }> => {
+    if (activeRun || !threadId) {
+      throw new Error('Cannot branch while processing or before the chat has started');
+    }
+
+    const userTurn = messages.slice(0, userIndex).filter(msg => msg.role === 'user').length;
+    const branch = await ThreadService.createBranch(threadId, userTurn, {
+      kind,
+      projectId,
+      model: settings.model
+    });
+
+    setMessages(messages.slice(0, userIndex));
+    setThreadId(branch.threadId);
+
+    const fileIds = messages[userIndex]?.fileIds || [];
+    const response = await sendMessage(input, webSearchEnabled, fileIds, projectId, settings, branch.threadId);
+
+    // Branch history up to and including the resubmitted question
+    const history: Message[] = [
+      ...messages.slice(0, userIndex),
+      { role: 'user', content: input, timestamp: new Date().toLocaleString() }
+    ];
+    return { branch, response, history };
+  }, [activeRun, threadId, messages, sendMessage]);
+
+  /**
+   * Edit an earlier user message and resubmit it in a new branch
+   */
+  const editMessage = useCallback((
+    index: number,
+    input: string,
+    webSearchEnabled: boolean = false,
+    projectId?: string,
+    settings: ChatRequestSettings = {}
+  ) => resubmitInBranch(index, input, 'edit', webSearchEnabled, projectId, settings), [resubmitInBranch]);
+
+  /**
+   * Re-run the question behind the assistant message at index in a new
+   * branch; the previous answer stays available as another version
+   */
+  const regenerateMessage = useCallback((
+    index: number,
+    webSearchEnabled: boolean = false,
+    projectId?: string,
+    settings: ChatRequestSettings = {}
+  ) => {
+    const userIndex = messages.slice(0, index).map(msg => msg.role).lastIndexOf('user');
+    if (userIndex < 0 || typeof messages[userIndex].content !== 'string') {
+      throw new Error('No question found to regenerate an answer for');
+    }
+
+    return resubmitInBranch(userIndex, messages[userIndex].content, 'regenerate', webSearchEnabled, projectId, settings);
+  }, [messages, resubmitInBranch]);
+
+  const cancelRun = useCallback(async () => {
+    const activeRequest = activeRequestRef.current;
+    if (!activeRequest) return;
+
+    try {
+      const result = await ChatService.cancelMessage({
+        requestId: activeRequest.requestId,
+        threadId: activeRequest.threadId,
+        runId: activeRequest.runId
+      });
+
+      // The server finishes the stream with the partial reply
+      if (result.cancelled) {
+        setTimeout(() => activeRequest.controller.abort(), CANCEL_GRACE_PERIOD);
+        return;
+      }
+    } catch (error) {
+      logError(error, 'Cancel run');
+    }
+
+    activeRequest.controller.abort();
+  }, []);
+
   const clearChat = useCallback(() => {
     setMessages([]);
     setThreadId(null);
@@ -131,6 +343,9 @@ export const useChat = () => {
     setThreadId,
     setMessages,
     sendMessage,
+    editMessage,
+    regenerateMessage,
+    cancelRun,
     clearChat,
     setMessagesFromThread
   };
@@ -0,0 +1,149 @@
+import { useState, useCallback } from 'react';
+import { CompareColumn, CompareResult, CompareTarget, ModelOptions } from '../types/entities.types';
+import { ChatService } from '../services/chatService';
+import { formatErrorMessage, logError } from '../utils/errorHandler';
+
+export const MAX_COMPARE_TARGETS = 3;
+
+/**
+ * One pick per available provider to start from, then further models of
+ * the first provider when fewer than two providers are up
+ */
+const getDefaultTargets = (options: ModelOptions[]): CompareTarget[] => {
+  const targets: CompareTarget[] = options.map(option => ({
+    provider: option.provider,
+    model: option.models[0]
+  }));
+
+  for (const model of options[0]?.models.slice(1) || []) {
+    if (targets.length >= 2) break;
+    targets.push({ provider: options[0].provider, model });
+  }
+
+  return targets.slice(0, MAX_COMPARE_TARGETS);
+};
+
+const getScratchThreadIds = (compared: CompareResult | null) =>
+  (compared?.columns || []).flatMap(column => column.threadId ? [column.threadId] : []);
+
+/**
+ * Compare mode: the next message goes to two or three providers/models at
+ * once and the user keeps one of the answers in the chat
+ */
+export const useCompare = () => {
+  const [enabled, setEnabled] = useState(false);
+  const [options, setOptions] = useState<ModelOptions[]>([]);
+  const [targets, setTargets] = useState<CompareTarget[]>([]);
+  const [result, setResult] = useState<CompareResult | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleCompare = useCallback(async () => {
+    if (enabled) {
+      setEnabled(false);
+      return;
+    }
+
+    setEnabled(true);
+    try {
+      // Availability changes as local servers come and go, so check each time
+      const available = await ChatService.getCompareOptions();
+      setOptions(available);
+      setTargets(prev => prev.length >= 2 ? prev : getDefaultTargets(available));
+      setError(null);
+    } catch (err) {
+      logError(err, 'Load compare options');
+      setError(formatErrorMessage(err));
+    }
+  }, [enabled]);
+
+  const updateTarget = useCallback((index: number, target: CompareTarget) => {
+    setTargets(prev => prev.map((current, i) => i === index ? target : current));
+  }, []);
+
+  const addTarget = useCallback(() => {
+    setTargets(prev => prev.length >= MAX_COMPARE_TARGETS || options.length === 0
+      ? prev
+      : [...prev, { provider: options[0].provider, model: options[0].models[0] }]);
+  }, [options]);
+
+  const removeTarget = useCallback((index: number) => {
+    setTargets(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const runCompare = useCallback(async (
+    message: string,
+    context: Omit<Parameters<typeof ChatService.compareMessage>[0], 'message' | 'targets'>
+  ): Promise<CompareResult> => {
+    setComparing(true);
+    setError(null);
+
+    // A new comparison replaces one that was never kept
+    const previous = getScratchThreadIds(result);
+    ChatService.discardComparison(previous).catch(err => logError(err, 'Discard comparison'));
+    setResult(null);
+
+    try {
+      const compared = await ChatService.compareMessage({ message, targets, ...context });
+      setResult(compared);
+      return compared;
+    } catch (err) {
+      logError(err, 'Compare answers');
+      setError(formatErrorMessage(err));
+      throw err;
+    } finally {
+      setComparing(false);
+    }
+  }, [result, targets]);
+
+  /**
+   * Keep a column's answer; resolves with the chat's thread ID and the kept column
+   */
+  const keepColumn = useCallback(async (
+    index: number,
+    chat: { threadId?: string | null; projectId?: string }
+  ): Promise<{ threadId: string; prompt: string; column: CompareColumn }> => {
+    const column = result?.columns[index];
+    if (!result || !column?.threadId) {
+      throw new Error('This answer can no longer be kept');
+    }
+
+    const { threadId } = await ChatService.keepComparison({
+      message: result.prompt,
+      reply: column.reply,
+      keepThreadId: column.threadId,
+      discardThreadIds: getScratchThreadIds(result).filter(id => id !== column.threadId),
+      ...chat
+    });
+
+    setResult(null);
+    return { threadId, prompt: result.prompt, column };
+  }, [result]);
+
+  const discardResult = useCallback(async () => {
+    const scratchThreadIds = getScratchThreadIds(result);
+    setResult(null);
+
+    try {
+      await ChatService.discardComparison(scratchThreadIds);
+    } catch (err) {
+      logError(err, 'Discard comparison');
+    }
+  }, [result]);
+
+  return {
+    enabled,
+    options,
+    targets,
+    result,
+    comparing,
+    error,
+    toggleCompare,
+    updateTarget,
+    addTarget,
+    removeTarget,
+    runCompare,
+    keepColumn,
+    discardResult
+  };
+};
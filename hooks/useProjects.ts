@@ -1,5 +1,5 @@
 import { useState, useCallback } from 'react';
-import { Project } from '../types/entities.types';
+import { Project, ProjectAssistantSettings } from '../types/entities.types';
 import { ProjectService } from '../services/projectService';
 import { formatErrorMessage, logError } from '../utils/errorHandler';
 
@@ -36,7 +36,7 @@ export const useProjects = () => {
     name: string;
     description?: string;
     color?: string;
-  }) => {
+  } & ProjectAssistantSettings) => {
     try {
       const newProject = await ProjectService.createProject(projectData);
       setProjects(prev => [...prev, newProject]);
@@ -48,6 +48,24 @@ export const useProjects = () => {
     }
   }, []);
 
+  const updateProject = useCallback(async (
+    projectId: string,
+    updates: { name?: string; description?: string; color?: string } & ProjectAssistantSettings
+  ) => {
+    try {
+      const updated = await ProjectService.updateProject(projectId, updates);
+      // The PATCH response has no thread list, keep the one we have
+      const merge = (project: Project) => ({ ...updated, threads: project.threads });
+
+      setProjects(prev => prev.map(p => p.id === projectId ? merge(p) : p));
+      setCurrentProject(prev => prev?.id === projectId ? merge(prev) : prev);
+      return updated;
+    } catch (error) {
+      logError(error, 'Update project');
+      throw new Error(formatErrorMessage(error));
+    }
+  }, []);
+
   const deleteProject = useCallback(async (projectId: string) => {
     try {
       await ProjectService.deleteProject(projectId);
@@ -84,6 +102,7 @@ export const useProjects = () => {
     setCurrentProject,
     loadProjects,
     createProject,
+    updateProject,
     deleteProject,
     loadProject
   };
@@ -0,0 +1,62 @@
+import { useState, useCallback, useEffect } from 'react';
+import { PromptTemplate, PromptTemplateInput } from '../types/entities.types';
+import { TemplateService } from '../services/templateService';
+import { formatErrorMessage, logError } from '../utils/errorHandler';
+
+/**
+ * Prompt templates available in the current project (its own plus the
+ * global ones), reloaded when the project changes
+ */
+export const usePromptTemplates = (projectId?: string) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTemplates(await TemplateService.getTemplates(projectId));
+    } catch (error) {
+      logError(error, 'Load prompt templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const saveTemplate = useCallback(async (
+    input: PromptTemplateInput,
+    existing?: PromptTemplate
+  ): Promise<PromptTemplate> => {
+    try {
+      const saved = existing
+        ? await TemplateService.updateTemplate(existing.id, input, existing.version)
+        : await TemplateService.createTemplate(input);
+      await loadTemplates();
+      return saved;
+    } catch (error) {
+      logError(error, 'Save prompt template');
+      throw new Error(formatErrorMessage(error));
+    }
+  }, [loadTemplates]);
+
+  const deleteTemplate = useCallback(async (templateId: string) => {
+    try {
+      await TemplateService.deleteTemplate(templateId);
+      setTemplates(prev => prev.filter(template => template.id !== templateId));
+    } catch (error) {
+      logError(error, 'Delete prompt template');
+      throw new Error(formatErrorMessage(error));
+    }
+  }, []);
+
+  return {
+    templates,
+    loading,
+    loadTemplates,
+    saveTemplate,
+    deleteTemplate
+  };
+};
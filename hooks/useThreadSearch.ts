@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ThreadSearchFilters, ThreadSearchResult } from '../types/entities.types';
+import { ThreadService } from '../services/threadService';
+import { formatErrorMessage, logError } from '../utils/errorHandler';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Sidebar thread search. Queries are debounced and a newer query
+ * aborts the request still in flight for the previous one.
+ */
+export const useThreadSearch = () => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<ThreadSearchFilters>({});
+  const [results, setResults] = useState<ThreadSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const found = await ThreadService.searchThreads(trimmed, filters, controller.signal);
+        setResults(found);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        logError(err, 'Search threads');
+        setError(formatErrorMessage(err));
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, filters]);
+
+  const updateFilters = useCallback((update: ThreadSearchFilters) => {
+    setFilters(prev => ({ ...prev, ...update }));
+  }, []);
+
+  const clearSearch = useCallback(() => {
+    setQuery('');
+    setResults([]);
+    setError(null);
+  }, []);
+
+  return {
+    query,
+    filters,
+    results,
+    searching,
+    error,
+    active: query.trim().length >= MIN_QUERY_LENGTH,
+    setQuery,
+    updateFilters,
+    clearSearch
+  };
+};
@@ -0,0 +1,52 @@
+import { useState, useCallback, useEffect } from 'react';
+import { ModelOptions, ThreadSettings } from '../types/entities.types';
+import { ThreadService } from '../services/threadService';
+import { formatErrorMessage, logError } from '../utils/errorHandler';
+
+/**
+ * Model/temperature picker state for the open thread.
+ * A new chat keeps its selection locally; it is sent with each message
+ * and saved with the thread record once the thread exists.
+ */
+export const useThreadSettings = (threadId: string | null) => {
+  const [settings, setSettings] = useState<ThreadSettings>({});
+  const [modelOptions, setModelOptions] = useState<ModelOptions>({ provider: '', models: [] });
+
+  useEffect(() => {
+    ThreadService.getModelOptions()
+      .then(setModelOptions)
+      .catch(error => logError(error, 'Load model options'));
+  }, []);
+
+  const loadSettings = useCallback(async (id: string) => {
+    try {
+      setSettings(await ThreadService.getSettings(id));
+    } catch (error) {
+      logError(error, 'Load thread settings');
+      setSettings({});
+    }
+  }, []);
+
+  const updateSettings = useCallback(async (update: ThreadSettings) => {
+    const next = { ...settings, ...update };
+    setSettings(next);
+
+    if (!threadId) return;
+    try {
+      await ThreadService.updateSettings(threadId, next);
+    } catch (error) {
+      logError(error, 'Update thread settings');
+      throw new Error(formatErrorMessage(error));
+    }
+  }, [settings, threadId]);
+
+  const resetSettings = useCallback(() => setSettings({}), []);
+
+  return {
+    settings,
+    modelOptions,
+    loadSettings,
+    updateSettings,
+    resetSettings
+  };
+};
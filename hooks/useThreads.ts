@@ -1,6 +1,6 @@
 // hooks/useThreads.ts - FIXED VERSION
 import { useState, useCallback } from 'react';
-import { Thread, Message } from '../types/entities.types';
+import { Thread, Message, ThreadSettings } from '../types/entities.types';
 import { ThreadService } from '../services/threadService';
 import { formatErrorMessage, logError } from '../utils/errorHandler';
 import { cleanSearchArtifactsFromContent } from '../utils/contentUtils';
@@ -27,6 +27,13 @@ export const useThreads = () => {
         console.log(`Loaded ${data.thread.messages.length} messages from thread`);
         return data.thread.messages;
       }
+
+      // GET /api/threads lists OpenAI messages newest first
+      if (Array.isArray(data.messages)) {
+        return [...data.messages].sort(
+          (a: { created_at?: number }, b: { created_at?: number }) => (a.created_at || 0) - (b.created_at || 0)
+        );
+      }
       
       return [];
     } catch (error) {
@@ -40,7 +47,8 @@ export const useThreads = () => {
   const saveThread = useCallback(async (
     threadId: string,
     projectId: string,
-    messages: Message[]
+    messages: Message[],
+    settings: ThreadSettings = {}
   ) => {
     try {
       const smartTitle = generateContextualTitle(messages);
@@ -50,7 +58,8 @@ export const useThreads = () => {
         id: threadId,
         projectId,
         title: smartTitle,
-        messages // Pass messages for metadata calculation
+        messages, // Pass messages for metadata calculation
+        ...settings
       };
 
       // Call ThreadService with the correct structure
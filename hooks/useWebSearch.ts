@@ -2,17 +2,25 @@ import { useState, useCallback } from 'react';
 
 export const useWebSearch = () => {
   const [webSearchEnabled, setWebSearchEnabled] = useState(false);
+  const [deepResearchEnabled, setDeepResearchEnabled] = useState(false);
   const [searchInProgress, setSearchInProgress] = useState(false);
 
   const toggleWebSearch = useCallback(() => {
     setWebSearchEnabled(prev => !prev);
   }, []);
 
+  // Reads the top results in full; only sent while web search is on
+  const toggleDeepResearch = useCallback(() => {
+    setDeepResearchEnabled(prev => !prev);
+  }, []);
+
   return {
     webSearchEnabled,
+    deepResearchEnabled: webSearchEnabled && deepResearchEnabled,
     searchInProgress,
     setWebSearchEnabled,
     setSearchInProgress,
-    toggleWebSearch
+    toggleWebSearch,
+    toggleDeepResearch
   };
 };
\ No newline at end of file
@@ -16,7 +16,11 @@ export { default as StorageClient, storageClient } from './storageClient';
 export type { 
   Message,
   RunStatus,
-  ThreadMessage 
+  RunOverrides,
+  RunUsage,
+  StreamEvent,
+  ThreadMessage,
+  ToolOutput
 } from './openaiClient';
 
 export type {
@@ -15,12 +15,53 @@ export interface Message {
   file_ids?: string[];
 }
 
+export interface RunUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
 export interface RunStatus {
   id: string;
   status: string;
+  model?: string;
+  usage?: RunUsage | null; // Set once the run reaches a terminal state
   required_action?: any;
 }
 
+export interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+export interface ToolOutput {
+  tool_call_id: string;
+  output: string;
+}
+
+export interface RunOverrides {
+  additionalInstructions?: string; // Appended to the assistant's instructions
+  tools?: Record<string, unknown>[];
+  model?: string;
+  temperature?: number;
+  lastMessages?: number; // Limit the run's context to the most recent thread messages
+  responseFormat?: Record<string, unknown>; // e.g. a json_schema for structured output
+}
+
+export interface ChatCompletion {
+  model: string;
+  choices: { message: { content: string | null } }[];
+  usage?: RunUsage;
+}
+
+export interface RunStep {
+  id: string;
+  step_details?: {
+    type: string;
+    tool_calls?: { type: string }[];
+  };
+}
+
 export interface ThreadMessage {
   id: string;
   content: any[];
@@ -50,8 +91,11 @@ class OpenAIClient {
   }
 
   // Thread Management
-  async createThread(metadata?: Record<string, any>) {
-    return this.client.post(`${this.baseUrl}/threads`, { metadata });
+  async createThread(metadata?: Record<string, any>, messages?: Message[]) {
+    return this.client.post(`${this.baseUrl}/threads`, {
+      metadata,
+      ...(messages && messages.length > 0 && { messages })
+    });
   }
 
   async getThread(threadId: string) {
@@ -77,17 +121,37 @@ class OpenAIClient {
     return this.client.post(`${this.baseUrl}/threads/${threadId}/messages`, message);
   }
 
-  async getMessages(threadId: string, limit: number = 100) {
-    return this.client.get<{ data: ThreadMessage[] }>(
-      `${this.baseUrl}/threads/${threadId}/messages?limit=${limit}`
+  async getMessages(threadId: string, limit: number = 100, order: 'asc' | 'desc' = 'desc', after?: string) {
+    return this.client.get<{ data: ThreadMessage[]; has_more?: boolean; last_id?: string }>(
+      `${this.baseUrl}/threads/${threadId}/messages?limit=${limit}&order=${order}${after ? `&after=${after}` : ''}`
     );
   }
 
+  async createMessage(threadId: string, message: Message) {
+    return this.client.post(`${this.baseUrl}/threads/${threadId}/messages`, message);
+  }
+
+  // Assistant Management
+  async getAssistant(assistantId?: string) {
+    return this.client.get(`${this.baseUrl}/assistants/${assistantId || this.config.assistantId}`);
+  }
+
   // Run Management
-  async createRun(threadId: string, assistantId?: string, instructions?: string) {
+  async createRun(
+    threadId: string,
+    assistantId?: string,
+    instructions?: string,
+    overrides: RunOverrides = {}
+  ) {
     return this.client.post(`${this.baseUrl}/threads/${threadId}/runs`, {
       assistant_id: assistantId || this.config.assistantId,
       ...(instructions && { instructions }),
+      ...(overrides.additionalInstructions && { additional_instructions: overrides.additionalInstructions }),
+      ...(overrides.tools && { tools: overrides.tools }),
+      ...(overrides.model && { model: overrides.model }),
+      ...(overrides.temperature !== undefined && { temperature: overrides.temperature }),
+      ...(overrides.lastMessages && { truncation_strategy: { type: 'last_messages', last_messages: overrides.lastMessages } }),
+      ...(overrides.responseFormat && { response_format: overrides.responseFormat }),
     });
   }
 
@@ -95,11 +159,17 @@ class OpenAIClient {
     return this.client.get(`${this.baseUrl}/threads/${threadId}/runs/${runId}`);
   }
 
+  async getRunSteps(threadId: string, runId: string, limit: number = 100) {
+    return this.client.get<{ data: RunStep[] }>(
+      `${this.baseUrl}/threads/${threadId}/runs/${runId}/steps?limit=${limit}`
+    );
+  }
+
   async cancelRun(threadId: string, runId: string) {
     return this.client.post(`${this.baseUrl}/threads/${threadId}/runs/${runId}/cancel`);
   }
 
-  async submitToolOutputs(threadId: string, runId: string, outputs: any[]) {
+  async submitToolOutputs(threadId: string, runId: string, outputs: ToolOutput[]) {
     return this.client.post(
       `${this.baseUrl}/threads/${threadId}/runs/${runId}/submit_tool_outputs`,
       { tool_outputs: outputs }
@@ -111,7 +181,8 @@ class OpenAIClient {
     threadId: string, 
     runId: string, 
     maxAttempts: number = 60,
-    pollingInterval: number = 1000
+    pollingInterval: number = 1000,
+    signal?: AbortSignal
   ): Promise<RunStatus> {
     for (let i = 0; i < maxAttempts; i++) {
       const run = await this.getRun(threadId, runId);
@@ -119,6 +190,10 @@ class OpenAIClient {
       if (['completed', 'failed', 'cancelled', 'expired'].includes(run.status)) {
         return run;
       }
+
+      if (signal?.aborted) {
+        return run; // Caller is responsible for cancelling the run
+      }
       
       if (run.status === 'requires_action') {
         return run; // Caller needs to handle required actions
@@ -127,7 +202,7 @@ class OpenAIClient {
       await new Promise(resolve => setTimeout(resolve, pollingInterval));
     }
     
-    throw new ApiError('Run timeout: Maximum polling attempts reached', 408);
+    throw new ApiError('Run timeout: Maximum polling attempts reached', 408, 'RUN_TIMEOUT');
   }
 
   // File Management
@@ -167,44 +242,114 @@ class OpenAIClient {
     return this.client.get(`${this.baseUrl}/files/${fileId}/content`);
   }
 
+  // Embeddings
+  async createEmbedding(input: string | string[], model: string) {
+    return this.client.post<{ data: { embedding: number[]; index: number }[] }>(`${this.baseUrl}/embeddings`, {
+      model,
+      input,
+    });
+  }
+
+  // Chat Completions (one-off prompts outside assistant threads)
+  async createChatCompletion(
+    model: string,
+    messages: { role: 'system' | 'user' | 'assistant'; content: string }[],
+    options: { temperature?: number; maxTokens?: number; responseFormat?: Record<string, unknown> } = {}
+  ) {
+    return this.client.post<ChatCompletion>(`${this.baseUrl}/chat/completions`, {
+      model,
+      messages,
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(options.maxTokens && { max_tokens: options.maxTokens }),
+      ...(options.responseFormat && { response_format: options.responseFormat }),
+    });
+  }
+
   // Streaming support for messages
-  async *streamRun(threadId: string, assistantId?: string, instructions?: string) {
+  async *streamRun(
+    threadId: string,
+    assistantId?: string,
+    instructions?: string,
+    overrides: RunOverrides = {},
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent> {
     const response = await fetch(`${this.baseUrl}/threads/${threadId}/runs`, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'OpenAI-Beta': 'assistants=v2',
-        'Content-Type': 'application/json',
-        ...(this.config.organizationId && { 'OpenAI-Organization': this.config.organizationId }),
-      },
+      headers: this.getStreamHeaders(),
       body: JSON.stringify({
         assistant_id: assistantId || this.config.assistantId,
         stream: true,
         ...(instructions && { instructions }),
+        ...(overrides.additionalInstructions && { additional_instructions: overrides.additionalInstructions }),
+        ...(overrides.tools && { tools: overrides.tools }),
+        ...(overrides.model && { model: overrides.model }),
+        ...(overrides.temperature !== undefined && { temperature: overrides.temperature }),
+        ...(overrides.lastMessages && { truncation_strategy: { type: 'last_messages', last_messages: overrides.lastMessages } }),
+        ...(overrides.responseFormat && { response_format: overrides.responseFormat }),
       }),
+      signal,
     });
 
+    yield* this.readEventStream(response);
+  }
+
+  // Continue a streamed run after handling its function calls
+  async *submitToolOutputsStream(
+    threadId: string,
+    runId: string,
+    outputs: ToolOutput[],
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent> {
+    const response = await fetch(
+      `${this.baseUrl}/threads/${threadId}/runs/${runId}/submit_tool_outputs`,
+      {
+        method: 'POST',
+        headers: this.getStreamHeaders(),
+        body: JSON.stringify({ tool_outputs: outputs, stream: true }),
+        signal,
+      }
+    );
+
+    yield* this.readEventStream(response);
+  }
+
+  private getStreamHeaders(): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.config.apiKey}`,
+      'OpenAI-Beta': 'assistants=v2',
+      'Content-Type': 'application/json',
+      ...(this.config.organizationId && { 'OpenAI-Organization': this.config.organizationId }),
+    };
+  }
+
+  private async *readEventStream(response: Response): AsyncGenerator<StreamEvent> {
     if (!response.ok || !response.body) {
       throw new ApiError('Stream initialization failed', response.status);
     }
 
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
+    let buffer = '';
+    let event = 'message';
 
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
       
-      const chunk = decoder.decode(value);
-      const lines = chunk.split('\n').filter(line => line.trim());
+      // Events can be split across chunks, so only consume complete lines
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
       
       for (const line of lines) {
-        if (line.startsWith('data: ')) {
+        if (line.startsWith('event: ')) {
+          event = line.slice(7).trim();
+        } else if (line.startsWith('data: ')) {
           const data = line.slice(6);
           if (data === '[DONE]') return;
           
           try {
-            yield JSON.parse(data);
+            yield { event, data: JSON.parse(data) };
           } catch (e) {
             console.error('Failed to parse stream data:', e);
           }
@@ -13,12 +13,14 @@ interface TavilyConfig {
 
 export interface SearchOptions {
   query: string;
+  topic?: 'general' | 'news';
   maxResults?: number;
   searchDepth?: 'basic' | 'advanced';
   includeImages?: boolean;
   includeAnswer?: boolean;
   includeDomains?: string[];
   excludeDomains?: string[];
+  signal?: AbortSignal;
 }
 
 export interface SearchResult {
@@ -67,6 +69,7 @@ class TavilyClient {
   private getCacheKey(options: SearchOptions): string {
     return JSON.stringify({
       query: options.query.toLowerCase().trim(),
+      topic: options.topic,
       maxResults: options.maxResults,
       searchDepth: options.searchDepth,
       includeDomains: options.includeDomains?.sort(),
@@ -114,6 +117,7 @@ class TavilyClient {
     const searchRequest = {
       api_key: this.config.apiKey,
       query: options.query,
+      ...(options.topic && { topic: options.topic }),
       max_results: options.maxResults || this.config.maxResultsPerSearch,
       search_depth: options.searchDepth || this.config.searchDepth,
       include_images: options.includeImages ?? this.config.includeImages,
@@ -125,7 +129,8 @@ class TavilyClient {
     try {
       const response = await this.client.post<TavilyResponse>(
         `${this.baseUrl}/search`,
-        searchRequest
+        searchRequest,
+        { signal: options.signal }
       );
       
       // Cache the successful response
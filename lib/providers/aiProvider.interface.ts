@@ -1,8 +1,5 @@
 // lib/providers/aiProvider.interface.ts
 
-import { LMStudioProvider } from "./lmStudioProvider";
-import { OpenAIProvider } from "./openaiProvider";
-
 // Message type definition (matches your existing types)
 export interface Message {
   id?: string;
@@ -28,6 +25,22 @@ export interface AIProvider {
     options: AIProviderOptions
   ): Promise<ChatResponse>;
   
+  /**
+   * Stream response events (text deltas, tool progress) as they arrive
+   */
+  streamResponse?(
+    messages: Message[],
+    options: AIProviderOptions
+  ): AsyncGenerator<ChatStreamEvent>;
+  
+  /**
+   * One-off completion outside any thread (e.g. summarizing thread history)
+   */
+  complete(
+    messages: Message[],
+    options: AIProviderOptions
+  ): Promise<ChatResponse>;
+  
   /**
    * Process uploaded file
    */
@@ -41,11 +54,16 @@ export interface AIProvider {
    * Generate embeddings for text
    */
   generateEmbeddings(text: string): Promise<number[]>;
+
+  /**
+   * Generate embeddings for several texts in one request, in input order
+   */
+  generateEmbeddingsBatch?(texts: string[]): Promise<number[][]>;
   
   /**
-   * Create a new thread
+   * Create a new thread, optionally seeded with earlier messages (branching)
    */
-  createThread?(): Promise<string>;
+  createThread?(history?: Message[]): Promise<string>;
   
   /**
    * Delete a thread
@@ -56,17 +74,44 @@ export interface AIProvider {
    * Get thread messages
    */
   getThreadMessages?(threadId: string): Promise<Message[]>;
+
+  /**
+   * Append a user/assistant exchange produced elsewhere (e.g. a kept comparison answer)
+   */
+  addTurn?(threadId: string, userContent: string, reply: string): Promise<void>;
+
+  /**
+   * Cancel a run that is still in progress
+   */
+  cancelRun?(threadId: string, runId: string): Promise<void>;
+
+  /**
+   * Models that can be selected per thread
+   */
+  listModels?(): Promise<string[]>;
 }
 
 export interface AIProviderOptions {
   threadId?: string;
+  projectId?: string;
   webSearchEnabled?: boolean;
+  deepResearch?: boolean; // Read the top search hits, not just their snippets
   fileIds?: string[];
   tools?: string[];
+  model?: string; // Overrides the provider's configured model for this request
   temperature?: number;
   maxTokens?: number;
   responseFormat?: 'text' | 'json' | 'markdown';
+  outputSchema?: OutputSchema; // Constrain the reply to this JSON Schema where the provider supports it
   stream?: boolean;
+  signal?: AbortSignal; // Aborts the request when the user cancels
+}
+
+// JSON Schema a structured reply must match
+export interface OutputSchema {
+  name: string;
+  schema: Record<string, unknown>;
+  strict: boolean; // Schema meets OpenAI's strict-mode rules, so decoding can enforce it
 }
 
 export interface ChatResponse {
@@ -74,18 +119,31 @@ export interface ChatResponse {
   threadId?: string;
   messageId?: string;
   files?: FileAttachment[];
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: UsageMetrics;
   webSearchPerformed?: boolean;
   searchSources?: SearchSource[];
   parsedResponse?: any;
   provider?: string;
   fallbackUsed?: boolean;
+  status?: string;
 }
 
+export interface UsageMetrics {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  model?: string; // Model that produced the reply
+  searchCalls?: number; // Web searches made for the reply
+  codeInterpreterSessions?: number;
+}
+
+export type ChatStreamEvent =
+  | { type: 'thread'; threadId: string }
+  | { type: 'run'; runId: string }
+  | { type: 'delta'; content: string }
+  | { type: 'tool'; tool: string; status: 'started' | 'in_progress' | 'completed'; detail?: string }
+  | { type: 'done'; response: ChatResponse };
+
 export interface FileProcessingResult {
   fileId: string;
   extracted?: string;
@@ -103,74 +161,10 @@ export interface FileAttachment {
 }
 
 export interface SearchSource {
+  id?: number; // Citation number, cited in replies as [id]
   title: string;
   url: string;
   snippet?: string;
   score?: number;
+  cited?: boolean; // The reply cites this source
 }
-
-export class ProviderFactory {
-  private static providers: Map<string, AIProvider> = new Map();
-  
-  /**
-   * Create or get cached provider instance
-   */
-  static async createProvider(type: string): Promise<AIProvider> {
-    // Check cache first
-    if (this.providers.has(type)) {
-      return this.providers.get(type)!;
-    }
-    
-    let provider: AIProvider;
-    
-    switch (type.toLowerCase()) {
-      case 'openai':
-        provider = new OpenAIProvider();
-        break;
-      case 'lmstudio':
-        provider = new LMStudioProvider();
-        break;
-      default:
-        throw new Error(`Unknown provider type: ${type}`);
-    }
-    
-    // Verify availability
-    const isAvailable = await provider.isAvailable();
-    if (!isAvailable) {
-      throw new Error(`Provider ${type} is not available`);
-    }
-    
-    // Cache for reuse
-    this.providers.set(type, provider);
-    
-    return provider;
-  }
-  
-  /**
-   * Clear provider cache
-   */
-  static clearCache(): void {
-    this.providers.clear();
-  }
-  
-  /**
-   * Get all available providers
-   */
-  static async getAvailableProviders(): Promise<string[]> {
-    const available: string[] = [];
-    const types = ['openai', 'lmstudio'];
-    
-    for (const type of types) {
-      try {
-        const provider = await this.createProvider(type);
-        if (await provider.isAvailable()) {
-          available.push(type);
-        }
-      } catch {
-        // Provider not available
-      }
-    }
-    
-    return available;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,207 @@
+// lib/providers/circuitBreaker.ts
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  errorRateThreshold: number; // Failure share of the window that opens the circuit
+  minCalls: number; // Calls in the window before the error rate is considered
+  windowSize: number; // Recent calls kept for error rate and latency
+  cooldownMs: number; // How long the circuit stays open before a probe
+  slowCallMs: number; // Calls slower than this count as failures (0 disables)
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  calls: number;
+  errorRate: number;
+  avgLatencyMs: number | null;
+  maxLatencyMs: number | null;
+  lastError?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+  openedAt?: string;
+  nextProbeAt?: string;
+}
+
+interface CallOutcome {
+  ok: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Read breaker settings from the environment
+ */
+export function getCircuitBreakerConfig(): CircuitBreakerConfig {
+  return {
+    failureThreshold: parseInt(process.env.PROVIDER_BREAKER_FAILURES || '3'),
+    errorRateThreshold: parseFloat(process.env.PROVIDER_BREAKER_ERROR_RATE || '0.5'),
+    minCalls: parseInt(process.env.PROVIDER_BREAKER_MIN_CALLS || '10'),
+    windowSize: parseInt(process.env.PROVIDER_BREAKER_WINDOW || '20'),
+    cooldownMs: parseInt(process.env.PROVIDER_BREAKER_COOLDOWN_MS || '30000'),
+    slowCallMs: parseInt(process.env.PROVIDER_BREAKER_SLOW_MS || '0')
+  };
+}
+
+/**
+ * Circuit breaker for one AI provider.
+ * Closed: requests flow. Open: requests skip the provider until the cooldown
+ * ends. Half-open: a probe passed and one trial request decides whether the
+ * circuit closes again or reopens.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: CallOutcome[] = [];
+  private consecutiveFailures = 0;
+  private trialInFlight = false;
+  private openedAt?: number;
+  private lastError?: string;
+  private lastFailureAt?: number;
+  private lastSuccessAt?: number;
+
+  constructor(
+    readonly name: string,
+    private config: CircuitBreakerConfig = getCircuitBreakerConfig()
+  ) {}
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Whether the cooldown has passed and the provider should be probed
+   */
+  isProbeDue(now: number = Date.now()): boolean {
+    return this.state === 'open' && now - (this.openedAt || 0) >= this.config.cooldownMs;
+  }
+
+  /**
+   * Whether a request may be routed to the provider right now
+   */
+  canRequest(): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open') return !this.trialInFlight;
+    return false;
+  }
+
+  /**
+   * Reserve the provider for a request; in half-open only one trial runs at a time
+   */
+  acquire(): boolean {
+    if (!this.canRequest()) return false;
+    if (this.state === 'half_open') this.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Probe result after the cooldown: success lets one trial request through
+   */
+  recordProbe(ok: boolean, error?: string): void {
+    if (ok) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+      return;
+    }
+
+    this.lastError = error || 'Availability probe failed';
+    this.lastFailureAt = Date.now();
+    this.open();
+  }
+
+  recordSuccess(latencyMs: number): void {
+    if (this.config.slowCallMs > 0 && latencyMs > this.config.slowCallMs) {
+      this.recordFailure(`Slow response (${Math.round(latencyMs)}ms)`, latencyMs);
+      return;
+    }
+
+    if (this.state !== 'closed') {
+      // Failures from before the outage shouldn't reopen a recovered provider
+      console.log(`Circuit for ${this.name} closed`);
+      this.state = 'closed';
+      this.openedAt = undefined;
+      this.outcomes = [];
+    }
+
+    this.push({ ok: true, latencyMs });
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = Date.now();
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: string, latencyMs: number = 0): void {
+    this.push({ ok: false, latencyMs });
+    this.consecutiveFailures++;
+    this.lastError = error;
+    this.lastFailureAt = Date.now();
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.shouldOpen()) {
+      this.open();
+    }
+  }
+
+  /**
+   * Give back a reservation that ended without an outcome (e.g. user cancel)
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  snapshot(): CircuitSnapshot {
+    const latencies = this.outcomes.map(outcome => outcome.latencyMs);
+
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      calls: this.outcomes.length,
+      errorRate: this.getErrorRate(),
+      avgLatencyMs: latencies.length > 0
+        ? Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length)
+        : null,
+      maxLatencyMs: latencies.length > 0 ? Math.round(Math.max(...latencies)) : null,
+      lastError: this.lastError,
+      lastFailureAt: this.toIso(this.lastFailureAt),
+      lastSuccessAt: this.toIso(this.lastSuccessAt),
+      openedAt: this.toIso(this.openedAt),
+      nextProbeAt: this.state === 'open'
+        ? this.toIso((this.openedAt || 0) + this.config.cooldownMs)
+        : undefined
+    };
+  }
+
+  // Private helper methods
+
+  private shouldOpen(): boolean {
+    if (this.consecutiveFailures >= this.config.failureThreshold) return true;
+
+    return this.outcomes.length >= this.config.minCalls &&
+      this.getErrorRate() >= this.config.errorRateThreshold;
+  }
+
+  private open(): void {
+    if (this.state !== 'open') {
+      console.warn(`Circuit for ${this.name} opened: ${this.lastError}`);
+    }
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.trialInFlight = false;
+  }
+
+  private push(outcome: CallOutcome): void {
+    this.outcomes.push(outcome);
+    if (this.outcomes.length > this.config.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private getErrorRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    const failures = this.outcomes.filter(outcome => !outcome.ok).length;
+    return Math.round((failures / this.outcomes.length) * 100) / 100;
+  }
+
+  private toIso(timestamp?: number): string | undefined {
+    return timestamp ? new Date(timestamp).toISOString() : undefined;
+  }
+}
@@ -1,26 +1,53 @@
 // lib/providers/lmStudioProvider.ts
-import { 
-  AIProvider, 
-  AIProviderOptions, 
-  ChatResponse, 
+import {
+  AIProvider,
+  AIProviderOptions,
+  ChatResponse,
+  ChatStreamEvent,
   FileProcessingResult,
-  Message 
+  Message
 } from './aiProvider.interface';
+import { LocalThreadStore } from './localThreadStore';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { ThreadMemoryService } from '@/services/threadMemoryService';
+
+interface LMStudioChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+interface CompletionChunk {
+  content?: string;
+  usage?: ChatResponse['usage'];
+}
 
 /**
- * LM Studio Provider - Skeleton for Phase 3 implementation
- * This provider will enable local LLM integration via LM Studio
+ * LM Studio Provider
+ * Local LLM integration via LM Studio's OpenAI-compatible API.
+ * LM Studio has no server-side threads or file storage, so conversation
+ * history and extracted file text are kept in Supabase.
  */
 export class LMStudioProvider implements AIProvider {
   name = 'lmstudio';
   private baseUrl: string;
   private apiKey?: string;
   private model: string;
+  private embeddingModel: string;
+  private timeout: number;
+  private responseTimeout: number;
+  private maxHistoryMessages: number;
+  private maxFileChars: number;
 
   constructor() {
     this.baseUrl = process.env.LM_STUDIO_URL || 'http://localhost:1234';
     this.apiKey = process.env.LM_STUDIO_API_KEY; // Optional, for secured instances
     this.model = process.env.LM_STUDIO_MODEL || 'local-model';
+    this.embeddingModel = process.env.LM_STUDIO_EMBEDDING_MODEL || 'text-embedding-model';
+    this.timeout = parseInt(process.env.LM_STUDIO_TIMEOUT || '300000');
+    // A hung server fails after this long without a byte, not after the whole timeout
+    this.responseTimeout = parseInt(process.env.LM_STUDIO_RESPONSE_TIMEOUT || '60000');
+    this.maxHistoryMessages = parseInt(process.env.LM_STUDIO_MAX_HISTORY || '20');
+    this.maxFileChars = parseInt(process.env.LM_STUDIO_MAX_FILE_CHARS || '20000');
   }
 
   async isAvailable(): Promise<boolean> {
@@ -28,14 +55,16 @@ export class LMStudioProvider implements AIProvider {
     if (process.env.LM_STUDIO_ENABLED !== 'true') {
       return false;
     }
-    
+
     try {
       // Try to connect to LM Studio API
+      // Short timeout so a hung server fails the probe quickly
       const response = await fetch(`${this.baseUrl}/v1/models`, {
         method: 'GET',
-        headers: this.getHeaders()
+        headers: this.getHeaders(),
+        signal: AbortSignal.timeout(5000)
       });
-      
+
       return response.ok;
     } catch (error) {
       console.error('LM Studio not available:', error);
@@ -47,45 +76,114 @@ export class LMStudioProvider implements AIProvider {
     messages: Message[],
     options: AIProviderOptions
   ): Promise<ChatResponse> {
-    // To be implemented in Phase 3
-    // This will use the OpenAI-compatible API that LM Studio provides
-    
-    throw new Error('LM Studio provider not yet implemented - Phase 3');
-    
-    /* Phase 3 implementation outline:
+    // Get or create thread (tracked locally)
+    const threadId = options.threadId || await this.createThread();
+
     try {
-      const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify({
-          model: this.model,
-          messages: this.formatMessages(messages),
-          temperature: options.temperature || 0.7,
-          max_tokens: options.maxTokens || 2000,
-          stream: options.stream || false
-        })
-      });
-      
-      if (!response.ok) {
-        throw new Error(`LM Studio error: ${response.statusText}`);
+      const { userContent, requestMessages } = await this.buildRequestMessages(
+        threadId,
+        messages,
+        options
+      );
+
+      const { reply, usage } = await this.collectCompletion(requestMessages, options);
+
+      if (!reply) {
+        throw new Error('LM Studio returned an empty response');
       }
-      
-      const data = await response.json();
-      
+
+      // Persist both turns so the next request has context
+      const messageId = await LocalThreadStore.saveTurn(
+        threadId,
+        userContent,
+        reply,
+        options.fileIds || []
+      );
+
       return {
-        reply: data.choices[0].message.content,
-        threadId: options.threadId,
-        usage: {
-          promptTokens: data.usage?.prompt_tokens || 0,
-          completionTokens: data.usage?.completion_tokens || 0,
-          totalTokens: data.usage?.total_tokens || 0
-        }
+        reply,
+        threadId,
+        messageId,
+        status: 'completed',
+        provider: this.name,
+        usage
       };
     } catch (error) {
+      // Stopped by the user before any text came back
+      if (options.signal?.aborted) {
+        return { reply: '', threadId, status: 'cancelled', provider: this.name };
+      }
+
       console.error('LM Studio generation error:', error);
       throw error;
     }
-    */
+  }
+
+  async complete(
+    messages: Message[],
+    options: AIProviderOptions
+  ): Promise<ChatResponse> {
+    const { reply, usage } = await this.collectCompletion(this.formatMessages(messages), options);
+    return {
+      reply,
+      status: 'completed',
+      provider: this.name,
+      usage
+    };
+  }
+
+  async *streamResponse(
+    messages: Message[],
+    options: AIProviderOptions
+  ): AsyncGenerator<ChatStreamEvent> {
+    const threadId = options.threadId || await this.createThread();
+    yield { type: 'thread', threadId };
+
+    const { userContent, requestMessages } = await this.buildRequestMessages(
+      threadId,
+      messages,
+      options
+    );
+
+    let reply = '';
+    let usage: ChatResponse['usage'];
+    let status = 'completed';
+
+    try {
+      for await (const chunk of this.streamCompletion(requestMessages, options)) {
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.content) {
+          reply += chunk.content;
+          yield { type: 'delta', content: chunk.content };
+        }
+      }
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        throw error;
+      }
+      status = 'cancelled';
+    }
+
+    if (!reply && status === 'completed') {
+      throw new Error('LM Studio returned an empty response');
+    }
+
+    // Partial replies are kept too, so the thread shows where it was stopped
+    const messageId = reply
+      ? await LocalThreadStore.saveTurn(threadId, userContent, reply, options.fileIds || [])
+      : undefined;
+
+    yield {
+      type: 'done',
+      response: {
+        reply,
+        threadId,
+        messageId,
+        status,
+        provider: this.name,
+        usage
+      }
+    };
   }
 
   async processFile(
@@ -93,83 +191,316 @@ export class LMStudioProvider implements AIProvider {
     fileType: string,
     filename: string
   ): Promise<FileProcessingResult> {
-    // To be implemented in Phase 3
-    // LM Studio doesn't have native file processing
-    // We'll need to extract text and include in prompt
-    
-    throw new Error('LM Studio file processing not yet implemented - Phase 3');
-    
-    /* Phase 3 implementation outline:
-    - Extract text from file based on type
-    - Store file locally or in Vercel Blob
-    - Return file ID and extracted content
-    - Include extracted content in prompts
-    */
+    try {
+      // LM Studio doesn't have native file processing, so extract text
+      // locally and keep it in Supabase for inclusion in prompts
+      return await LocalThreadStore.storeFile(this.name, file, fileType, filename, this.maxFileChars);
+    } catch (error) {
+      console.error('LM Studio file processing error:', error);
+      return {
+        fileId: '',
+        error: error instanceof Error ? error.message : 'Failed to process file'
+      };
+    }
   }
 
   async generateEmbeddings(text: string): Promise<number[]> {
-    // To be implemented in Phase 3
-    // Will use local embedding model if available
-    
-    throw new Error('LM Studio embeddings not yet implemented - Phase 3');
-    
-    /* Phase 3 implementation outline:
     try {
       const response = await fetch(`${this.baseUrl}/v1/embeddings`, {
         method: 'POST',
         headers: this.getHeaders(),
         body: JSON.stringify({
-          model: 'text-embedding-model',
+          model: this.embeddingModel,
           input: text
-        })
+        }),
+        signal: AbortSignal.timeout(this.timeout)
       });
-      
+
+      if (!response.ok) {
+        throw new ApiError(`LM Studio embeddings error: ${response.statusText}`, response.status);
+      }
+
       const data = await response.json();
-      return data.data[0].embedding;
+      return data.data?.[0]?.embedding || [];
     } catch (error) {
       console.error('LM Studio embedding error:', error);
       return [];
     }
-    */
+  }
+
+  async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/v1/embeddings`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({
+          model: this.embeddingModel,
+          input: texts
+        }),
+        signal: AbortSignal.timeout(this.timeout)
+      });
+
+      if (!response.ok) {
+        throw new ApiError(`LM Studio embeddings error: ${response.statusText}`, response.status);
+      }
+
+      const data = await response.json();
+      const embeddings: number[][] = texts.map(() => []);
+      for (const item of (data.data || []) as { embedding: number[]; index: number }[]) {
+        embeddings[item.index] = item.embedding;
+      }
+      return embeddings;
+    } catch (error) {
+      console.error('LM Studio embedding error:', error);
+      return texts.map(() => []);
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/v1/models`, {
+        headers: this.getHeaders(),
+        signal: AbortSignal.timeout(5000)
+      });
+
+      if (!response.ok) {
+        throw new ApiError(`LM Studio models error: ${response.statusText}`, response.status);
+      }
+
+      const data = await response.json();
+      const models: string[] = (data.data || [])
+        .map((model: { id: string }) => model.id)
+        .filter((id: string) => id !== this.embeddingModel);
+
+      return models.length > 0 ? models : [this.model];
+    } catch (error) {
+      console.error('Failed to list LM Studio models:', error);
+      return [this.model];
+    }
   }
 
   // Private helper methods
-  
+
   private getHeaders(): HeadersInit {
     const headers: HeadersInit = {
       'Content-Type': 'application/json'
     };
-    
+
     if (this.apiKey) {
       headers['Authorization'] = `Bearer ${this.apiKey}`;
     }
-    
+
     return headers;
   }
 
-  private formatMessages(messages: Message[]): any[] {
+  /**
+   * Stream a chat completion from LM Studio. Requests always stream, so a
+   * server that stops sending (or never starts) is caught after
+   * responseTimeout rather than after the whole request timeout.
+   */
+  private async *streamCompletion(
+    requestMessages: LMStudioChatMessage[],
+    options: AIProviderOptions
+  ): AsyncGenerator<CompletionChunk> {
+    const stalled = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(
+        () => stalled.abort(new Error(`LM Studio sent nothing for ${this.responseTimeout} ms`)),
+        this.responseTimeout
+      );
+    };
+
+    resetTimer();
+    try {
+      const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(this.buildRequestBody(requestMessages, options)),
+        signal: AbortSignal.any([this.getRequestSignal(options), stalled.signal])
+      });
+
+      if (!response.ok || !response.body) {
+        const errorBody = await response.text();
+        // Keep the HTTP status so client errors (bad model, context too long) don't count as outages
+        throw new ApiError(
+          `LM Studio error: ${response.status} ${response.statusText} ${errorBody}`.trim(),
+          response.ok ? 502 : response.status
+        );
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        resetTimer();
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+
+          const data = line.slice(6).trim();
+          if (data === '[DONE]') continue;
+
+          try {
+            const chunk = JSON.parse(data);
+            yield {
+              content: chunk.choices?.[0]?.delta?.content,
+              // Sent as a final chunk when stream_options.include_usage is set
+              usage: chunk.usage ? this.toUsage(chunk.usage, chunk.model || options.model || this.model) : undefined
+            };
+          } catch (e) {
+            console.error('Failed to parse LM Studio stream data:', e);
+          }
+        }
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async collectCompletion(
+    requestMessages: LMStudioChatMessage[],
+    options: AIProviderOptions
+  ): Promise<{ reply: string; usage?: ChatResponse['usage'] }> {
+    let reply = '';
+    let usage: ChatResponse['usage'];
+
+    for await (const chunk of this.streamCompletion(requestMessages, options)) {
+      if (chunk.usage) usage = chunk.usage;
+      if (chunk.content) reply += chunk.content;
+    }
+
+    return { reply, usage };
+  }
+
+  private getRequestSignal(options: AIProviderOptions): AbortSignal {
+    const timeoutSignal = AbortSignal.timeout(this.timeout);
+    return options.signal
+      ? AbortSignal.any([timeoutSignal, options.signal])
+      : timeoutSignal;
+  }
+
+  /**
+   * Assemble system instructions, stored history and the new user turn
+   */
+  private async buildRequestMessages(
+    threadId: string,
+    messages: Message[],
+    options: AIProviderOptions
+  ): Promise<{ userContent: string; requestMessages: LMStudioChatMessage[] }> {
+    // Latest user message plus any system instructions from the caller
+    const latestMessage = messages[messages.length - 1];
+    const systemMessages = messages.filter(msg => msg.role === 'system');
+    const userContent = this.toText(latestMessage.content);
+
+    // Stored history, which also records the files attached on earlier turns
+    const history = await this.getThreadMessages(threadId);
+
+    // Inline extracted file text since LM Studio can't read files. History keeps
+    // only the bare questions, so every file on the thread is inlined each turn.
+    const fileContext = await LocalThreadStore.buildFileContext(
+      LocalThreadStore.collectFileIds(history, options.fileIds)
+    );
+    const promptContent = fileContext
+      ? `${userContent}\n\n${fileContext}`
+      : userContent;
+
+    // Rebuild conversation within the context budget when thread memory is on
+    const context = ThreadMemoryService.isEnabled()
+      ? await ThreadMemoryService.buildContext(
+          threadId,
+          history,
+          ThreadMemoryService.countTokens([...systemMessages, { role: 'user', content: promptContent }])
+        )
+      : { summary: undefined, messages: history.slice(-this.maxHistoryMessages) };
+
+    return {
+      userContent,
+      requestMessages: [
+        ...this.formatMessages(systemMessages),
+        ...(context.summary ? [{ role: 'system' as const, content: context.summary }] : []),
+        ...this.formatMessages(context.messages),
+        { role: 'user', content: promptContent }
+      ]
+    };
+  }
+
+  private buildRequestBody(
+    requestMessages: LMStudioChatMessage[],
+    options: AIProviderOptions
+  ) {
+    return {
+      model: options.model || this.model,
+      messages: requestMessages,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens || 2000,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...(options.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+      ...(options.outputSchema && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: options.outputSchema.name,
+            schema: options.outputSchema.schema,
+            strict: options.outputSchema.strict
+          }
+        }
+      })
+    };
+  }
+
+  private toUsage(
+    usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | undefined,
+    model: string
+  ): ChatResponse['usage'] {
+    return {
+      promptTokens: usage?.prompt_tokens || 0,
+      completionTokens: usage?.completion_tokens || 0,
+      totalTokens: usage?.total_tokens || 0,
+      model
+    };
+  }
+
+  private formatMessages(messages: Message[]): LMStudioChatMessage[] {
     // Convert internal message format to OpenAI-compatible format
     return messages.map(msg => ({
       role: msg.role,
-      content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
+      content: this.toText(msg.content)
     }));
   }
 
-  // Optional thread management (for Phase 3)
-  // LM Studio doesn't have native thread support, so we'll manage locally
-  
-  async createThread?(): Promise<string> {
+  private toText(content: Message['content']): string {
+    return typeof content === 'string' ? content : JSON.stringify(content);
+  }
+
+  // Thread management
+  // LM Studio doesn't have native thread support, so we manage it in Supabase
+
+  async createThread(history: Message[] = []): Promise<string> {
     // Generate a unique thread ID locally
-    return `lmstudio-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const threadId = LocalThreadStore.createThreadId(this.name);
+    await LocalThreadStore.seedThread(threadId, history);
+    return threadId;
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await LocalThreadStore.deleteThread(threadId);
   }
 
-  async deleteThread?(threadId: string): Promise<void> {
-    // Clean up any local thread storage
-    console.log(`Cleaning up thread: ${threadId}`);
+  async addTurn(threadId: string, userContent: string, reply: string): Promise<void> {
+    await LocalThreadStore.saveTurn(threadId, userContent, reply, []);
   }
 
-  async getThreadMessages?(threadId: string): Promise<Message[]> {
-    // Retrieve from local storage (to be implemented)
-    return [];
+  async getThreadMessages(threadId: string): Promise<Message[]> {
+    return LocalThreadStore.getMessages(threadId);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,256 @@
+// lib/providers/localThreadStore.ts
+import { supabaseServer } from '@/lib/supabase-server';
+import { TextExtractionService } from '@/services/textExtractionService';
+import { FileProcessingResult, Message } from './aiProvider.interface';
+
+/**
+ * Conversation history and extracted file text for local providers
+ * (LM Studio, Ollama), which have no server-side threads or file storage.
+ * Thread and file IDs are prefixed with the provider name.
+ */
+export class LocalThreadStore {
+  static createThreadId(provider: string): string {
+    return `${provider}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Whether a thread ID belongs to a local provider
+   */
+  static isLocalThread(threadId: string): boolean {
+    return threadId.startsWith('lmstudio-') || threadId.startsWith('ollama-');
+  }
+
+  /**
+   * Whether a file ID refers to locally extracted text rather than an OpenAI file
+   */
+  static isLocalFile(fileId: string): boolean {
+    return fileId.startsWith('lmstudio-file-') || fileId.startsWith('ollama-file-');
+  }
+
+  static async getMessages(threadId: string): Promise<Message[]> {
+    const { data, error } = await supabaseServer
+      .from('local_thread_messages')
+      .select('id, role, content, file_ids, created_at')
+      .eq('thread_id', threadId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error(`Failed to load local thread ${threadId}:`, error);
+      return [];
+    }
+
+    return (data || []).map(msg => ({
+      id: msg.id,
+      role: msg.role,
+      content: msg.content,
+      created_at: msg.created_at,
+      files: msg.file_ids || []
+    }));
+  }
+
+  /**
+   * Files attached anywhere in a thread plus those on the new turn, without repeats
+   */
+  static collectFileIds(history: Message[], fileIds: string[] = []): string[] {
+    const attached = history.flatMap(msg => (msg.files || []).filter((id): id is string => typeof id === 'string'));
+    return Array.from(new Set([...attached, ...fileIds]));
+  }
+
+  static async deleteThread(threadId: string): Promise<void> {
+    const { error } = await supabaseServer
+      .from('local_thread_messages')
+      .delete()
+      .eq('thread_id', threadId);
+
+    if (error) {
+      console.error(`Failed to delete local thread ${threadId}:`, error);
+    }
+  }
+
+  /**
+   * Store a user/assistant exchange; returns the assistant message ID
+   */
+  static async saveTurn(
+    threadId: string,
+    userContent: string,
+    reply: string,
+    fileIds: string[]
+  ): Promise<string | undefined> {
+    const now = Date.now();
+
+    const { data, error } = await supabaseServer
+      .from('local_thread_messages')
+      .insert([
+        {
+          thread_id: threadId,
+          role: 'user',
+          content: userContent,
+          file_ids: fileIds,
+          created_at: new Date(now).toISOString()
+        },
+        {
+          thread_id: threadId,
+          role: 'assistant',
+          content: reply,
+          file_ids: [],
+          created_at: new Date(now + 1).toISOString()
+        }
+      ])
+      .select('id');
+
+    if (error) {
+      // Response is still valid; only the follow-up context is lost
+      console.error(`Failed to save local thread history for ${threadId}:`, error);
+      return undefined;
+    }
+
+    return data?.[1]?.id;
+  }
+
+  /**
+   * Copy earlier messages into a new thread, keeping their order
+   */
+  static async seedThread(threadId: string, history: Message[]): Promise<void> {
+    const rows = history
+      .filter(msg => msg.role === 'user' || msg.role === 'assistant')
+      .map((msg, index) => ({
+        thread_id: threadId,
+        role: msg.role,
+        content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content),
+        file_ids: msg.files || [],
+        created_at: new Date(Date.now() - history.length + index).toISOString()
+      }));
+
+    if (rows.length === 0) return;
+
+    const { error } = await supabaseServer
+      .from('local_thread_messages')
+      .insert(rows);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Extract text from an upload and keep it for inclusion in prompts
+   */
+  static async storeFile(
+    provider: string,
+    file: Buffer,
+    fileType: string,
+    filename: string,
+    maxChars: number
+  ): Promise<FileProcessingResult> {
+    const extraction = TextExtractionService.extractText(file, fileType, filename, maxChars);
+
+    if (!extraction.text) {
+      return {
+        fileId: '',
+        error: `No text could be extracted from ${filename}`
+      };
+    }
+
+    const fileId = `${provider}-file-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    const { error } = await supabaseServer
+      .from('local_files')
+      .insert({
+        id: fileId,
+        provider,
+        filename,
+        content_type: fileType,
+        file_size: file.length,
+        extracted_text: extraction.text,
+        extraction_method: extraction.method,
+        truncated: extraction.truncated,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error('Failed to store extracted file text:', error);
+      return {
+        fileId: '',
+        error: 'Failed to store extracted file text'
+      };
+    }
+
+    return {
+      fileId,
+      extracted: extraction.text,
+      metadata: {
+        filename,
+        bytes: file.length,
+        method: extraction.method,
+        truncated: extraction.truncated
+      }
+    };
+  }
+
+  static async getFile(fileId: string): Promise<{ filename: string; contentType: string; size: number } | null> {
+    const { data, error } = await supabaseServer
+      .from('local_files')
+      .select('filename, content_type, file_size')
+      .eq('id', fileId)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error(`Failed to load local file ${fileId}:`, error);
+      return null;
+    }
+
+    return { filename: data.filename, contentType: data.content_type, size: data.file_size };
+  }
+
+  static async getExtractedText(fileId: string): Promise<string | null> {
+    const { data, error } = await supabaseServer
+      .from('local_files')
+      .select('extracted_text')
+      .eq('id', fileId)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to load local file ${fileId}:`, error);
+      return null;
+    }
+
+    return data?.extracted_text || null;
+  }
+
+  static async deleteFile(fileId: string): Promise<void> {
+    const { error } = await supabaseServer
+      .from('local_files')
+      .delete()
+      .eq('id', fileId);
+
+    if (error) {
+      console.error(`Failed to delete local file ${fileId}:`, error);
+    }
+  }
+
+  /**
+   * Build a prompt section from locally extracted file text
+   */
+  static async buildFileContext(fileIds: string[]): Promise<string> {
+    if (fileIds.length === 0) return '';
+
+    const { data: files, error } = await supabaseServer
+      .from('local_files')
+      .select('id, filename, extracted_text, truncated')
+      .in('id', fileIds);
+
+    if (error) {
+      console.error('Failed to load file context:', error);
+      return '';
+    }
+
+    if (!files || files.length === 0) return '';
+
+    let context = '[ATTACHED DOCUMENTS]';
+    for (const file of files) {
+      context += `\n\n--- ${file.filename}${file.truncated ? ' (truncated)' : ''} ---\n`;
+      context += file.extracted_text;
+    }
+    context += '\n\n[END ATTACHED DOCUMENTS]';
+
+    return context;
+  }
+}
@@ -0,0 +1,463 @@
+// lib/providers/ollamaProvider.ts
+import {
+  AIProvider,
+  AIProviderOptions,
+  ChatResponse,
+  ChatStreamEvent,
+  FileProcessingResult,
+  Message
+} from './aiProvider.interface';
+import { LocalThreadStore } from './localThreadStore';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { ThreadMemoryService } from '@/services/threadMemoryService';
+
+interface OllamaChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+interface OllamaChatChunk {
+  model?: string;
+  message?: { role: string; content: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * Ollama Provider
+ * Local LLM integration via Ollama's native API (/api/chat, /api/embeddings,
+ * /api/tags). Like LM Studio, conversation history and extracted file text
+ * are kept in Supabase. OLLAMA_URL can point at any server speaking the same
+ * protocol, e.g. scripts/ollama-stub-server.mjs for offline testing.
+ */
+export class OllamaProvider implements AIProvider {
+  name = 'ollama';
+  private baseUrl: string;
+  private model: string;
+  private embeddingModel: string;
+  private timeout: number;
+  private maxHistoryMessages: number;
+  private maxFileChars: number;
+
+  constructor() {
+    this.baseUrl = (process.env.OLLAMA_URL || 'http://localhost:11434').replace(/\/$/, '');
+    this.model = process.env.OLLAMA_MODEL || 'llama3.1';
+    this.embeddingModel = process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text';
+    this.timeout = parseInt(process.env.OLLAMA_TIMEOUT || '300000');
+    this.maxHistoryMessages = parseInt(process.env.OLLAMA_MAX_HISTORY || '20');
+    this.maxFileChars = parseInt(process.env.OLLAMA_MAX_FILE_CHARS || '20000');
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (process.env.OLLAMA_ENABLED !== 'true') {
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/tags`, {
+        method: 'GET',
+        signal: AbortSignal.timeout(5000)
+      });
+
+      return response.ok;
+    } catch (error) {
+      console.error('Ollama not available:', error);
+      return false;
+    }
+  }
+
+  async generateResponse(
+    messages: Message[],
+    options: AIProviderOptions
+  ): Promise<ChatResponse> {
+    const threadId = options.threadId || await this.createThread();
+
+    try {
+      const { userContent, requestMessages } = await this.buildRequestMessages(
+        threadId,
+        messages,
+        options
+      );
+
+      const response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(this.buildRequestBody(requestMessages, options, false)),
+        signal: this.getRequestSignal(options)
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new ApiError(`Ollama error: ${response.status} ${response.statusText} ${errorBody}`.trim(), response.status);
+      }
+
+      const data: OllamaChatChunk = await response.json();
+      const reply = data.message?.content || '';
+
+      if (!reply) {
+        throw new Error(data.error ? `Ollama error: ${data.error}` : 'Ollama returned an empty response');
+      }
+
+      const messageId = await LocalThreadStore.saveTurn(
+        threadId,
+        userContent,
+        reply,
+        options.fileIds || []
+      );
+
+      return {
+        reply,
+        threadId,
+        messageId,
+        status: 'completed',
+        provider: this.name,
+        usage: this.toUsage(data, data.model || options.model || this.model)
+      };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return { reply: '', threadId, status: 'cancelled', provider: this.name };
+      }
+
+      console.error('Ollama generation error:', error);
+      throw error;
+    }
+  }
+
+  async complete(
+    messages: Message[],
+    options: AIProviderOptions
+  ): Promise<ChatResponse> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.buildRequestBody(this.formatMessages(messages), options, false)),
+      signal: this.getRequestSignal(options)
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new ApiError(`Ollama error: ${response.status} ${response.statusText} ${errorBody}`.trim(), response.status);
+    }
+
+    const data: OllamaChatChunk = await response.json();
+    if (data.error) {
+      throw new Error(`Ollama error: ${data.error}`);
+    }
+
+    return {
+      reply: data.message?.content || '',
+      status: 'completed',
+      provider: this.name,
+      usage: this.toUsage(data, data.model || options.model || this.model)
+    };
+  }
+
+  async *streamResponse(
+    messages: Message[],
+    options: AIProviderOptions
+  ): AsyncGenerator<ChatStreamEvent> {
+    const threadId = options.threadId || await this.createThread();
+    yield { type: 'thread', threadId };
+
+    const { userContent, requestMessages } = await this.buildRequestMessages(
+      threadId,
+      messages,
+      options
+    );
+
+    let reply = '';
+    let usage: ChatResponse['usage'];
+    let status = 'completed';
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(this.buildRequestBody(requestMessages, options, true)),
+        signal: this.getRequestSignal(options)
+      });
+
+      if (!response.ok || !response.body) {
+        const errorBody = await response.text();
+        // Keep the HTTP status so client errors (bad model, context too long) don't count as outages
+        throw new ApiError(
+          `Ollama error: ${response.status} ${response.statusText} ${errorBody}`.trim(),
+          response.ok ? 502 : response.status
+        );
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // Ollama streams newline-delimited JSON objects
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+
+          let chunk: OllamaChatChunk;
+          try {
+            chunk = JSON.parse(line);
+          } catch (e) {
+            console.error('Failed to parse Ollama stream data:', e);
+            continue;
+          }
+
+          if (chunk.error) {
+            throw new Error(`Ollama error: ${chunk.error}`);
+          }
+
+          const content = chunk.message?.content;
+          if (content) {
+            reply += content;
+            yield { type: 'delta', content };
+          }
+
+          // The final object carries the token counts
+          if (chunk.done) {
+            usage = this.toUsage(chunk, chunk.model || options.model || this.model);
+          }
+        }
+      }
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        throw error;
+      }
+      status = 'cancelled';
+    }
+
+    if (!reply && status === 'completed') {
+      throw new Error('Ollama returned an empty response');
+    }
+
+    // Partial replies are kept too, so the thread shows where it was stopped
+    const messageId = reply
+      ? await LocalThreadStore.saveTurn(threadId, userContent, reply, options.fileIds || [])
+      : undefined;
+
+    yield {
+      type: 'done',
+      response: {
+        reply,
+        threadId,
+        messageId,
+        status,
+        provider: this.name,
+        usage
+      }
+    };
+  }
+
+  async processFile(
+    file: Buffer,
+    fileType: string,
+    filename: string
+  ): Promise<FileProcessingResult> {
+    try {
+      return await LocalThreadStore.storeFile(this.name, file, fileType, filename, this.maxFileChars);
+    } catch (error) {
+      console.error('Ollama file processing error:', error);
+      return {
+        fileId: '',
+        error: error instanceof Error ? error.message : 'Failed to process file'
+      };
+    }
+  }
+
+  async generateEmbeddings(text: string): Promise<number[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/embeddings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.embeddingModel,
+          prompt: text
+        }),
+        signal: AbortSignal.timeout(this.timeout)
+      });
+
+      if (!response.ok) {
+        throw new ApiError(`Ollama embeddings error: ${response.statusText}`, response.status);
+      }
+
+      const data = await response.json();
+      return data.embedding || [];
+    } catch (error) {
+      console.error('Ollama embedding error:', error);
+      return [];
+    }
+  }
+
+  async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+    try {
+      // /api/embed takes a list of inputs (the older /api/embeddings takes one prompt)
+      const response = await fetch(`${this.baseUrl}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.embeddingModel,
+          input: texts
+        }),
+        signal: AbortSignal.timeout(this.timeout)
+      });
+
+      if (!response.ok) {
+        throw new ApiError(`Ollama embeddings error: ${response.statusText}`, response.status);
+      }
+
+      const data = await response.json();
+      return texts.map((_, index) => data.embeddings?.[index] || []);
+    } catch (error) {
+      console.error('Ollama embedding error:', error);
+      return texts.map(() => []);
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/tags`, {
+        signal: AbortSignal.timeout(5000)
+      });
+
+      if (!response.ok) {
+        throw new ApiError(`Ollama models error: ${response.statusText}`, response.status);
+      }
+
+      const data = await response.json();
+      const models: string[] = (data.models || [])
+        .map((model: { name: string }) => model.name)
+        .filter((name: string) => !this.isEmbeddingModel(name));
+
+      return models.length > 0 ? models : [this.model];
+    } catch (error) {
+      console.error('Failed to list Ollama models:', error);
+      return [this.model];
+    }
+  }
+
+  // Private helper methods
+
+  private isEmbeddingModel(name: string): boolean {
+    // Tags list names with a tag suffix, e.g. nomic-embed-text:latest
+    return name === this.embeddingModel || name.split(':')[0] === this.embeddingModel;
+  }
+
+  private getRequestSignal(options: AIProviderOptions): AbortSignal {
+    const timeoutSignal = AbortSignal.timeout(this.timeout);
+    return options.signal
+      ? AbortSignal.any([timeoutSignal, options.signal])
+      : timeoutSignal;
+  }
+
+  /**
+   * Assemble system instructions, stored history and the new user turn
+   */
+  private async buildRequestMessages(
+    threadId: string,
+    messages: Message[],
+    options: AIProviderOptions
+  ): Promise<{ userContent: string; requestMessages: OllamaChatMessage[] }> {
+    const latestMessage = messages[messages.length - 1];
+    const systemMessages = messages.filter(msg => msg.role === 'system');
+    const userContent = this.toText(latestMessage.content);
+
+    // Earlier turns are stored without their files, so inline every file on the thread
+    const history = await this.getThreadMessages(threadId);
+    const fileContext = await LocalThreadStore.buildFileContext(
+      LocalThreadStore.collectFileIds(history, options.fileIds)
+    );
+    const promptContent = fileContext
+      ? `${userContent}\n\n${fileContext}`
+      : userContent;
+
+    const context = ThreadMemoryService.isEnabled()
+      ? await ThreadMemoryService.buildContext(
+          threadId,
+          history,
+          ThreadMemoryService.countTokens([...systemMessages, { role: 'user', content: promptContent }])
+        )
+      : { summary: undefined, messages: history.slice(-this.maxHistoryMessages) };
+
+    return {
+      userContent,
+      requestMessages: [
+        ...this.formatMessages(systemMessages),
+        ...(context.summary ? [{ role: 'system' as const, content: context.summary }] : []),
+        ...this.formatMessages(context.messages),
+        { role: 'user', content: promptContent }
+      ]
+    };
+  }
+
+  private buildRequestBody(
+    requestMessages: OllamaChatMessage[],
+    options: AIProviderOptions,
+    stream: boolean
+  ) {
+    return {
+      model: options.model || this.model,
+      messages: requestMessages,
+      stream,
+      options: {
+        temperature: options.temperature ?? 0.7,
+        num_predict: options.maxTokens || 2000
+      },
+      // Ollama takes the JSON Schema itself as the format
+      ...(options.responseFormat === 'json' && { format: 'json' }),
+      ...(options.outputSchema && { format: options.outputSchema.schema })
+    };
+  }
+
+  private toUsage(chunk: OllamaChatChunk, model: string): ChatResponse['usage'] {
+    const promptTokens = chunk.prompt_eval_count || 0;
+    const completionTokens = chunk.eval_count || 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      model
+    };
+  }
+
+  private formatMessages(messages: Message[]): OllamaChatMessage[] {
+    return messages.map(msg => ({
+      role: msg.role,
+      content: this.toText(msg.content)
+    }));
+  }
+
+  private toText(content: Message['content']): string {
+    return typeof content === 'string' ? content : JSON.stringify(content);
+  }
+
+  // Thread management
+  // Ollama is stateless, so history is kept in Supabase
+
+  async createThread(history: Message[] = []): Promise<string> {
+    const threadId = LocalThreadStore.createThreadId(this.name);
+    await LocalThreadStore.seedThread(threadId, history);
+    return threadId;
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await LocalThreadStore.deleteThread(threadId);
+  }
+
+  async addTurn(threadId: string, userContent: string, reply: string): Promise<void> {
+    await LocalThreadStore.saveTurn(threadId, userContent, reply, []);
+  }
+
+  async getThreadMessages(threadId: string): Promise<Message[]> {
+    return LocalThreadStore.getMessages(threadId);
+  }
+}
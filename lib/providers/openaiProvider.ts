@@ -1,18 +1,40 @@
 // lib/providers/openaiProvider.ts - SIMPLIFIED VERSION
-import { openaiClient } from '@/lib/clients';
+import { openaiClient, RunOverrides, RunStatus, ThreadMessage } from '@/lib/clients';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { AssistantToolCall, AssistantToolContext, AssistantToolService } from '@/services/assistantToolService';
+import { ThreadMemoryService } from '@/services/threadMemoryService';
+import type { MessageContent } from 'openai/resources/beta/threads/messages';
 import { 
   AIProvider, 
   AIProviderOptions, 
   ChatResponse, 
+  ChatStreamEvent,
+  FileAttachment,
   FileProcessingResult,
-  Message
+  Message,
+  UsageMetrics
 } from './aiProvider.interface';
 
 // ✅ SIMPLIFIED: Use openaiClient for all operations instead of direct OpenAI SDK
 
+// Polling configuration
+const MAX_RETRIES = parseInt(process.env.OPENAI_MAX_RETRIES || '300');
+const POLL_INTERVAL = parseInt(process.env.OPENAI_POLL_INTERVAL || '1000');
+const WEB_SEARCH_MAX_RETRIES = parseInt(process.env.OPENAI_WEB_SEARCH_MAX_RETRIES || '900');
+const WEB_SEARCH_POLL_INTERVAL = parseInt(process.env.OPENAI_WEB_SEARCH_POLL_INTERVAL || '2000');
+const MAX_TOOL_ROUNDS = parseInt(process.env.OPENAI_MAX_TOOL_ROUNDS || '5');
+// Messages accepted when creating a thread; the rest are added one by one
+const OPENAI_THREAD_SEED_LIMIT = 32;
+
+interface ThreadContext {
+  summary?: string; // Thread memory for the run's instructions
+  lastMessages: number; // Recent thread messages the run may see
+}
+
 export class OpenAIProvider implements AIProvider {
   name = 'openai';
   private assistantId: string;
+  private assistantTools?: Record<string, unknown>[];
 
   constructor() {
     this.assistantId = process.env.OPENAI_ASSISTANT_ID!;
@@ -32,6 +54,10 @@ export class OpenAIProvider implements AIProvider {
     messages: Message[],
     options: AIProviderOptions
   ): Promise<ChatResponse> {
+    if (!this.assistantId) {
+      throw new ApiError('Missing OpenAI configuration', 500, 'CONFIG_ERROR');
+    }
+
     try {
       // Get or create thread
       const threadId = options.threadId || await this.createThread();
@@ -40,19 +66,77 @@ export class OpenAIProvider implements AIProvider {
       const messageContent = messages[messages.length - 1].content;
       
       // Add message with file attachments
-      await openaiClient.addMessage(threadId, messageContent, options.fileIds);
+      await openaiClient.addMessage(
+        threadId,
+        messageContent,
+        options.fileIds && options.fileIds.length > 0 ? options.fileIds : undefined
+      );
       
       // Create and run assistant
-      const run = await openaiClient.createRun(threadId, this.assistantId);
-      
-      // Wait for completion
-      const completedRun = await openaiClient.waitForRunCompletion(
+      const toolContext = this.createToolContext(threadId, options);
+      const tools = await this.getRunTools(toolContext);
+      const context = await this.getThreadContext(threadId, messages);
+      const run = await openaiClient.createRun(
         threadId,
-        run.id,
-        options.webSearchEnabled ? 900 : 300, // More time for web search
-        options.webSearchEnabled ? 2000 : 1000 // Slower polling for web search
+        this.assistantId,
+        undefined,
+        this.getRunOverrides(messages, options, tools, context)
       );
       
+      // Wait for completion
+      const waitForRun = async () => {
+        try {
+          return await openaiClient.waitForRunCompletion(
+            threadId,
+            run.id,
+            options.webSearchEnabled ? WEB_SEARCH_MAX_RETRIES : MAX_RETRIES, // More time for web search
+            options.webSearchEnabled ? WEB_SEARCH_POLL_INTERVAL : POLL_INTERVAL, // Slower polling for web search
+            options.signal
+          );
+        } catch (error) {
+          console.error('Run polling failed:', error);
+          // Only the polling deadline is a timeout; auth, lookup and network errors keep their status
+          if (error instanceof ApiError && error.code === 'RUN_TIMEOUT') {
+            throw new ApiError('Assistant run timeout', 408, 'RUN_TIMEOUT');
+          }
+          throw error;
+        }
+      };
+
+      let completedRun = await waitForRun();
+
+      // Execute requested function calls until the run can finish
+      let toolRounds = 0;
+      while (
+        completedRun.status === 'requires_action' &&
+        completedRun.required_action?.type === 'submit_tool_outputs' &&
+        toolRounds < MAX_TOOL_ROUNDS &&
+        !options.signal?.aborted
+      ) {
+        toolRounds++;
+        const outputs = await AssistantToolService.executeToolCalls(
+          completedRun.required_action.submit_tool_outputs.tool_calls,
+          toolContext
+        );
+        await openaiClient.submitToolOutputs(threadId, run.id, outputs);
+        completedRun = await waitForRun();
+      }
+
+      // Stopped by the user; whatever the run wrote so far stays in the thread
+      if (completedRun.status === 'cancelled' ||
+          (options.signal?.aborted && completedRun.status !== 'completed')) {
+        if (completedRun.status !== 'cancelled') {
+          await this.cancelRun(threadId, run.id);
+        }
+        return {
+          reply: '',
+          threadId,
+          messageId: run.id,
+          status: 'cancelled',
+          provider: this.name
+        };
+      }
+      
       // Handle different run statuses
       if (completedRun.status === 'completed') {
         // Get the response messages
@@ -61,27 +145,47 @@ export class OpenAIProvider implements AIProvider {
         if (messagesResponse.data && messagesResponse.data.length > 0) {
           const assistantMessage = messagesResponse.data[0];
           const content = this.extractMessageContent(assistantMessage.content);
+          const files = this.extractFileOutputs(assistantMessage.content);
           
           return {
             reply: content,
             threadId,
             messageId: run.id,
-            provider: this.name
+            files: files.length > 0 ? files : undefined,
+            status: completedRun.status,
+            provider: this.name,
+            usage: this.buildUsage(completedRun, toolContext, await this.usedCodeInterpreter(threadId, run.id)),
+            ...this.getToolSearchResults(toolContext)
           };
         }
+
+        return {
+          reply: '',
+          threadId,
+          messageId: run.id,
+          status: completedRun.status,
+          provider: this.name
+        };
       } else if (completedRun.status === 'requires_action') {
-        // Handle tool outputs if needed
+        // Tool round limit reached; release the thread for the next message
         if (completedRun.required_action) {
+          await this.cancelRun(threadId, run.id);
           return {
             reply: 'Additional action required. Please try again.',
             threadId,
             messageId: run.id,
+            status: completedRun.status,
             provider: this.name
           };
         }
       }
       
-      throw new Error(`Run failed with status: ${completedRun.status}`);
+      throw new ApiError(
+        `Run failed with status: ${completedRun.status}`,
+        502,
+        'RUN_FAILED',
+        { threadId, runId: run.id, status: completedRun.status }
+      );
       
     } catch (error) {
       console.error('OpenAI generation error:', error);
@@ -89,6 +193,176 @@ export class OpenAIProvider implements AIProvider {
     }
   }
 
+  async *streamResponse(
+    messages: Message[],
+    options: AIProviderOptions
+  ): AsyncGenerator<ChatStreamEvent> {
+    if (!this.assistantId) {
+      throw new ApiError('Missing OpenAI configuration', 500, 'CONFIG_ERROR');
+    }
+
+    const threadId = options.threadId || await this.createThread();
+    yield { type: 'thread', threadId };
+
+    await openaiClient.addMessage(
+      threadId,
+      messages[messages.length - 1].content,
+      options.fileIds && options.fileIds.length > 0 ? options.fileIds : undefined
+    );
+
+    let runId: string | undefined;
+    let finalRun: RunStatus | undefined;
+    let codeInterpreterUsed = false;
+    let status = 'in_progress';
+    let partialReply = '';
+    const replies: string[] = [];
+    const files: FileAttachment[] = [];
+
+    const toolContext = this.createToolContext(threadId, options);
+    const tools = await this.getRunTools(toolContext);
+    const context = await this.getThreadContext(threadId, messages);
+    let events = openaiClient.streamRun(
+      threadId,
+      this.assistantId,
+      undefined,
+      this.getRunOverrides(messages, options, tools, context),
+      options.signal
+    );
+    let toolRounds = 0;
+
+    try {
+      while (true) {
+        let pendingToolCalls: AssistantToolCall[] = [];
+
+        for await (const { event, data } of events) {
+          switch (event) {
+            case 'thread.run.created':
+              runId = data.id;
+              yield { type: 'run', runId: data.id };
+              break;
+
+            case 'thread.message.delta':
+              for (const part of data.delta?.content || []) {
+                if (part.type === 'text' && part.text?.value) {
+                  partialReply += part.text.value;
+                  yield { type: 'delta', content: part.text.value };
+                }
+              }
+              break;
+
+            case 'thread.run.step.created':
+            case 'thread.run.step.completed':
+              if (data.step_details?.type === 'tool_calls') {
+                for (const toolCall of data.step_details.tool_calls || []) {
+                  if (toolCall.type === 'code_interpreter') codeInterpreterUsed = true;
+                  yield {
+                    type: 'tool',
+                    tool: toolCall.type,
+                    status: event === 'thread.run.step.created' ? 'started' : 'completed'
+                  };
+                }
+              }
+              break;
+
+            case 'thread.run.step.delta':
+              for (const toolCall of data.delta?.step_details?.tool_calls || []) {
+                const input = toolCall.code_interpreter?.input;
+                if (input) {
+                  yield { type: 'tool', tool: toolCall.type, status: 'in_progress', detail: input };
+                }
+              }
+              break;
+
+            case 'thread.message.completed':
+              replies.push(this.extractMessageContent(data.content));
+              files.push(...this.extractFileOutputs(data.content));
+              break;
+
+            case 'thread.run.requires_action':
+              status = data.status;
+              pendingToolCalls = data.required_action?.submit_tool_outputs?.tool_calls || [];
+              break;
+
+            case 'thread.run.completed':
+            case 'thread.run.failed':
+            case 'thread.run.cancelled':
+            case 'thread.run.expired':
+              status = data.status;
+              finalRun = data;
+              break;
+
+            case 'error':
+              throw new ApiError(data.message || 'Assistant stream failed', 502, 'STREAM_ERROR');
+          }
+        }
+
+        if (status !== 'requires_action' || pendingToolCalls.length === 0 || !runId || toolRounds >= MAX_TOOL_ROUNDS) {
+          break;
+        }
+
+        // Run the requested functions and continue the same run
+        toolRounds++;
+        const outputs = await AssistantToolService.executeToolCalls(pendingToolCalls, toolContext);
+        status = 'in_progress';
+        events = openaiClient.submitToolOutputsStream(threadId, runId, outputs, options.signal);
+      }
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        throw error;
+      }
+
+      // Stopped by the user; the partial message stays in the thread
+      if (runId) {
+        await this.cancelRun(threadId, runId);
+      }
+      status = 'cancelled';
+    }
+
+    if (status === 'cancelled') {
+      yield {
+        type: 'done',
+        response: {
+          reply: partialReply,
+          threadId,
+          messageId: runId,
+          status,
+          provider: this.name
+        }
+      };
+      return;
+    }
+
+    // Tool round limit reached; release the thread for the next message
+    if (status === 'requires_action' && runId) {
+      await this.cancelRun(threadId, runId);
+    }
+
+    if (!['completed', 'requires_action'].includes(status)) {
+      throw new ApiError(
+        `Run failed with status: ${status}`,
+        502,
+        'RUN_FAILED',
+        { threadId, runId, status }
+      );
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        reply: status === 'requires_action'
+          ? 'Additional action required. Please try again.'
+          : replies.filter(Boolean).join('\n\n'),
+        threadId,
+        messageId: runId,
+        files: files.length > 0 ? files : undefined,
+        status,
+        provider: this.name,
+        usage: finalRun ? this.buildUsage(finalRun, toolContext, codeInterpreterUsed) : undefined,
+        ...this.getToolSearchResults(toolContext)
+      }
+    };
+  }
+
   async processFile(
     file: Buffer,
     fileType: string,
@@ -116,14 +390,58 @@ export class OpenAIProvider implements AIProvider {
   }
 
   async generateEmbeddings(text: string): Promise<number[]> {
-    // This would need to be added to openaiClient if needed
-    // For now, return empty array as it's not used in current implementation
-    console.warn('Embeddings generation not implemented in openaiClient');
-    return [];
+    const model = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+    const response = await openaiClient.createEmbedding(text, model);
+    return response.data?.[0]?.embedding || [];
   }
 
-  async createThread(): Promise<string> {
-    const thread = await openaiClient.createThread();
+  async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+    const model = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+    const response = await openaiClient.createEmbedding(texts, model);
+
+    const embeddings: number[][] = texts.map(() => []);
+    for (const item of response.data || []) {
+      embeddings[item.index] = item.embedding;
+    }
+    return embeddings;
+  }
+
+  async complete(
+    messages: Message[],
+    options: AIProviderOptions
+  ): Promise<ChatResponse> {
+    const model = options.model || process.env.OPENAI_COMPLETION_MODEL || 'gpt-4o-mini';
+    const completion = await openaiClient.createChatCompletion(
+      model,
+      messages.map(msg => ({ role: msg.role, content: this.extractMessageContent(msg.content) })),
+      { temperature: options.temperature, maxTokens: options.maxTokens, responseFormat: this.getResponseFormat(options) }
+    );
+
+    return {
+      reply: completion.choices[0]?.message.content || '',
+      status: 'completed',
+      provider: this.name,
+      usage: completion.usage && {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+        totalTokens: completion.usage.total_tokens,
+        model: completion.model
+      }
+    };
+  }
+
+  async createThread(history: Message[] = []): Promise<string> {
+    // OpenAI threads are append-only, so a branch is a new thread replaying the history
+    const seed = history
+      .filter(msg => msg.role === 'user' || msg.role === 'assistant')
+      .map(msg => ({ role: msg.role as 'user' | 'assistant', content: this.extractMessageContent(msg.content) }))
+      .filter(msg => msg.content.trim());
+
+    const thread = await openaiClient.createThread(undefined, seed.slice(0, OPENAI_THREAD_SEED_LIMIT));
+    for (const message of seed.slice(OPENAI_THREAD_SEED_LIMIT)) {
+      await openaiClient.createMessage(thread.id, message);
+    }
+
     return thread.id;
   }
 
@@ -131,10 +449,38 @@ export class OpenAIProvider implements AIProvider {
     await openaiClient.deleteThread(threadId);
   }
 
+  async addTurn(threadId: string, userContent: string, reply: string): Promise<void> {
+    await openaiClient.createMessage(threadId, { role: 'user', content: userContent });
+    await openaiClient.createMessage(threadId, { role: 'assistant', content: reply });
+  }
+
+  async cancelRun(threadId: string, runId: string): Promise<void> {
+    try {
+      await openaiClient.cancelRun(threadId, runId);
+    } catch (error) {
+      // Run may have finished between the request and the cancel
+      console.error(`Failed to cancel run ${runId}:`, error);
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    return (process.env.OPENAI_MODEL_OPTIONS || 'gpt-4o-mini,gpt-4o')
+      .split(',')
+      .map(model => model.trim())
+      .filter(Boolean);
+  }
+
   async getThreadMessages(threadId: string): Promise<Message[]> {
-    const messagesResponse = await openaiClient.getMessages(threadId);
-    
-    return messagesResponse.data.map(msg => ({
+    // The API returns at most 100 messages per page
+    const threadMessages: ThreadMessage[] = [];
+    let after: string | undefined;
+    do {
+      const page = await openaiClient.getMessages(threadId, 100, 'asc', after);
+      threadMessages.push(...page.data);
+      after = page.has_more && page.data.length > 0 ? page.data[page.data.length - 1].id : undefined;
+    } while (after);
+
+    return threadMessages.map(msg => ({
       id: msg.id,
       role: msg.role as 'user' | 'assistant',
       content: this.extractMessageContent(msg.content),
@@ -159,6 +505,170 @@ export class OpenAIProvider implements AIProvider {
     return '';
   }
 
+  /**
+   * System messages (e.g. project instructions) become run-level additional instructions
+   */
+  private getSystemInstructions(messages: Message[]): string | undefined {
+    const instructions = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => this.extractMessageContent(msg.content))
+      .filter(Boolean)
+      .join('\n\n');
+
+    return instructions || undefined;
+  }
+
+  /**
+   * Per-request run settings; anything left undefined keeps the assistant's configuration
+   */
+  private getRunOverrides(
+    messages: Message[],
+    options: AIProviderOptions,
+    tools?: Record<string, unknown>[],
+    context?: ThreadContext
+  ): RunOverrides {
+    const instructions = [this.getSystemInstructions(messages), context?.summary]
+      .filter(Boolean)
+      .join('\n\n');
+
+    return {
+      additionalInstructions: instructions || undefined,
+      tools,
+      model: options.model,
+      temperature: options.temperature,
+      lastMessages: context?.lastMessages,
+      responseFormat: this.getResponseFormat(options)
+    };
+  }
+
+  /**
+   * Structured output when a schema is given; otherwise the assistant's own format applies
+   */
+  private getResponseFormat(options: AIProviderOptions): Record<string, unknown> | undefined {
+    if (!options.outputSchema) return undefined;
+
+    const { name, schema, strict } = options.outputSchema;
+    return { type: 'json_schema', json_schema: { name, schema, strict } };
+  }
+
+  /**
+   * Thread memory and the number of recent messages that fit the context
+   * budget, so long threads aren't left to OpenAI's own truncation.
+   * Called once the new user message is in the thread.
+   */
+  private async getThreadContext(threadId: string, messages: Message[]): Promise<ThreadContext | undefined> {
+    if (!ThreadMemoryService.isEnabled()) return undefined;
+
+    try {
+      // Newest first; the first entry is the message just added
+      const recent = await openaiClient.getMessages(threadId, 100, 'desc');
+      const history: Message[] = recent.data.slice(1).reverse().map(msg => ({
+        id: msg.id,
+        role: msg.role as 'user' | 'assistant',
+        content: this.extractMessageContent(msg.content),
+        created_at: new Date(msg.created_at * 1000).toISOString()
+      }));
+
+      const window = await ThreadMemoryService.buildContext(threadId, history, ThreadMemoryService.countTokens(messages));
+      return { summary: window.summary, lastMessages: window.messages.length + 1 };
+    } catch (error) {
+      console.error(`Failed to build context for thread ${threadId}:`, error);
+      return undefined;
+    }
+  }
+
+  private createToolContext(threadId: string, options: AIProviderOptions): AssistantToolContext {
+    return {
+      threadId,
+      projectId: options.projectId,
+      webSearchEnabled: options.webSearchEnabled,
+      deepResearch: options.deepResearch,
+      signal: options.signal,
+      searchSources: [],
+      searchCalls: 0
+    };
+  }
+
+  /**
+   * Assistant's own tools plus our function tools, or undefined to keep the assistant config
+   */
+  private async getRunTools(context: AssistantToolContext): Promise<Record<string, unknown>[] | undefined> {
+    if (!AssistantToolService.isEnabled()) return undefined;
+
+    // Run-level tools replace the assistant's, so keep its built-in ones
+    if (!this.assistantTools) {
+      const assistant = await openaiClient.getAssistant(this.assistantId);
+      this.assistantTools = (assistant.tools || []).filter(
+        (tool: { type: string }) => tool.type !== 'function'
+      );
+    }
+
+    return [...this.assistantTools!, ...AssistantToolService.getDefinitions(context)];
+  }
+
+  /**
+   * Token counts from the finished run plus the billable tool activity behind the reply
+   */
+  private buildUsage(
+    run: RunStatus,
+    context: AssistantToolContext,
+    codeInterpreterUsed: boolean
+  ): UsageMetrics | undefined {
+    if (!run.usage) return undefined;
+
+    return {
+      promptTokens: run.usage.prompt_tokens,
+      completionTokens: run.usage.completion_tokens,
+      totalTokens: run.usage.total_tokens,
+      model: run.model,
+      searchCalls: context.searchCalls,
+      // Sessions span a thread-hour; counting each run that used one is an upper bound
+      codeInterpreterSessions: codeInterpreterUsed ? 1 : 0
+    };
+  }
+
+  private async usedCodeInterpreter(threadId: string, runId: string): Promise<boolean> {
+    try {
+      const steps = await openaiClient.getRunSteps(threadId, runId);
+      return steps.data.some(step =>
+        step.step_details?.type === 'tool_calls' &&
+        (step.step_details.tool_calls || []).some(call => call.type === 'code_interpreter')
+      );
+    } catch (error) {
+      console.error(`Failed to load steps for run ${runId}:`, error);
+      return false;
+    }
+  }
+
+  private getToolSearchResults(context: AssistantToolContext): Partial<ChatResponse> {
+    if (context.searchSources.length === 0) return {};
+    return { webSearchPerformed: true, searchSources: context.searchSources };
+  }
+
+  private extractFileOutputs(content: MessageContent[]): FileAttachment[] {
+    if (!Array.isArray(content)) {
+      return [];
+    }
+
+    // Code interpreter outputs come back as image_file items, or as file_path
+    // annotations (sandbox:/mnt/data/report.docx links) on the reply text
+    return content.flatMap((item): FileAttachment[] => {
+      if (item.type === 'image_file') {
+        return item.image_file?.file_id
+          ? [{ file_id: item.image_file.file_id, filename: 'Generated image', content_type: 'image/png' }]
+          : [];
+      }
+      if (item.type === 'text') {
+        return (item.text.annotations || []).flatMap((annotation): FileAttachment[] =>
+          annotation.type === 'file_path' && annotation.file_path?.file_id
+            ? [{ file_id: annotation.file_path.file_id, filename: annotation.text.split('/').pop() || 'Generated file' }]
+            : []
+        );
+      }
+      return [];
+    });
+  }
+
   private determineTools(fileIds: string[]): string[] {
     // For now, always use code_interpreter for files
     // This could be enhanced to detect file types and choose appropriate tools
@@ -1,13 +1,19 @@
 // lib/providers/providerFactory.ts
 import { AIProvider } from './aiProvider.interface';
+import { CircuitBreaker, getCircuitBreakerConfig } from './circuitBreaker';
+
+// Average latency, as a multiple of the fastest candidate's, past which a provider is routed after healthier ones (0 disables)
+const DEGRADED_LATENCY_FACTOR = parseFloat(process.env.PROVIDER_DEGRADED_LATENCY_FACTOR || '2');
 
 export class ProviderFactory {
   private static providers: Map<string, AIProvider> = new Map();
+  private static breakers: Map<string, CircuitBreaker> = new Map();
+  private static verified: Set<string> = new Set();
   
   /**
-   * Create or get cached provider instance
+   * Create or get cached provider instance, without checking availability
    */
-  static async createProvider(type: string): Promise<AIProvider> {
+  static async getProvider(type: string): Promise<AIProvider> {
     // Check cache first
     if (this.providers.has(type)) {
       return this.providers.get(type)!;
@@ -26,27 +32,74 @@ export class ProviderFactory {
         const { LMStudioProvider } = await import('./lmStudioProvider');
         provider = new LMStudioProvider();
         break;
+      case 'ollama':
+        // Dynamic import to avoid circular dependencies
+        const { OllamaProvider } = await import('./ollamaProvider');
+        provider = new OllamaProvider();
+        break;
       default:
         throw new Error(`Unknown provider type: ${type}`);
     }
     
-    // Verify availability
-    const isAvailable = await provider.isAvailable();
-    if (!isAvailable) {
-      throw new Error(`Provider ${type} is not available`);
-    }
-    
     // Cache for reuse
     this.providers.set(type, provider);
     
     return provider;
   }
+
+  /**
+   * Get a provider that is currently able to take requests
+   */
+  static async createProvider(type: string): Promise<AIProvider> {
+    const provider = await this.getProvider(type);
+
+    if (!(await this.checkProvider(type))) {
+      throw new Error(`Provider ${type} is not available`);
+    }
+    
+    return provider;
+  }
+
+  /**
+   * Circuit breaker tracking failures and latency for a provider
+   */
+  static getBreaker(type: string): CircuitBreaker {
+    if (!this.breakers.has(type)) {
+      this.breakers.set(type, new CircuitBreaker(type));
+    }
+    return this.breakers.get(type)!;
+  }
+
+  /**
+   * Providers from the priority list that can take a request, healthiest first.
+   * Open circuits are skipped until their cooldown ends and a probe passes;
+   * degraded providers move behind healthy ones, otherwise priority order holds.
+   */
+  static async selectProviders(priority: string[]): Promise<{ type: string; provider: AIProvider }[]> {
+    const candidates: { type: string; provider: AIProvider }[] = [];
+
+    for (const type of priority) {
+      try {
+        if (await this.checkProvider(type)) {
+          candidates.push({ type, provider: await this.getProvider(type) });
+        }
+      } catch (error) {
+        console.error(`Failed to load provider ${type}:`, error);
+      }
+    }
+
+    const degraded = this.findDegraded(candidates.map(candidate => candidate.type));
+    // Stable sort, so priority order holds within each group
+    return candidates.sort((a, b) => Number(degraded.has(a.type)) - Number(degraded.has(b.type)));
+  }
   
   /**
-   * Clear provider cache
+   * Clear provider cache and circuit state
    */
   static clearCache(): void {
     this.providers.clear();
+    this.breakers.clear();
+    this.verified.clear();
   }
   
   /**
@@ -54,11 +107,11 @@ export class ProviderFactory {
    */
   static async getAvailableProviders(): Promise<string[]> {
     const available: string[] = [];
-    const types = ['openai', 'lmstudio'];
+    const types = ['openai', 'lmstudio', 'ollama'];
     
     for (const type of types) {
       try {
-        const provider = await this.createProvider(type);
+        const provider = await this.getProvider(type);
         if (await provider.isAvailable()) {
           available.push(type);
         }
@@ -69,4 +122,57 @@ export class ProviderFactory {
     
     return available;
   }
-}
\ No newline at end of file
+
+  /**
+   * Probe availability on first use and whenever an open circuit's cooldown ends
+   */
+  private static async checkProvider(type: string): Promise<boolean> {
+    const breaker = this.getBreaker(type);
+    const needsProbe = breaker.isProbeDue() ||
+      (breaker.getState() === 'closed' && !this.verified.has(type));
+
+    if (needsProbe) {
+      const provider = await this.getProvider(type);
+      let available = false;
+      try {
+        available = await provider.isAvailable();
+      } catch {
+        available = false;
+      }
+
+      if (breaker.getState() === 'closed' && available) {
+        this.verified.add(type);
+      } else {
+        breaker.recordProbe(available, available ? undefined : `Provider ${type} is not available`);
+      }
+    }
+
+    return breaker.canRequest();
+  }
+
+  /**
+   * Providers whose recent calls show trouble short of opening the circuit:
+   * an error rate past half the opening threshold, or an average latency well
+   * above the fastest candidate's. Half-open circuits aren't judged, so their
+   * trial request still goes out.
+   */
+  private static findDegraded(types: string[]): Set<string> {
+    const config = getCircuitBreakerConfig();
+    const measured = types
+      .map(type => ({ type, stats: this.getBreaker(type).snapshot() }))
+      .filter(({ stats }) => stats.state === 'closed' && stats.calls >= config.minCalls);
+
+    const latencies = measured
+      .map(({ stats }) => stats.avgLatencyMs)
+      .filter((latency): latency is number => latency !== null && latency > 0);
+    const fastest = latencies.length > 1 ? Math.min(...latencies) : null;
+
+    return new Set(measured
+      .filter(({ stats }) =>
+        stats.errorRate >= config.errorRateThreshold / 2 ||
+        (fastest !== null && DEGRADED_LATENCY_FACTOR > 0 &&
+          (stats.avgLatencyMs || 0) > fastest * DEGRADED_LATENCY_FACTOR)
+      )
+      .map(({ type }) => type));
+  }
+}
@@ -0,0 +1,100 @@
+// lib/search/fixtureSearchProvider.ts
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { matchesDomain } from './searchDomains';
+import { SearchProvider, WebSearchOptions, WebSearchResponse, WebSearchResult } from './searchProvider.interface';
+
+interface SearchFixture {
+  match: string[]; // Every keyword must appear in the query (case-insensitive)
+  answer?: string;
+  results: WebSearchResult[];
+}
+
+interface SearchFixtureFile {
+  fixtures: SearchFixture[];
+  fallback?: Omit<SearchFixture, 'match'>; // Used when no fixture matches
+}
+
+/**
+ * Fixture Provider
+ * Offline search that answers from a JSON file, for CI, tests and demos.
+ * The first fixture whose keywords all appear in the query wins, so the
+ * same query always gets the same results and nothing goes over the network.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  name = 'fixture';
+  label = 'Offline fixtures';
+  cacheable = false; // Already local and deterministic
+  private fixturePath: string;
+  private fixtures: Promise<SearchFixtureFile> | null = null;
+
+  constructor() {
+    this.fixturePath = path.resolve(process.cwd(), process.env.SEARCH_FIXTURES_PATH || 'fixtures/search.json');
+  }
+
+  isConfigured(): boolean {
+    // The file is only read on first search; a missing file fails that search
+    return true;
+  }
+
+  async search(options: WebSearchOptions): Promise<WebSearchResponse> {
+    const { fixtures, fallback } = await this.loadFixtures();
+    const query = options.query.toLowerCase();
+
+    const fixture = fixtures.find(candidate =>
+      candidate.match.length > 0 && candidate.match.every(keyword => query.includes(keyword.toLowerCase()))
+    ) || fallback;
+
+    const included = options.includeDomains || [];
+    const excluded = options.excludeDomains || [];
+    const results = (fixture?.results || [])
+      .filter(result => included.length === 0 || included.some(domain => matchesDomain(result.url, domain)))
+      .filter(result => !excluded.some(domain => matchesDomain(result.url, domain)))
+      .slice(0, options.maxResults || 5);
+
+    return { query: options.query, answer: fixture?.answer, results, provider: this.name };
+  }
+
+  // Private helper methods
+
+  private loadFixtures(): Promise<SearchFixtureFile> {
+    if (!this.fixtures) {
+      this.fixtures = readFile(this.fixturePath, 'utf8')
+        .then(content => this.parseFixtures(JSON.parse(content)))
+        .catch(error => {
+          this.fixtures = null; // Retry on the next search, e.g. after the file is fixed
+          if (error instanceof ApiError) throw error;
+          throw new ApiError(`Could not load search fixtures from ${this.fixturePath}`, 500, 'SEARCH_FIXTURES_INVALID', {
+            reason: error instanceof Error ? error.message : String(error)
+          });
+        });
+    }
+    return this.fixtures;
+  }
+
+  private parseFixtures(data: unknown): SearchFixtureFile {
+    const file = data as Partial<SearchFixtureFile> | null;
+    if (!file || !Array.isArray(file.fixtures)) {
+      throw new ApiError('Search fixture file must have a `fixtures` array', 500, 'SEARCH_FIXTURES_INVALID');
+    }
+
+    for (const fixture of [...file.fixtures, ...(file.fallback ? [{ match: [], ...file.fallback }] : [])]) {
+      if (!Array.isArray(fixture.match) || !Array.isArray(fixture.results) ||
+          !fixture.results.every(result => result && typeof result.title === 'string' && typeof result.url === 'string')) {
+        throw new ApiError('Each search fixture needs `match` keywords and `results` with title and url', 500, 'SEARCH_FIXTURES_INVALID');
+      }
+    }
+
+    return {
+      fixtures: file.fixtures.map(fixture => ({
+        ...fixture,
+        results: fixture.results.map(result => ({ ...result, content: result.content || '' }))
+      })),
+      fallback: file.fallback && {
+        ...file.fallback,
+        results: file.fallback.results.map(result => ({ ...result, content: result.content || '' }))
+      }
+    };
+  }
+}
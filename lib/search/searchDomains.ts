@@ -0,0 +1,62 @@
+// lib/search/searchDomains.ts
+
+/**
+ * Lowercase hostname of a URL without a leading www., or '' when unparsable
+ */
+export function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Whether a URL is on a domain or one of its subdomains
+ * (gov.gd matches www.gov.gd and health.gov.gd, not notgov.gd)
+ */
+export function matchesDomain(url: string, domain: string): boolean {
+  const hostname = getHostname(url);
+  const target = domain.toLowerCase().replace(/^www\./, '');
+  return !!hostname && (hostname === target || hostname.endsWith(`.${target}`));
+}
+
+const DOMAIN_PATTERN = /^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * Bare lowercase domain from user input ("https://www.gov.bb/x" -> "gov.bb"),
+ * or null when it is not a domain
+ */
+export function normalizeDomain(input: string): string | null {
+  const domain = input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '')
+    .replace(/^\*?\./, '')
+    .replace(/^www\./, '');
+  return DOMAIN_PATTERN.test(domain) ? domain : null;
+}
+
+/**
+ * Reorder results so preferred domains rise. Each result keeps a position
+ * score (1 for the top result down towards 0), multiplied by 1 + the weight
+ * of the most specific preferred domain it is on; ties keep the backend's order.
+ */
+export function rankByPreference<T extends { url: string }>(
+  results: T[],
+  preferred: { domain: string; weight: number }[]
+): T[] {
+  if (preferred.length === 0) return results;
+
+  return results
+    .map((result, index) => {
+      const weight = preferred
+        .filter(entry => matchesDomain(result.url, entry.domain))
+        .sort((a, b) => b.domain.length - a.domain.length)[0]?.weight || 0;
+      return { result, index, score: (1 - index / results.length) * (1 + weight) };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.result);
+}
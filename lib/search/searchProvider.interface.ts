@@ -0,0 +1,46 @@
+// lib/search/searchProvider.interface.ts
+
+// Decides how long cached results stay fresh
+export type SearchType = 'general' | 'news' | 'reference';
+
+export interface WebSearchOptions {
+  query: string;
+  searchType?: SearchType; // Default general
+  maxResults?: number;
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  signal?: AbortSignal;
+}
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  content: string;
+  score?: number;
+  publishedDate?: string;
+}
+
+export interface WebSearchResponse {
+  query: string;
+  answer?: string; // Summary answer, when the backend produces one
+  results: WebSearchResult[];
+  provider: string; // Backend that answered
+  cached?: boolean; // Served from the search cache
+}
+
+export interface SearchProvider {
+  name: string;
+  label: string;
+  cacheable: boolean; // Whether results are worth keeping in the search cache
+
+  /**
+   * Whether the deployment has the settings this backend needs.
+   * Checked without a live request so health probes cost nothing.
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Run a web search
+   */
+  search(options: WebSearchOptions): Promise<WebSearchResponse>;
+}
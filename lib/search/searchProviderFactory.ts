@@ -0,0 +1,81 @@
+// lib/search/searchProviderFactory.ts
+import { SearchProvider } from './searchProvider.interface';
+import { TavilySearchProvider } from './tavilySearchProvider';
+import { SearxngSearchProvider } from './searxngSearchProvider';
+import { FixtureSearchProvider } from './fixtureSearchProvider';
+
+export const SEARCH_PROVIDER_TYPES = ['tavily', 'searxng', 'fixture'] as const;
+export type SearchProviderType = typeof SEARCH_PROVIDER_TYPES[number];
+
+export interface SearchProviderInfo {
+  name: SearchProviderType;
+  label: string;
+  configured: boolean;
+}
+
+export class SearchProviderFactory {
+  private static providers: Map<SearchProviderType, SearchProvider> = new Map();
+
+  /**
+   * Whether a string names a known search backend
+   */
+  static isSupported(type: unknown): type is SearchProviderType {
+    return typeof type === 'string' && (SEARCH_PROVIDER_TYPES as readonly string[]).includes(type);
+  }
+
+  /**
+   * Deployment default from SEARCH_PROVIDER (tavily when unset or unknown)
+   */
+  static getDefaultType(): SearchProviderType {
+    const configured = process.env.SEARCH_PROVIDER?.trim().toLowerCase();
+    if (configured && !this.isSupported(configured)) {
+      console.error(`Unknown SEARCH_PROVIDER "${configured}", using tavily`);
+    }
+    return this.isSupported(configured) ? configured : 'tavily';
+  }
+
+  /**
+   * Create or get cached provider instance
+   */
+  static getProvider(type: SearchProviderType): SearchProvider {
+    if (this.providers.has(type)) {
+      return this.providers.get(type)!;
+    }
+
+    let provider: SearchProvider;
+
+    switch (type) {
+      case 'tavily':
+        provider = new TavilySearchProvider();
+        break;
+      case 'searxng':
+        provider = new SearxngSearchProvider();
+        break;
+      case 'fixture':
+        provider = new FixtureSearchProvider();
+        break;
+      default:
+        throw new Error(`Unknown search provider type: ${type}`);
+    }
+
+    this.providers.set(type, provider);
+    return provider;
+  }
+
+  /**
+   * Every backend with whether this deployment has it configured
+   */
+  static listProviders(): SearchProviderInfo[] {
+    return SEARCH_PROVIDER_TYPES.map(type => {
+      const provider = this.getProvider(type);
+      return { name: type, label: provider.label, configured: provider.isConfigured() };
+    });
+  }
+
+  /**
+   * Clear provider cache (e.g. after changing env in tests)
+   */
+  static clearCache(): void {
+    this.providers.clear();
+  }
+}
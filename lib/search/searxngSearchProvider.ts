@@ -0,0 +1,121 @@
+// lib/search/searxngSearchProvider.ts
+import HttpClient from '@/lib/clients/httpClient';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { matchesDomain } from './searchDomains';
+import { SearchProvider, WebSearchOptions, WebSearchResponse } from './searchProvider.interface';
+
+interface SearxngResult {
+  title?: string;
+  url?: string;
+  content?: string;
+  score?: number;
+  publishedDate?: string | null;
+}
+
+interface SearxngResponse {
+  query: string;
+  answers?: Array<string | { answer?: string }>;
+  results?: SearxngResult[];
+}
+
+/**
+ * SearXNG Provider
+ * Self-hosted metasearch, so queries never leave infrastructure the client
+ * controls. The instance must have the JSON output format enabled
+ * (search.formats in settings.yml). SearXNG has no domain filter
+ * parameter, so allowed domains become site: terms and results are
+ * filtered here.
+ */
+export class SearxngSearchProvider implements SearchProvider {
+  name = 'searxng';
+  label = 'SearXNG (self-hosted)';
+  cacheable = true;
+  private client: HttpClient;
+  private baseUrl?: string;
+  private engines?: string;
+  private language?: string;
+  private maxResults: number;
+
+  constructor() {
+    this.baseUrl = process.env.SEARXNG_URL?.replace(/\/+$/, '');
+    this.engines = process.env.SEARXNG_ENGINES; // Optional, e.g. "google,bing,duckduckgo"
+    this.language = process.env.SEARXNG_LANGUAGE; // Optional, e.g. "en"
+    this.maxResults = parseInt(process.env.SEARXNG_MAX_RESULTS || '5');
+
+    this.client = new HttpClient({
+      timeout: parseInt(process.env.SEARXNG_TIMEOUT || '20000'),
+      retries: 2,
+      headers: {
+        Accept: 'application/json',
+        // Optional, for instances behind a proxy that checks a token
+        ...(process.env.SEARXNG_AUTH_HEADER && { Authorization: process.env.SEARXNG_AUTH_HEADER })
+      }
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async search(options: WebSearchOptions): Promise<WebSearchResponse> {
+    if (!this.baseUrl) {
+      throw new ApiError('SEARXNG_URL is not set', 503, 'SEARCH_NOT_CONFIGURED');
+    }
+
+    const params = new URLSearchParams({
+      q: this.buildQuery(options),
+      format: 'json',
+      safesearch: '1'
+    });
+    if (options.searchType === 'news') params.set('categories', 'news');
+    if (this.engines) params.set('engines', this.engines);
+    if (this.language) params.set('language', this.language);
+
+    let response: SearxngResponse;
+    try {
+      response = await this.client.get<SearxngResponse>(`${this.baseUrl}/search?${params}`, {
+        signal: options.signal
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 403) {
+        throw new ApiError('SearXNG refused the request; enable the json format in its settings', 502, 'SEARCH_FAILED');
+      }
+      throw error;
+    }
+
+    const limit = options.maxResults || this.maxResults;
+    const results = (response.results || [])
+      .filter(result => result.url && result.title)
+      .filter(result => this.isAllowed(result.url!, options))
+      .slice(0, limit)
+      .map(result => ({
+        title: result.title!,
+        url: result.url!,
+        content: result.content || '',
+        score: result.score,
+        publishedDate: result.publishedDate || undefined
+      }));
+
+    const answer = response.answers
+      ?.map(item => typeof item === 'string' ? item : item.answer)
+      .find(Boolean);
+
+    return { query: options.query, answer, results, provider: this.name };
+  }
+
+  // Private helper methods
+
+  private buildQuery(options: WebSearchOptions): string {
+    const sites = (options.includeDomains || []).map(domain => `site:${domain}`);
+    if (sites.length === 0) return options.query;
+    return `${options.query} (${sites.join(' OR ')})`;
+  }
+
+  private isAllowed(url: string, options: WebSearchOptions): boolean {
+    const included = options.includeDomains || [];
+    const excluded = options.excludeDomains || [];
+
+    if (included.length > 0 && !included.some(domain => matchesDomain(url, domain))) return false;
+    return !excluded.some(domain => matchesDomain(url, domain));
+  }
+}
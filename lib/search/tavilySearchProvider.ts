@@ -0,0 +1,41 @@
+// lib/search/tavilySearchProvider.ts
+import { tavilyClient } from '@/lib/clients';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { SearchProvider, WebSearchOptions, WebSearchResponse } from './searchProvider.interface';
+
+/**
+ * Tavily Provider
+ * Hosted search API (US SaaS) with summary answers and server-side
+ * domain filtering. Caching and rate limiting live in tavilyClient.
+ */
+export class TavilySearchProvider implements SearchProvider {
+  name = 'tavily';
+  label = 'Tavily';
+  cacheable = true;
+
+  isConfigured(): boolean {
+    return !!tavilyClient;
+  }
+
+  async search(options: WebSearchOptions): Promise<WebSearchResponse> {
+    if (!tavilyClient) {
+      throw new ApiError('TAVILY_API_KEY is not set', 503, 'SEARCH_NOT_CONFIGURED');
+    }
+
+    const response = await tavilyClient.search({
+      query: options.query,
+      topic: options.searchType === 'news' ? 'news' : 'general',
+      maxResults: options.maxResults,
+      includeDomains: options.includeDomains?.length ? options.includeDomains : undefined,
+      excludeDomains: options.excludeDomains?.length ? options.excludeDomains : undefined,
+      signal: options.signal
+    });
+
+    return {
+      query: response.query,
+      answer: response.answer,
+      results: response.results || [],
+      provider: this.name
+    };
+  }
+}
@@ -93,6 +93,45 @@ export class RateLimitError extends ApiError {
   }
 }
 
+// Budget Exceeded Error
+export class BudgetExceededError extends ApiError {
+  public readonly budget: Record<string, unknown>;
+
+  constructor(message: string, budget: Record<string, unknown>) {
+    super(message, 402, 'BUDGET_EXCEEDED');
+    this.name = 'BudgetExceededError';
+    this.budget = budget;
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      budget: this.budget,
+    };
+  }
+}
+
+// Structured answer that still fails its JSON Schema after repair attempts
+export class SchemaValidationError extends ApiError {
+  public readonly errors: string[];
+  public readonly threadId?: string;
+
+  constructor(message: string, errors: string[], threadId?: string) {
+    super(message, 422, 'SCHEMA_VALIDATION_FAILED');
+    this.name = 'SchemaValidationError';
+    this.errors = errors;
+    this.threadId = threadId;
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      errors: this.errors,
+      threadId: this.threadId,
+    };
+  }
+}
+
 // Error code constants
 export const ERROR_CODES = {
   // Client errors
@@ -107,6 +146,7 @@ export const ERROR_CODES = {
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   DATABASE_ERROR: 'DATABASE_ERROR',
   EXTERNAL_SERVICE_ERROR: 'EXTERNAL_SERVICE_ERROR',
+  PROVIDER_UNAVAILABLE: 'PROVIDER_UNAVAILABLE',
   
   // File errors
   FILE_TOO_LARGE: 'FILE_TOO_LARGE',
@@ -120,6 +160,9 @@ export const ERROR_CODES = {
   // Storage specific
   QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
   INVALID_TOKEN: 'INVALID_TOKEN',
+  
+  // Usage budgets
+  BUDGET_EXCEEDED: 'BUDGET_EXCEEDED',
 } as const;
 
 // Type guard to check if error is ApiError
@@ -137,6 +180,8 @@ export function createErrorResponse(error: any) {
         status: error.status,
         ...(error instanceof ValidationError && { fields: error.fields }),
         ...(error instanceof RateLimitError && { retryAfter: error.retryAfter }),
+        ...(error instanceof BudgetExceededError && { budget: error.budget }),
+        ...(error instanceof SchemaValidationError && { errors: error.errors, threadId: error.threadId }),
       },
     };
   }
@@ -0,0 +1,221 @@
+// lib/utils/jsonSchema.ts
+
+export type JsonSchema = Record<string, unknown>;
+
+// Validation stops collecting after this many problems
+const MAX_ERRORS = 20;
+
+/**
+ * Validate a value against a JSON Schema. Covers the keywords used for
+ * structured output (type, enum, const, properties, required,
+ * additionalProperties, items, length/size/range limits, pattern, anyOf,
+ * oneOf, allOf, local $ref); unknown keywords such as format are ignored.
+ * Returns readable errors, empty when the value matches.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, schema, '$', errors);
+  return errors.slice(0, MAX_ERRORS);
+}
+
+/**
+ * Whether a schema meets OpenAI's strict structured-output rules: every
+ * object lists all its properties as required and allows no others, and
+ * only anyOf is used for alternatives
+ */
+export function isStrictSchema(schema: JsonSchema): boolean {
+  if ('oneOf' in schema || 'allOf' in schema || 'not' in schema) return false;
+
+  const properties = asSchemaMap(schema.properties);
+  if (properties || schemaTypes(schema).includes('object')) {
+    const keys = Object.keys(properties || {});
+    const required = Array.isArray(schema.required) ? schema.required : [];
+    if (schema.additionalProperties !== false || !keys.every(key => required.includes(key))) {
+      return false;
+    }
+  }
+
+  const children = [
+    ...Object.values(properties || {}),
+    ...Object.values(asSchemaMap(schema.$defs) || {}),
+    ...Object.values(asSchemaMap(schema.definitions) || {}),
+    ...(isSchema(schema.items) ? [schema.items] : []),
+    ...(Array.isArray(schema.anyOf) ? schema.anyOf.filter(isSchema) : [])
+  ];
+  return children.every(child => isStrictSchema(child));
+}
+
+// Private helper functions
+
+function validateNode(value: unknown, schema: JsonSchema, root: JsonSchema, path: string, errors: string[]): void {
+  if (errors.length >= MAX_ERRORS) return;
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(schema.$ref, root);
+    if (!target) {
+      errors.push(`${path}: unresolvable $ref ${schema.$ref}`);
+      return;
+    }
+    validateNode(value, target, root, path, errors);
+    return;
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    errors.push(`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`);
+    return;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') validateString(value, schema, path, errors);
+  if (typeof value === 'number') validateNumber(value, schema, path, errors);
+  if (Array.isArray(value)) validateArray(value, schema, root, path, errors);
+  if (isPlainObject(value)) validateObject(value, schema, root, path, errors);
+
+  validateCombinators(value, schema, root, path, errors);
+}
+
+function validateString(value: string, schema: JsonSchema, path: string, errors: string[]): void {
+  if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+    errors.push(`${path}: must be at least ${schema.minLength} characters`);
+  }
+  if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+    errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+  }
+  if (typeof schema.pattern === 'string') {
+    try {
+      if (!new RegExp(schema.pattern, 'u').test(value)) {
+        errors.push(`${path}: must match ${schema.pattern}`);
+      }
+    } catch {
+      errors.push(`${path}: schema pattern ${schema.pattern} is not a valid regular expression`);
+    }
+  }
+}
+
+function validateNumber(value: number, schema: JsonSchema, path: string, errors: string[]): void {
+  if (typeof schema.minimum === 'number' && value < schema.minimum) {
+    errors.push(`${path}: must be >= ${schema.minimum}`);
+  }
+  if (typeof schema.maximum === 'number' && value > schema.maximum) {
+    errors.push(`${path}: must be <= ${schema.maximum}`);
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+    errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+    errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+  }
+}
+
+function validateArray(value: unknown[], schema: JsonSchema, root: JsonSchema, path: string, errors: string[]): void {
+  if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+    errors.push(`${path}: must have at least ${schema.minItems} items`);
+  }
+  if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+    errors.push(`${path}: must have at most ${schema.maxItems} items`);
+  }
+  if (isSchema(schema.items)) {
+    const items = schema.items;
+    value.forEach((item, index) => validateNode(item, items, root, `${path}[${index}]`, errors));
+  }
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  errors: string[]
+): void {
+  const properties = asSchemaMap(schema.properties) || {};
+
+  if (Array.isArray(schema.required)) {
+    for (const key of schema.required) {
+      if (typeof key === 'string' && !(key in value)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const itemPath = `${path}.${key}`;
+    if (properties[key]) {
+      validateNode(item, properties[key], root, itemPath, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${path}: unexpected property "${key}"`);
+    } else if (isSchema(schema.additionalProperties)) {
+      validateNode(item, schema.additionalProperties, root, itemPath, errors);
+    }
+  }
+}
+
+function validateCombinators(value: unknown, schema: JsonSchema, root: JsonSchema, path: string, errors: string[]): void {
+  const matches = (option: JsonSchema) => {
+    const optionErrors: string[] = [];
+    validateNode(value, option, root, path, optionErrors);
+    return optionErrors.length === 0;
+  };
+
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.filter(isSchema).some(matches)) {
+    errors.push(`${path}: does not match any of the allowed shapes`);
+  }
+  if (Array.isArray(schema.oneOf) && schema.oneOf.filter(isSchema).filter(matches).length !== 1) {
+    errors.push(`${path}: must match exactly one of the allowed shapes`);
+  }
+  if (Array.isArray(schema.allOf)) {
+    for (const option of schema.allOf.filter(isSchema)) {
+      validateNode(value, option, root, path, errors);
+    }
+  }
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  const match = ref.match(/^#\/(\$defs|definitions)\/([^/]+)$/);
+  if (!match) return ref === '#' ? root : undefined;
+  return asSchemaMap(root[match[1]])?.[match[2]];
+}
+
+function schemaTypes(schema: JsonSchema): string[] {
+  if (typeof schema.type === 'string') return [schema.type];
+  return Array.isArray(schema.type) ? schema.type.filter((type): type is string => typeof type === 'string') : [];
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'number': return typeof value === 'number' && isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return isPlainObject(value);
+}
+
+function asSchemaMap(value: unknown): Record<string, JsonSchema> | undefined {
+  if (!isPlainObject(value)) return undefined;
+  return Object.fromEntries(Object.entries(value).filter(([, schema]) => isSchema(schema))) as Record<string, JsonSchema>;
+}
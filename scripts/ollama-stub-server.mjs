@@ -0,0 +1,98 @@
+// scripts/ollama-stub-server.mjs
+/**
+ * Ollama Stub Server
+ * Run with: node scripts/ollama-stub-server.mjs [port]
+ *
+ * Minimal stand-in for the Ollama API (/api/tags, /api/chat, /api/embeddings)
+ * so the Ollama provider can be exercised without a model or internet access.
+ * Point the app at it with OLLAMA_ENABLED=true and OLLAMA_URL=http://localhost:11434
+ */
+
+import http from 'http';
+
+const port = parseInt(process.argv[2] || process.env.OLLAMA_STUB_PORT || '11434');
+const models = ['stub-model:latest', 'nomic-embed-text:latest'];
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+function sendJson(res, status, data) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+function buildReply(messages) {
+  const last = [...(messages || [])].reverse().find(m => m.role === 'user');
+  const text = last ? String(last.content).slice(0, 200) : '';
+  return `Stub reply to: ${text}`;
+}
+
+const server = http.createServer(async (req, res) => {
+  console.log(`${req.method} ${req.url}`);
+
+  if (req.method === 'GET' && req.url === '/api/tags') {
+    return sendJson(res, 200, { models: models.map(name => ({ name, model: name })) });
+  }
+
+  if (req.method === 'POST' && req.url === '/api/embeddings') {
+    const body = await readBody(req);
+    const prompt = String(body.prompt || '');
+    // Deterministic 8-dimension vector derived from the prompt
+    const embedding = Array.from({ length: 8 }, (_, i) =>
+      ((prompt.charCodeAt(i % Math.max(prompt.length, 1)) || 0) % 100) / 100
+    );
+    return sendJson(res, 200, { embedding });
+  }
+
+  if (req.method === 'POST' && req.url === '/api/chat') {
+    const body = await readBody(req);
+    const model = body.model || models[0];
+    const reply = body.format === 'json'
+      ? JSON.stringify({ reply: buildReply(body.messages) })
+      : buildReply(body.messages);
+    const promptTokens = JSON.stringify(body.messages || []).length;
+    const completionTokens = reply.split(/\s+/).length;
+
+    if (body.stream === false) {
+      return sendJson(res, 200, {
+        model,
+        message: { role: 'assistant', content: reply },
+        done: true,
+        prompt_eval_count: promptTokens,
+        eval_count: completionTokens
+      });
+    }
+
+    // Streams newline-delimited JSON, one word per chunk
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    for (const word of reply.split(/(?<= )/)) {
+      res.write(JSON.stringify({ model, message: { role: 'assistant', content: word }, done: false }) + '\n');
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    res.end(JSON.stringify({
+      model,
+      message: { role: 'assistant', content: '' },
+      done: true,
+      prompt_eval_count: promptTokens,
+      eval_count: completionTokens
+    }) + '\n');
+    return;
+  }
+
+  sendJson(res, 404, { error: 'not found' });
+});
+
+server.listen(port, () => {
+  console.log(`Ollama stub listening on http://localhost:${port}`);
+});
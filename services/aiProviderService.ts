@@ -1,6 +1,17 @@
 // services/aiProviderService.ts
-import { AIProvider, ChatResponse, AIProviderOptions } from '../lib/providers/aiProvider.interface';
+import { AIProvider, ChatResponse, AIProviderOptions, ChatStreamEvent, FileProcessingResult, OutputSchema } from '../lib/providers/aiProvider.interface';
 import { ProviderFactory } from '../lib/providers/providerFactory';
+import { CircuitSnapshot } from '../lib/providers/circuitBreaker';
+import { LocalThreadStore } from '../lib/providers/localThreadStore';
+import { ApiError, ERROR_CODES } from '../lib/utils/apiErrors';
+import { AssistantToolService } from './assistantToolService';
+
+// Inputs per embeddings request
+const EMBEDDING_BATCH_SIZE = 100;
+
+// A run that failed on a provider that answered. Retrying elsewhere would start
+// a fresh thread without the conversation, so these go back to the caller as is.
+const RUN_ERROR_CODES = ['RUN_FAILED', 'STREAM_ERROR'];
 
 // Message type definition (matches your existing types)
 interface Message {
@@ -11,143 +22,311 @@ interface Message {
   files?: any[];
 }
 
+interface SendOptions {
+  threadId?: string;
+  projectId?: string;
+  webSearchEnabled?: boolean;
+  deepResearch?: boolean;
+  fileIds?: string[];
+  tools?: string[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json' | 'markdown';
+  outputSchema?: OutputSchema;
+  signal?: AbortSignal;
+}
+
+export interface ProviderHealth {
+  name: string;
+  priority: number;
+  available: boolean; // Result of a live availability check
+  routable: boolean; // Whether the circuit currently lets requests through
+  circuit: CircuitSnapshot;
+}
+
 /**
  * Main AI Provider Service
- * Orchestrates AI interactions with automatic fallback support
+ * Routes each request to the healthiest provider, in priority order among equals.
+ * Every provider has a circuit breaker: repeated failures open it so requests
+ * skip the provider until a probe after the cooldown shows it is back.
  */
 export class AIProviderService {
   private static provider: AIProvider | null = null;
   private static providerType: string = 'openai';
   private static initialized: boolean = false;
+  private static forcedProvider?: string;
 
   /**
-   * Initialize provider based on environment
+   * Select the first healthy provider, optionally moving one to the front
    */
   static async initialize(forceProvider?: string): Promise<void> {
+    if (forceProvider) {
+      this.forcedProvider = forceProvider;
+    }
+
+    console.log(`Initializing AI providers: ${this.getPriority().join(' > ')}`);
+
+    await this.getCandidates();
+    this.initialized = true;
+
+    console.log(`AI provider ${this.providerType} initialized successfully`);
+  }
+
+  /**
+   * Provider order for routing. AI_PROVIDER_PRIORITY (e.g. "lmstudio,ollama,openai")
+   * wins; otherwise AI_PROVIDER, then OpenAI when ENABLE_FALLBACK is set.
+   */
+  static getPriority(): string[] {
+    const configured = process.env.AI_PROVIDER_PRIORITY
+      ? process.env.AI_PROVIDER_PRIORITY.split(',')
+      : [
+          process.env.AI_PROVIDER || 'openai',
+          ...(process.env.ENABLE_FALLBACK === 'true' ? ['openai'] : [])
+        ];
+
+    const ordered = [this.forcedProvider, ...configured]
+      .map(type => type?.trim().toLowerCase())
+      .filter((type): type is string => !!type);
+
+    return Array.from(new Set(ordered));
+  }
+
+  /**
+   * Send message to the healthiest provider, failing over down the priority list
+   */
+  static async sendMessage(
+    messages: Message[],
+    options: SendOptions = {}
+  ): Promise<ChatResponse> {
+    const providerOptions = this.toProviderOptions(options);
+    const primary = this.getPriority()[0];
+
+    const { result, type } = await this.withFailover(
+      async (provider, type) => provider.generateResponse(messages, await this.forProvider(type, provider, providerOptions)),
+      options.signal,
+      response => response.status === 'cancelled'
+    );
+
+    return {
+      ...result,
+      provider: type,
+      ...(type !== primary && { fallbackUsed: true })
+    } as ChatResponse;
+  }
+
+  /**
+   * One-off completion that leaves no thread behind, with failover
+   */
+  static async complete(
+    messages: Message[],
+    options: SendOptions = {}
+  ): Promise<ChatResponse> {
+    const providerOptions = { ...this.toProviderOptions(options), threadId: undefined };
+
+    const { result, type } = await this.withFailover(
+      provider => provider.complete(messages, providerOptions),
+      options.signal
+    );
+
+    return { ...result, provider: type };
+  }
+
+  /**
+   * One-off completion on one named provider, without failover. Used for work
+   * on a thread's own content (summaries, repairs), which must stay with the
+   * provider the thread's data was sent to.
+   */
+  static async completeOn(
+    type: string,
+    messages: Message[],
+    options: SendOptions = {}
+  ): Promise<ChatResponse> {
+    const [candidate] = await ProviderFactory.selectProviders([type]);
+    const breaker = ProviderFactory.getBreaker(type);
+
+    if (!candidate || !breaker.acquire()) {
+      throw new ApiError(`Provider ${type} is not available`, 503, ERROR_CODES.PROVIDER_UNAVAILABLE);
+    }
+
+    const startedAt = Date.now();
     try {
-      this.providerType = forceProvider || process.env.AI_PROVIDER || 'openai';
-      
-      console.log(`Initializing AI provider: ${this.providerType}`);
-      
-      this.provider = await ProviderFactory.createProvider(this.providerType);
-      this.initialized = true;
-      
-      console.log(`AI provider ${this.providerType} initialized successfully`);
+      const response = await candidate.provider.complete(messages, { ...this.toProviderOptions(options), threadId: undefined });
+      breaker.recordSuccess(Date.now() - startedAt);
+      return { ...response, provider: type };
     } catch (error) {
-      console.error(`Failed to initialize ${this.providerType} provider:`, error);
-      
-      // Try fallback to OpenAI if enabled
-      if (this.providerType !== 'openai' && process.env.ENABLE_FALLBACK === 'true') {
-        console.log('Attempting fallback to OpenAI...');
-        this.providerType = 'openai';
-        this.provider = await ProviderFactory.createProvider('openai');
-        this.initialized = true;
+      if (options.signal?.aborted || !this.isProviderFault(error)) {
+        breaker.release();
       } else {
-        throw error;
+        breaker.recordFailure(this.describeError(error), Date.now() - startedAt);
       }
+      throw error;
     }
   }
 
   /**
-   * Send message to AI provider with automatic fallback
+   * Send a message to one named provider, without failover. Used to compare
+   * providers side by side, where a failure should be shown rather than rerouted.
    */
-  static async sendMessage(
+  static async sendToProvider(
+    type: string,
     messages: Message[],
-    options: {
-      threadId?: string;
-      webSearchEnabled?: boolean;
-      fileIds?: string[];
-      tools?: string[];
-      temperature?: number;
-      maxTokens?: number;
-      responseFormat?: 'text' | 'json' | 'markdown';
-    } = {}
+    options: SendOptions = {}
   ): Promise<ChatResponse> {
-    // Ensure provider is initialized
-    if (!this.initialized || !this.provider) {
-      await this.initialize();
-    }
+    const [candidate] = await ProviderFactory.selectProviders([type]);
+    const breaker = ProviderFactory.getBreaker(type);
 
-    const providerOptions: AIProviderOptions = {
-      threadId: options.threadId,
-      webSearchEnabled: options.webSearchEnabled,
-      fileIds: options.fileIds,
-      tools: options.tools,
-      temperature: options.temperature || 0.7,
-      maxTokens: options.maxTokens || 4000,
-      responseFormat: options.responseFormat || 'text'
-    };
+    if (!candidate || !breaker.acquire()) {
+      throw new ApiError(`Provider ${type} is not available`, 503, ERROR_CODES.PROVIDER_UNAVAILABLE);
+    }
 
+    const startedAt = Date.now();
     try {
-      // Try primary provider
-      const response = await this.provider!.generateResponse(messages, providerOptions);
-      
-      // Add provider info to response
-      return {
-        ...response,
-        provider: this.providerType
-      } as ChatResponse;
-      
-    } catch (error: any) {
-      console.error(`${this.providerType} provider error:`, error);
-      
-      // Attempt fallback if enabled and not already using OpenAI
-      if (this.providerType !== 'openai' && process.env.ENABLE_FALLBACK === 'true') {
-        console.log('Falling back to OpenAI...');
-        
-        try {
-          const fallbackProvider = await ProviderFactory.createProvider('openai');
-          const fallbackResponse = await fallbackProvider.generateResponse(messages, providerOptions);
-          
-          return {
-            ...fallbackResponse,
-            provider: 'openai',
-            fallbackUsed: true
-          } as ChatResponse;
-          
-        } catch (fallbackError) {
-          console.error('Fallback to OpenAI also failed:', fallbackError);
-          throw new Error('Both primary and fallback providers failed');
-        }
+      const response = await candidate.provider.generateResponse(
+        messages,
+        await this.forProvider(type, candidate.provider, this.toProviderOptions(options))
+      );
+      if (response.status === 'cancelled') {
+        breaker.release();
+      } else {
+        breaker.recordSuccess(Date.now() - startedAt);
+      }
+      return { ...response, provider: type };
+    } catch (error) {
+      if (options.signal?.aborted || !this.isProviderFault(error)) {
+        breaker.release();
+      } else {
+        breaker.recordFailure(this.describeError(error), Date.now() - startedAt);
       }
-      
-      // Re-throw if no fallback or fallback disabled
       throw error;
     }
   }
 
   /**
-   * Process file upload
+   * Stream a message from the AI provider as incremental events.
+   * Providers without native streaming emit their full reply as one delta.
+   * Failover only happens before any text reaches the client.
+   */
+  static async *streamMessage(
+    messages: Message[],
+    options: SendOptions = {}
+  ): AsyncGenerator<ChatStreamEvent> {
+    const providerOptions = this.toProviderOptions(options);
+    const primary = this.getPriority()[0];
+    const candidates = await this.getCandidates();
+    let lastError: unknown;
+
+    for (const { type, provider } of candidates) {
+      const breaker = ProviderFactory.getBreaker(type);
+      if (!breaker.acquire()) continue;
+
+      const startedAt = Date.now();
+      let contentSent = false;
+
+      try {
+        const targetOptions = await this.forProvider(type, provider, providerOptions);
+        for await (const event of this.streamFromProvider(provider, messages, targetOptions)) {
+          if (event.type === 'delta') contentSent = true;
+
+          if (event.type === 'done') {
+            if (event.response.status === 'cancelled') {
+              breaker.release();
+            } else {
+              breaker.recordSuccess(Date.now() - startedAt);
+            }
+            yield {
+              type: 'done',
+              response: {
+                ...event.response,
+                provider: type,
+                ...(type !== primary && { fallbackUsed: true })
+              }
+            };
+          } else {
+            yield event;
+          }
+        }
+        return;
+      } catch (error) {
+        if (options.signal?.aborted || !this.isProviderFault(error)) {
+          breaker.release();
+          throw error;
+        }
+
+        console.error(`${type} provider stream error:`, error);
+        breaker.recordFailure(this.describeError(error), Date.now() - startedAt);
+
+        // Once text has reached the client a fallback would duplicate it
+        if (contentSent) throw error;
+        lastError = error;
+      }
+    }
+
+    throw this.exhaustedError(candidates.length, lastError);
+  }
+
+  /**
+   * Whether the assistant fetches web results itself through function tools
+   * instead of having search context injected into the prompt
+   */
+  static async usesFunctionTools(): Promise<boolean> {
+    const [active] = await this.getCandidates();
+    return active.type === 'openai' && AssistantToolService.isEnabled();
+  }
+
+  /**
+   * Models the active provider offers for per-thread selection
+   */
+  static async getModelOptions(): Promise<{ provider: string; models: string[] }> {
+    const [active] = await this.getCandidates();
+
+    const models = active.provider.listModels ? await active.provider.listModels() : [];
+    return { provider: active.type, models };
+  }
+
+  /**
+   * Providers that are up right now and the models each offers, for comparing answers
+   */
+  static async getCompareOptions(): Promise<{ provider: string; models: string[] }[]> {
+    const available = await ProviderFactory.getAvailableProviders();
+
+    return Promise.all(available.map(async type => {
+      const provider = await ProviderFactory.getProvider(type);
+      const models = provider.listModels ? await provider.listModels().catch(() => []) : [];
+      return { provider: type, models };
+    }));
+  }
+
+  /**
+   * Cancel an in-progress run. Only OpenAI runs have server-side run IDs.
+   */
+  static async cancelRun(threadId: string, runId: string): Promise<void> {
+    const provider = await ProviderFactory.getProvider(this.getThreadOwner(threadId));
+    await provider.cancelRun?.(threadId, runId);
+  }
+
+  /**
+   * Process file upload. Files for an existing thread go to the provider that
+   * owns it, so local threads never send documents to OpenAI; new uploads go
+   * to the provider that will answer the next message.
    */
   static async processFile(
     file: Buffer,
     fileType: string,
-    filename: string
-  ): Promise<{ fileId: string; error?: string }> {
-    if (!this.initialized || !this.provider) {
-      await this.initialize();
-    }
-
+    filename: string,
+    threadId?: string
+  ): Promise<{ fileId: string; provider?: string; error?: string }> {
     try {
-      const result = await this.provider!.processFile(file, fileType, filename);
+      const { result, type } = threadId
+        ? await this.processFileOn(this.getThreadOwner(threadId), file, fileType, filename)
+        : await this.withFailover(provider => provider.processFile(file, fileType, filename));
       return {
         fileId: result.fileId,
+        provider: type,
         error: result.error
       };
     } catch (error: any) {
       console.error('File processing error:', error);
-      
-      // Try fallback for file processing
-      if (this.providerType !== 'openai' && process.env.ENABLE_FALLBACK === 'true') {
-        console.log('Falling back to OpenAI for file processing...');
-        const fallbackProvider = await ProviderFactory.createProvider('openai');
-        const result = await fallbackProvider.processFile(file, fileType, filename);
-        return {
-          fileId: result.fileId,
-          error: result.error
-        };
-      }
-      
       return {
         fileId: '',
         error: error.message || 'Failed to process file'
@@ -155,60 +334,128 @@ export class AIProviderService {
     }
   }
 
+  private static async processFileOn(
+    type: string,
+    file: Buffer,
+    fileType: string,
+    filename: string
+  ): Promise<{ result: FileProcessingResult; type: string }> {
+    const provider = await ProviderFactory.getProvider(type);
+    return { result: await provider.processFile(file, fileType, filename), type };
+  }
+
   /**
    * Generate embeddings
    */
   static async generateEmbeddings(text: string): Promise<number[]> {
-    if (!this.initialized || !this.provider) {
-      await this.initialize();
+    return (await this.embed(text)).embedding;
+  }
+
+  /**
+   * Generate embeddings along with a key for the space they live in
+   * (provider and dimension), since vectors from different models can't be compared
+   */
+  static async embed(text: string): Promise<{ embedding: number[]; model: string }> {
+    try {
+      const { result, type } = await this.withFailover(
+        provider => provider.generateEmbeddings(text)
+      );
+      return { embedding: result, model: `${type}:${result.length}` };
+    } catch (error) {
+      console.error('Embedding generation error:', error);
+      return { embedding: [], model: '' };
     }
+  }
+
+  /**
+   * Embed several texts with one provider, in batched requests, so they share
+   * an embedding space. Providers without batch support embed one at a time.
+   */
+  static async embedMany(texts: string[]): Promise<{ embeddings: number[][]; model: string }> {
+    if (texts.length === 0) return { embeddings: [], model: '' };
 
     try {
-      return await this.provider!.generateEmbeddings(text);
+      const { result, type } = await this.withFailover(async provider => {
+        const embeddings: number[][] = [];
+        for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+          const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+          if (provider.generateEmbeddingsBatch) {
+            embeddings.push(...await provider.generateEmbeddingsBatch(batch));
+          } else {
+            for (const text of batch) embeddings.push(await provider.generateEmbeddings(text));
+          }
+        }
+        return embeddings;
+      });
+
+      const dimension = result.find(embedding => embedding.length > 0)?.length || 0;
+      return { embeddings: result, model: dimension ? `${type}:${dimension}` : '' };
     } catch (error) {
       console.error('Embedding generation error:', error);
-      
-      // Fallback to OpenAI for embeddings
-      if (this.providerType !== 'openai' && process.env.ENABLE_FALLBACK === 'true') {
-        const fallbackProvider = await ProviderFactory.createProvider('openai');
-        return await fallbackProvider.generateEmbeddings(text);
-      }
-      
-      return [];
+      return { embeddings: texts.map(() => []), model: '' };
     }
   }
 
+  private static async *streamFromProvider(
+    provider: AIProvider,
+    messages: Message[],
+    options: AIProviderOptions
+  ): AsyncGenerator<ChatStreamEvent> {
+    if (provider.streamResponse) {
+      yield* provider.streamResponse(messages, options);
+      return;
+    }
+
+    const response = await provider.generateResponse(messages, options);
+    if (response.threadId) {
+      yield { type: 'thread', threadId: response.threadId };
+    }
+    yield { type: 'delta', content: response.reply };
+    yield { type: 'done', response };
+  }
+
   /**
-   * Check provider availability
+   * Check provider availability and circuit state, in priority order.
+   * Open circuits whose cooldown has ended are probed as part of the check.
    */
   static async checkAvailability(): Promise<{
     primary: { name: string; available: boolean };
     fallback: { name: string; available: boolean };
     activeProvider: string;
+    providers: ProviderHealth[];
   }> {
-    const primary = {
-      name: this.providerType,
-      available: await this.provider?.isAvailable() || false
-    };
-    
-    let fallback = {
-      name: 'openai',
-      available: false
-    };
-    
-    if (process.env.ENABLE_FALLBACK === 'true' && this.providerType !== 'openai') {
+    const priority = this.getPriority();
+    const routable = new Set(
+      (await ProviderFactory.selectProviders(priority)).map(candidate => candidate.type)
+    );
+
+    const providers: ProviderHealth[] = [];
+    for (const [index, name] of priority.entries()) {
+      let available = false;
       try {
-        const fallbackProvider = await ProviderFactory.createProvider('openai');
-        fallback.available = await fallbackProvider.isAvailable();
+        const provider = await ProviderFactory.getProvider(name);
+        available = await provider.isAvailable();
       } catch {
-        fallback.available = false;
+        available = false;
       }
+
+      providers.push({
+        name,
+        priority: index + 1,
+        available,
+        routable: routable.has(name),
+        circuit: ProviderFactory.getBreaker(name).snapshot()
+      });
     }
-    
+
+    const isUsable = (provider?: ProviderHealth) => !!provider && provider.available && provider.routable;
+    const [primary, fallback] = providers;
+
     return {
-      primary,
-      fallback,
-      activeProvider: this.provider?.name || 'none'
+      primary: { name: primary.name, available: isUsable(primary) },
+      fallback: { name: fallback?.name || 'openai', available: isUsable(fallback) },
+      activeProvider: providers.find(provider => isUsable(provider))?.name || 'none',
+      providers
     };
   }
 
@@ -219,11 +466,14 @@ export class AIProviderService {
     current: string;
     initialized: boolean;
     fallbackEnabled: boolean;
+    priority: string[];
   } {
+    const priority = this.getPriority();
     return {
       current: this.providerType,
       initialized: this.initialized,
-      fallbackEnabled: process.env.ENABLE_FALLBACK === 'true'
+      fallbackEnabled: priority.length > 1,
+      priority
     };
   }
 
@@ -233,10 +483,10 @@ export class AIProviderService {
   static async switchProvider(providerType: string): Promise<void> {
     console.log(`Switching from ${this.providerType} to ${providerType}`);
     
-    // Clear cache
+    // Clear cache and circuit state
     ProviderFactory.clearCache();
     
-    // Re-initialize with new provider
+    // Re-initialize with the new provider first in line
     await this.initialize(providerType);
   }
 
@@ -244,48 +494,83 @@ export class AIProviderService {
    * Create a new thread
    */
   static async createThread(): Promise<string> {
-    if (!this.initialized || !this.provider) {
-      await this.initialize();
-    }
+    const [active] = await this.getCandidates();
 
-    if (this.provider!.createThread) {
-      return await this.provider!.createThread();
+    if (active.provider.createThread) {
+      return await active.provider.createThread();
     }
     
     // Generate a local thread ID if provider doesn't support threads
     return `thread-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Create a thread on the provider that owns threadId, seeded with the given
+   * history. Threads can't be rewound, so branching replays the history.
+   */
+  static async forkThread(threadId: string, history: Message[]): Promise<string> {
+    return this.createThreadOn(this.getThreadOwner(threadId), history);
+  }
+
+  /**
+   * Create a thread on a specific provider, optionally seeded with history
+   */
+  static async createThreadOn(type: string, history: Message[] = []): Promise<string> {
+    const provider = await ProviderFactory.getProvider(type);
+
+    if (!provider.createThread) {
+      throw new ApiError(`Provider ${provider.name} does not support threads`, 400, ERROR_CODES.INVALID_REQUEST);
+    }
+
+    return await provider.createThread(history);
+  }
+
+  /**
+   * Record an exchange that was answered outside the thread, so follow-ups see it
+   */
+  static async appendTurn(threadId: string, userContent: string, reply: string): Promise<void> {
+    const provider = await ProviderFactory.getProvider(this.getThreadOwner(threadId));
+
+    if (!provider.addTurn) {
+      throw new ApiError(`Provider ${provider.name} does not support threads`, 400, ERROR_CODES.INVALID_REQUEST);
+    }
+
+    await provider.addTurn(threadId, userContent, reply);
+  }
+
   /**
    * Delete a thread
    */
   static async deleteThread(threadId: string): Promise<void> {
-    if (!this.initialized || !this.provider) {
-      await this.initialize();
-    }
+    const provider = await ProviderFactory.getProvider(this.getThreadOwner(threadId));
 
-    if (this.provider!.deleteThread) {
-      await this.provider!.deleteThread(threadId);
+    if (provider.deleteThread) {
+      await provider.deleteThread(threadId);
     }
   }
 
+  /**
+   * Provider that created a thread and holds its history
+   */
+  static getThreadOwner(threadId: string): string {
+    return LocalThreadStore.isLocalThread(threadId) ? threadId.split('-')[0] : 'openai';
+  }
+
   /**
    * Get thread messages
    */
   static async getThreadMessages(threadId: string): Promise<Message[]> {
-    if (!this.initialized || !this.provider) {
-      await this.initialize();
-    }
+    const provider = await ProviderFactory.getProvider(this.getThreadOwner(threadId));
 
-    if (this.provider!.getThreadMessages) {
-      return await this.provider!.getThreadMessages(threadId);
+    if (provider.getThreadMessages) {
+      return await provider.getThreadMessages(threadId);
     }
     
     return [];
   }
 
   /**
-   * Health check for the service
+   * Health check for the service, including each provider's circuit state
    */
   static async healthCheck(): Promise<{
     status: 'healthy' | 'degraded' | 'unhealthy';
@@ -301,10 +586,10 @@ export class AIProviderService {
           provider: availability.primary.name,
           details: availability
         };
-      } else if (availability.fallback.available) {
+      } else if (availability.activeProvider !== 'none') {
         return {
           status: 'degraded',
-          provider: availability.fallback.name,
+          provider: availability.activeProvider,
           details: {
             ...availability,
             message: 'Primary provider unavailable, using fallback'
@@ -328,4 +613,135 @@ export class AIProviderService {
       };
     }
   }
-}
\ No newline at end of file
+
+  // Private helper methods
+
+  /**
+   * Routable providers in priority order; the first becomes the active provider
+   */
+  private static async getCandidates(): Promise<{ type: string; provider: AIProvider }[]> {
+    const candidates = await ProviderFactory.selectProviders(this.getPriority());
+
+    if (candidates.length === 0) {
+      throw new ApiError(
+        'No AI provider is currently available',
+        503,
+        ERROR_CODES.PROVIDER_UNAVAILABLE
+      );
+    }
+
+    this.provider = candidates[0].provider;
+    this.providerType = candidates[0].type;
+    this.initialized = true;
+
+    return candidates;
+  }
+
+  /**
+   * Run an operation against each routable provider until one succeeds,
+   * recording the outcome and latency on the provider's circuit breaker
+   */
+  private static async withFailover<T>(
+    operation: (provider: AIProvider, type: string) => Promise<T>,
+    signal?: AbortSignal,
+    isCancelled?: (result: T) => boolean
+  ): Promise<{ result: T; type: string }> {
+    const candidates = await this.getCandidates();
+    let lastError: unknown;
+
+    for (const { type, provider } of candidates) {
+      const breaker = ProviderFactory.getBreaker(type);
+      if (!breaker.acquire()) continue;
+
+      const startedAt = Date.now();
+      try {
+        const result = await operation(provider, type);
+        if (isCancelled?.(result)) {
+          breaker.release();
+        } else {
+          breaker.recordSuccess(Date.now() - startedAt);
+        }
+        return { result, type };
+      } catch (error) {
+        // User cancels and bad requests say nothing about provider health
+        if (signal?.aborted || !this.isProviderFault(error)) {
+          breaker.release();
+          throw error;
+        }
+
+        console.error(`${type} provider error:`, error);
+        breaker.recordFailure(this.describeError(error), Date.now() - startedAt);
+        lastError = error;
+      }
+    }
+
+    throw this.exhaustedError(candidates.length, lastError);
+  }
+
+  private static toProviderOptions(options: SendOptions): AIProviderOptions {
+    return {
+      threadId: options.threadId,
+      projectId: options.projectId,
+      webSearchEnabled: options.webSearchEnabled,
+      deepResearch: options.deepResearch,
+      fileIds: options.fileIds,
+      tools: options.tools,
+      model: options.model,
+      temperature: options.temperature, // Undefined keeps the provider/assistant default
+      maxTokens: options.maxTokens || 4000,
+      responseFormat: options.responseFormat || 'text',
+      outputSchema: options.outputSchema,
+      signal: options.signal
+    };
+  }
+
+  /**
+   * A thread can only be continued by the provider that created it, so other
+   * providers start a new one. The thread's model override only applies to
+   * that provider too, and only if it still offers the model; otherwise the
+   * provider's default model answers.
+   */
+  private static async forProvider(type: string, provider: AIProvider, options: AIProviderOptions): Promise<AIProviderOptions> {
+    const ownsThread = !options.threadId || this.getThreadOwner(options.threadId) === type;
+    const keepsModel = !options.model || (ownsThread && await this.offersModel(provider, options.model));
+
+    if (ownsThread && keepsModel) return options;
+    return {
+      ...options,
+      ...(!ownsThread && { threadId: undefined }),
+      ...(!keepsModel && { model: undefined })
+    };
+  }
+
+  private static async offersModel(provider: AIProvider, model: string): Promise<boolean> {
+    if (!provider.listModels) return true;
+    const models: string[] = await provider.listModels().catch(() => []);
+    return models.includes(model);
+  }
+
+  /**
+   * Timeouts, rate limits, server errors and network failures count against
+   * a provider; other client errors (e.g. context length) and failed runs do not
+   */
+  private static isProviderFault(error: unknown): boolean {
+    if (error instanceof ApiError && error.code && RUN_ERROR_CODES.includes(error.code)) return false;
+
+    const status = (error as { status?: unknown })?.status;
+    return typeof status !== 'number' || status >= 500 || status === 408 || status === 429;
+  }
+
+  private static describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private static exhaustedError(attempted: number, lastError: unknown): unknown {
+    if (attempted > 1 || !lastError) {
+      return new ApiError(
+        'All configured AI providers failed',
+        503,
+        ERROR_CODES.PROVIDER_UNAVAILABLE
+      );
+    }
+    return lastError;
+  }
+}
@@ -1,5 +1,5 @@
 export class ApiError extends Error {
-  constructor(public status: number, message: string) {
+  constructor(public status: number, message: string, public code?: string) {
     super(message);
     this.name = 'ApiError';
   }
@@ -18,15 +18,22 @@ export const baseFetch = async (url: string, options: RequestInit = {}): Promise
     if (!response.ok) {
       const errorText = await response.text();
       let errorMessage = `HTTP ${response.status}`;
+      let errorCode: string | undefined;
       
       try {
         const errorData = JSON.parse(errorText);
-        errorMessage = errorData.error || errorMessage;
+        // Routes return either { error: 'message' } or { error: { message, code } }
+        if (typeof errorData.error === 'object' && errorData.error) {
+          errorMessage = errorData.error.message || errorMessage;
+          errorCode = errorData.error.code;
+        } else {
+          errorMessage = errorData.error || errorMessage;
+        }
       } catch {
         errorMessage = errorText || errorMessage;
       }
       
-      throw new ApiError(response.status, errorMessage);
+      throw new ApiError(response.status, errorMessage, errorCode);
     }
 
     return response;
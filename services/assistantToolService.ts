@@ -0,0 +1,451 @@
+// services/assistantToolService.ts
+import { createClient } from '@supabase/supabase-js';
+import { openaiClient, ToolOutput } from '@/lib/clients';
+import { SearchSource } from '@/lib/providers/aiProvider.interface';
+import { SearchType } from '@/lib/search/searchProvider.interface';
+import { LocalThreadStore } from '@/lib/providers/localThreadStore';
+import { TextExtractionService } from './textExtractionService';
+import { ThreadFileService } from './threadFileService';
+import { CitationService } from './citationService';
+import { WebSearchService } from './webSearchService';
+import { DeepResearchService } from './deepResearchService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface AssistantToolContext {
+  threadId: string;
+  projectId?: string;
+  webSearchEnabled?: boolean;
+  deepResearch?: boolean;
+  signal?: AbortSignal;
+  searchSources: SearchSource[]; // Filled by tools that search the web
+  searchCalls: number;
+}
+
+export interface AssistantTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  isAvailable?: (context: AssistantToolContext) => boolean;
+  handler: (args: Record<string, any>, context: AssistantToolContext) => Promise<unknown>;
+}
+
+export interface AssistantToolCall {
+  id: string;
+  type: string;
+  function?: { name: string; arguments: string };
+}
+
+interface ProjectFile {
+  file_id: string;
+  filename: string;
+  content_type: string;
+  file_size: number;
+  thread_id: string;
+  blob_url?: string;
+}
+
+/**
+ * Server-side function tools for OpenAI assistant runs.
+ * When a run reaches requires_action, the requested calls are executed
+ * here and their results are submitted back with submitToolOutputs.
+ */
+export class AssistantToolService {
+  private static readonly MAX_OUTPUT_CHARS = 20000;
+  private static readonly THREAD_SCAN_LIMIT = 10;
+  private static readonly PROJECT_THREAD_LIMIT = 50;
+  private static tools = new Map<string, AssistantTool>();
+
+  /**
+   * Function tools are opt-in because the assistant must be allowed to call them
+   */
+  static isEnabled(): boolean {
+    return process.env.OPENAI_FUNCTION_TOOLS_ENABLED === 'true';
+  }
+
+  /**
+   * Register a tool; later registrations replace earlier ones with the same name
+   */
+  static register(tool: AssistantTool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Function definitions to send with a run
+   */
+  static getDefinitions(context: AssistantToolContext): Record<string, unknown>[] {
+    return [...this.tools.values()]
+      .filter(tool => !tool.isAvailable || tool.isAvailable(context))
+      .map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }
+      }));
+  }
+
+  /**
+   * Run the requested function calls; failures are reported back to the assistant
+   */
+  static async executeToolCalls(
+    toolCalls: AssistantToolCall[],
+    context: AssistantToolContext
+  ): Promise<ToolOutput[]> {
+    const outputs: ToolOutput[] = [];
+
+    for (const toolCall of toolCalls) {
+      const name = toolCall.function?.name || '';
+      const tool = this.tools.get(name);
+      let result: unknown;
+
+      try {
+        if (!tool) {
+          throw new Error(`Unknown tool: ${name}`);
+        }
+
+        const args = toolCall.function?.arguments ? JSON.parse(toolCall.function.arguments) : {};
+        result = await tool.handler(args, context);
+      } catch (error) {
+        console.error(`Tool ${name} failed:`, error);
+        result = { error: error instanceof Error ? error.message : 'Tool execution failed' };
+      }
+
+      const output = typeof result === 'string' ? result : JSON.stringify(result);
+      outputs.push({
+        tool_call_id: toolCall.id,
+        output: output.substring(0, this.MAX_OUTPUT_CHARS)
+      });
+    }
+
+    return outputs;
+  }
+
+  // Built-in tool handlers
+
+  /**
+   * Keyword search over the titles and messages of other threads in the project
+   */
+  static async searchProjectThreads(
+    args: { query: string; limit?: number },
+    context: AssistantToolContext
+  ) {
+    const projectId = await this.resolveProjectId(context);
+    if (!projectId) {
+      return { error: 'This conversation is not part of a project yet' };
+    }
+
+    const { data: threads, error } = await supabase
+      .from('threads')
+      .select('id, title, last_activity')
+      .eq('project_id', projectId)
+      .neq('id', context.threadId)
+      .order('last_activity', { ascending: false })
+      .limit(this.THREAD_SCAN_LIMIT);
+
+    if (error) throw error;
+
+    const terms = args.query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
+    const matches = [];
+
+    for (const thread of threads || []) {
+      const messages = await this.loadThreadText(thread.id);
+      const haystack = [thread.title, ...messages];
+      const snippets: string[] = [];
+      let score = 0;
+
+      for (const text of haystack) {
+        const lower = text.toLowerCase();
+        const hits = terms.filter(term => lower.includes(term)).length;
+        if (hits === 0) continue;
+
+        score += hits;
+        if (snippets.length < 3) {
+          const position = Math.max(0, lower.indexOf(terms.find(term => lower.includes(term))!) - 100);
+          snippets.push(text.substring(position, position + 300).trim());
+        }
+      }
+
+      if (score > 0) {
+        matches.push({
+          thread_id: thread.id,
+          title: thread.title,
+          last_activity: thread.last_activity,
+          score,
+          snippets
+        });
+      }
+    }
+
+    return {
+      query: args.query,
+      results: matches
+        .sort((a, b) => b.score - a.score)
+        .slice(0, args.limit || 5)
+    };
+  }
+
+  /**
+   * Web search with the project's backend, with sources collected for the response.
+   * In deep research mode the best passages from the top pages are added to their results.
+   */
+  static async webSearch(
+    args: { query: string; max_results?: number; search_type?: SearchType },
+    context: AssistantToolContext
+  ) {
+    const scope = { projectId: context.projectId, threadId: context.threadId };
+    if (!(await WebSearchService.isAvailable(scope))) {
+      return { error: 'Web search is not configured for this project' };
+    }
+
+    const searchResults = await WebSearchService.search({
+      query: args.query,
+      searchType: args.search_type,
+      maxResults: args.max_results,
+      signal: context.signal
+    }, scope);
+    // Cached results cost nothing
+    if (!searchResults.cached) context.searchCalls++;
+
+    // Numbering continues across searches so every source in the reply has its own [n]
+    const offset = context.searchSources.length;
+    const sources = CitationService.number(searchResults.results.map(result => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.content?.substring(0, 200) + '...'
+    })), offset);
+    context.searchSources.push(...sources);
+
+    const passages = context.deepResearch && DeepResearchService.isEnabled()
+      ? (await DeepResearchService.research(args.query, sources, context.signal)).passages
+      : [];
+
+    return {
+      answer: searchResults.answer,
+      citation_instructions: 'Cite results inline by source_id in square brackets, e.g. [1] or [2][3]; never invent source numbers.',
+      results: searchResults.results.map((result, index) => ({
+        source_id: offset + index + 1,
+        title: result.title,
+        url: result.url,
+        content: result.content,
+        published_date: result.publishedDate,
+        passages: passages
+          .filter(passage => passage.sourceId === offset + index + 1)
+          .map(passage => passage.content)
+      }))
+    };
+  }
+
+  /**
+   * Files uploaded to or generated in the project's threads
+   */
+  static async listProjectFiles(context: AssistantToolContext): Promise<ProjectFile[] | { error: string }> {
+    const projectId = await this.resolveProjectId(context);
+    if (!projectId) {
+      return { error: 'This conversation is not part of a project yet' };
+    }
+
+    const { data: threads, error } = await supabase
+      .from('threads')
+      .select('id')
+      .eq('project_id', projectId)
+      .limit(this.PROJECT_THREAD_LIMIT);
+
+    if (error) throw error;
+
+    const threadIds = [...new Set([context.threadId, ...(threads || []).map(thread => thread.id)])];
+    const files = new Map<string, ProjectFile>();
+
+    // Files generated by the assistant and stored in blob storage
+    const { data: storedFiles } = await supabase
+      .from('blob_files')
+      .select('openai_file_id, filename, content_type, file_size, thread_id, vercel_blob_url')
+      .in('thread_id', threadIds);
+
+    for (const file of storedFiles || []) {
+      files.set(file.openai_file_id, {
+        file_id: file.openai_file_id,
+        filename: file.filename,
+        content_type: file.content_type || 'application/octet-stream',
+        file_size: file.file_size || 0,
+        thread_id: file.thread_id,
+        blob_url: file.vercel_blob_url || undefined
+      });
+    }
+
+    // Files the user uploaded into threads
+    for (const threadId of threadIds) {
+      const uploaded = await ThreadFileService.getActiveThreadFiles(threadId);
+      for (const file of uploaded) {
+        if (!file.openai_file_id || files.has(file.openai_file_id)) continue;
+        files.set(file.openai_file_id, {
+          file_id: file.openai_file_id,
+          filename: file.filename,
+          content_type: file.file_type,
+          file_size: file.file_size,
+          thread_id: threadId
+        });
+      }
+    }
+
+    return [...files.values()];
+  }
+
+  /**
+   * Extracted text of a single project file
+   */
+  static async readProjectFile(args: { file_id: string }, context: AssistantToolContext) {
+    const files = await this.listProjectFiles(context);
+    if (!Array.isArray(files)) return files;
+
+    const file = files.find(candidate => candidate.file_id === args.file_id);
+    if (!file) {
+      return { error: `File ${args.file_id} is not part of this project` };
+    }
+
+    const maxChars = this.MAX_OUTPUT_CHARS - 500;
+
+    // Files handled by a local provider were extracted at upload
+    if (!file.blob_url && LocalThreadStore.isLocalFile(file.file_id)) {
+      const text = await LocalThreadStore.getExtractedText(file.file_id);
+      if (!text) {
+        return { error: `No text could be extracted from ${file.filename}` };
+      }
+      return {
+        file_id: file.file_id,
+        filename: file.filename,
+        truncated: text.length > maxChars,
+        content: text.substring(0, maxChars)
+      };
+    }
+
+    // OpenAI won't return the content of files uploaded for assistants, so
+    // only files with a stored copy can be read
+    if (!file.blob_url) {
+      return { error: `${file.filename} has no stored copy, so its content can't be read here` };
+    }
+
+    const response = await fetch(file.blob_url, { signal: context.signal });
+    if (!response.ok) {
+      throw new Error(`Failed to download ${file.filename}`);
+    }
+    const buffer = Buffer.from(await response.arrayBuffer());
+
+    const extraction = TextExtractionService.extractText(
+      buffer,
+      file.content_type,
+      file.filename,
+      maxChars
+    );
+
+    if (!extraction.text) {
+      return { error: `No text could be extracted from ${file.filename}` };
+    }
+
+    return {
+      file_id: file.file_id,
+      filename: file.filename,
+      truncated: extraction.truncated,
+      content: extraction.text
+    };
+  }
+
+  // Private helper methods
+
+  private static async resolveProjectId(context: AssistantToolContext): Promise<string | undefined> {
+    if (context.projectId) return context.projectId;
+
+    const { data } = await supabase
+      .from('threads')
+      .select('project_id')
+      .eq('id', context.threadId)
+      .maybeSingle();
+
+    return data?.project_id || undefined;
+  }
+
+  private static async loadThreadText(threadId: string): Promise<string[]> {
+    try {
+      // Threads of local providers keep their history in Supabase
+      if (LocalThreadStore.isLocalThread(threadId)) {
+        const { data } = await supabase
+          .from('local_thread_messages')
+          .select('content')
+          .eq('thread_id', threadId);
+        return (data || []).map(message => message.content);
+      }
+
+      const response = await openaiClient.getMessages(threadId, 50);
+      return response.data.map(message =>
+        message.content
+          .filter((item: any) => item.type === 'text')
+          .map((item: any) => item.text?.value || '')
+          .join('\n')
+      );
+    } catch (error) {
+      console.error(`Failed to load thread ${threadId} for search:`, error);
+      return [];
+    }
+  }
+}
+
+AssistantToolService.register({
+  name: 'search_project_threads',
+  description: 'Search earlier conversations in the current project for discussions related to a query.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Keywords to look for' },
+      limit: { type: 'integer', description: 'Maximum number of threads to return (default 5)' }
+    },
+    required: ['query']
+  },
+  handler: (args, context) => AssistantToolService.searchProjectThreads(args as { query: string; limit?: number }, context)
+});
+
+AssistantToolService.register({
+  name: 'web_search',
+  description: 'Search the web for current information. Use when the answer depends on recent or external facts.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Search query' },
+      search_type: {
+        type: 'string',
+        enum: ['general', 'news', 'reference'],
+        description: 'news for current events, reference for stable facts such as laws, standards and definitions (default general)'
+      },
+      max_results: { type: 'integer', description: 'Number of results (default 5)' }
+    },
+    required: ['query']
+  },
+  isAvailable: (context) => !!context.webSearchEnabled && WebSearchService.hasConfiguredProvider(),
+  handler: (args, context) => AssistantToolService.webSearch(
+    args as { query: string; max_results?: number; search_type?: SearchType },
+    context
+  )
+});
+
+AssistantToolService.register({
+  name: 'list_project_files',
+  description: 'List files uploaded to or generated in the current project.',
+  parameters: { type: 'object', properties: {} },
+  handler: (_args, context) => AssistantToolService.listProjectFiles(context)
+});
+
+AssistantToolService.register({
+  name: 'read_project_file',
+  description: 'Read the text content of a project file returned by list_project_files.',
+  parameters: {
+    type: 'object',
+    properties: {
+      file_id: { type: 'string', description: 'file_id from list_project_files' }
+    },
+    required: ['file_id']
+  },
+  handler: (args, context) => AssistantToolService.readProjectFile(args as { file_id: string }, context)
+});
@@ -0,0 +1,212 @@
+// services/budgetService.ts
+import { createClient } from '@supabase/supabase-js';
+import { timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { ApiError, BudgetExceededError } from '@/lib/utils/apiErrors';
+import { UsageService } from './usageService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export type BudgetPeriod = 'monthly' | 'total';
+
+export interface BudgetStatus {
+  projectId: string;
+  budgetUsd: number | null; // null = no budget
+  period: BudgetPeriod;
+  softLimitPercent: number;
+  spent: number;
+  percentUsed: number | null;
+  state: 'ok' | 'warning' | 'exceeded';
+  overrideUntil: string | null;
+  overrideActive: boolean;
+}
+
+export interface BudgetSettings {
+  budget_usd?: number | null;
+  budget_period?: BudgetPeriod;
+  budget_soft_limit_percent?: number;
+  budget_override_until?: string | null;
+}
+
+const DEFAULT_SOFT_LIMIT_PERCENT = 80;
+const MAX_OVERRIDE_HOURS = 24 * 31;
+
+/**
+ * Per-project spending budgets. Runs are refused once a project's
+ * estimated spend for the period reaches its budget, unless an admin
+ * override is active or the request carries the admin key.
+ */
+export class BudgetService {
+  /**
+   * Whether the request carries the BUDGET_ADMIN_KEY (x-admin-key header)
+   */
+  static isAdminRequest(request: NextRequest): boolean {
+    const adminKey = process.env.BUDGET_ADMIN_KEY;
+    const provided = request.headers.get('x-admin-key');
+    if (!adminKey || !provided) return false;
+
+    const expected = Buffer.from(adminKey);
+    const actual = Buffer.from(provided);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Validate a budget update; overrideHours becomes an override end time
+   */
+  static parseSettings(body: Record<string, unknown>): BudgetSettings {
+    const settings: BudgetSettings = {};
+
+    if ('budgetUsd' in body) {
+      const budget = body.budgetUsd;
+      if (budget !== null && (typeof budget !== 'number' || !isFinite(budget) || budget < 0)) {
+        throw new ApiError('`budgetUsd` must be a positive number or null', 400, 'VALIDATION_ERROR');
+      }
+      settings.budget_usd = budget as number | null;
+    }
+
+    if ('period' in body) {
+      if (body.period !== 'monthly' && body.period !== 'total') {
+        throw new ApiError('`period` must be "monthly" or "total"', 400, 'VALIDATION_ERROR');
+      }
+      settings.budget_period = body.period;
+    }
+
+    if ('softLimitPercent' in body) {
+      const percent = body.softLimitPercent;
+      if (typeof percent !== 'number' || percent < 1 || percent > 100) {
+        throw new ApiError('`softLimitPercent` must be between 1 and 100', 400, 'VALIDATION_ERROR');
+      }
+      settings.budget_soft_limit_percent = Math.round(percent);
+    }
+
+    if ('overrideHours' in body) {
+      const hours = body.overrideHours;
+      if (hours !== null && (typeof hours !== 'number' || hours <= 0 || hours > MAX_OVERRIDE_HOURS)) {
+        throw new ApiError(`\`overrideHours\` must be between 0 and ${MAX_OVERRIDE_HOURS}, or null`, 400, 'VALIDATION_ERROR');
+      }
+      settings.budget_override_until = typeof hours === 'number'
+        ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+        : null;
+    }
+
+    return settings;
+  }
+
+  /**
+   * Current spend against the project's budget
+   */
+  static async getStatus(projectId: string): Promise<BudgetStatus> {
+    const { data: project, error } = await supabase
+      .from('projects')
+      .select('id, budget_usd, budget_period, budget_soft_limit_percent, budget_override_until')
+      .eq('id', projectId)
+      .maybeSingle();
+
+    if (error) {
+      throw new ApiError('Failed to load project budget', 500, 'DATABASE_ERROR', error);
+    }
+    if (!project) {
+      throw new ApiError('Project not found', 404, 'NOT_FOUND');
+    }
+
+    const period: BudgetPeriod = project.budget_period === 'total' ? 'total' : 'monthly';
+    const budgetUsd = project.budget_usd === null || project.budget_usd === undefined
+      ? null
+      : Number(project.budget_usd);
+    const softLimitPercent = project.budget_soft_limit_percent || DEFAULT_SOFT_LIMIT_PERCENT;
+    const overrideActive = !!project.budget_override_until &&
+      new Date(project.budget_override_until).getTime() > Date.now();
+
+    const spent = budgetUsd === null
+      ? 0
+      : await UsageService.getProjectSpend(projectId, period === 'monthly' ? this.getPeriodStart() : undefined);
+    const percentUsed = budgetUsd ? Math.round((spent / budgetUsd) * 1000) / 10 : null;
+
+    let state: BudgetStatus['state'] = 'ok';
+    if (budgetUsd !== null) {
+      if (spent >= budgetUsd) state = 'exceeded';
+      else if (spent >= budgetUsd * softLimitPercent / 100) state = 'warning';
+    }
+
+    return {
+      projectId,
+      budgetUsd,
+      period,
+      softLimitPercent,
+      spent,
+      percentUsed,
+      state,
+      overrideUntil: project.budget_override_until || null,
+      overrideActive
+    };
+  }
+
+  /**
+   * Refuse a run when the project is over budget. Returns the status when the
+   * soft limit is reached (so the reply can carry a warning), otherwise undefined.
+   */
+  static async enforce(
+    projectId: string | undefined,
+    threadId: string | undefined,
+    adminOverride = false
+  ): Promise<BudgetStatus | undefined> {
+    const resolvedProjectId = projectId || (threadId ? await this.getThreadProjectId(threadId) : undefined);
+    if (!resolvedProjectId) return undefined;
+
+    let status: BudgetStatus;
+    try {
+      status = await this.getStatus(resolvedProjectId);
+    } catch (error) {
+      // Budgets are a guardrail; a lookup failure shouldn't block chat
+      console.error('Budget check failed:', error);
+      return undefined;
+    }
+
+    if (status.state === 'exceeded' && !status.overrideActive && !adminOverride) {
+      const scope = status.period === 'monthly' ? 'monthly budget' : 'budget';
+      throw new BudgetExceededError(
+        `This project has reached its ${scope} ($${status.spent.toFixed(2)} of $${status.budgetUsd!.toFixed(2)}). ` +
+        'Ask an admin to raise the budget or grant an override.',
+        { ...status }
+      );
+    }
+
+    return status.state === 'ok' ? undefined : status;
+  }
+
+  /**
+   * Save budget settings and return the new status
+   */
+  static async updateSettings(projectId: string, settings: BudgetSettings): Promise<BudgetStatus> {
+    const { error } = await supabase
+      .from('projects')
+      .update({ ...settings, updated_at: new Date().toISOString() })
+      .eq('id', projectId);
+
+    if (error) {
+      throw new ApiError('Failed to update project budget', 500, 'DATABASE_ERROR', error);
+    }
+
+    return this.getStatus(projectId);
+  }
+
+  // Private helper methods
+
+  private static getPeriodStart(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+
+  private static async getThreadProjectId(threadId: string): Promise<string | undefined> {
+    const { data } = await supabase
+      .from('threads')
+      .select('project_id')
+      .eq('id', threadId)
+      .maybeSingle();
+
+    return data?.project_id || undefined;
+  }
+}
@@ -0,0 +1,66 @@
+// services/chatCancellationService.ts
+
+interface ActiveChatRequest {
+  controller: AbortController;
+  threadId?: string;
+  runId?: string;
+  startedAt: number;
+}
+
+/**
+ * Tracks in-flight chat requests so the user can stop them.
+ * Entries live in process memory; the cancel route also accepts
+ * threadId/runId so a run can be cancelled from another instance.
+ */
+export class ChatCancellationService {
+  private static readonly MAX_REQUEST_AGE = 30 * 60 * 1000; // 30 minutes
+  private static activeRequests = new Map<string, ActiveChatRequest>();
+
+  /**
+   * Register a request and get the signal that aborts it
+   */
+  static register(requestId: string): AbortSignal {
+    this.pruneStale();
+
+    const controller = new AbortController();
+    this.activeRequests.set(requestId, { controller, startedAt: Date.now() });
+    return controller.signal;
+  }
+
+  /**
+   * Record the thread/run a request is working on
+   */
+  static track(requestId: string, update: { threadId?: string; runId?: string }): void {
+    const request = this.activeRequests.get(requestId);
+    if (request) {
+      Object.assign(request, update);
+    }
+  }
+
+  /**
+   * Abort a request; returns what it was working on, or null if unknown
+   */
+  static cancel(requestId: string): { threadId?: string; runId?: string } | null {
+    const request = this.activeRequests.get(requestId);
+    if (!request) return null;
+
+    request.controller.abort();
+    return { threadId: request.threadId, runId: request.runId };
+  }
+
+  /**
+   * Remove a finished request
+   */
+  static release(requestId: string): void {
+    this.activeRequests.delete(requestId);
+  }
+
+  private static pruneStale(): void {
+    const cutoff = Date.now() - this.MAX_REQUEST_AGE;
+    for (const [requestId, request] of this.activeRequests) {
+      if (request.startedAt < cutoff) {
+        this.activeRequests.delete(requestId);
+      }
+    }
+  }
+}
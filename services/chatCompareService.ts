@@ -0,0 +1,296 @@
+// services/chatCompareService.ts
+import { createClient } from '@supabase/supabase-js';
+import { ApiError, NotFoundError } from '@/lib/utils/apiErrors';
+import { Message, SearchSource, UsageMetrics } from '@/lib/providers/aiProvider.interface';
+import { AIProviderService } from './aiProviderService';
+import { ChatPipelineService } from './chatPipelineService';
+import { CitationService } from './citationService';
+import { ContentCleaningService } from './contentCleaningService';
+import { DocumentSource, RetrievalService } from './retrievalService';
+import { ThreadSettingsService } from './threadSettingsService';
+import { UsageService } from './usageService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface CompareTarget {
+  provider: string;
+  model?: string; // Defaults to the provider's configured model
+}
+
+export interface CompareRequest {
+  message: string;
+  targets: CompareTarget[];
+  threadId?: string; // Conversation the prompt continues; left untouched until an answer is kept
+  projectId?: string;
+  webSearchEnabled?: boolean;
+  fileIds?: string[];
+  temperature?: number;
+}
+
+export interface CompareColumn {
+  provider: string;
+  model?: string;
+  threadId?: string; // Scratch thread holding the conversation plus this answer
+  reply: string;
+  status: 'completed' | 'failed';
+  error?: string;
+  latencyMs: number;
+  usage?: UsageMetrics;
+}
+
+export interface CompareResult {
+  columns: CompareColumn[];
+  searchSources?: SearchSource[];
+  documentSources?: DocumentSource[];
+}
+
+export interface KeepRequest {
+  message: string;
+  reply: string;
+  keepThreadId: string; // Scratch thread of the chosen column
+  discardThreadIds?: string[];
+  threadId?: string; // Chat to keep the answer in; a new chat takes over the chosen scratch thread
+  projectId?: string;
+}
+
+export const MIN_COMPARE_TARGETS = 2;
+export const MAX_COMPARE_TARGETS = 3;
+
+// Passed straight to provider APIs, so kept to ID characters
+const THREAD_ID_PATTERN = /^[\w-]{1,100}$/;
+
+/**
+ * Side-by-side answers from several providers/models for one prompt.
+ * Each column answers in its own scratch thread seeded with the chat's
+ * history, so the chat is untouched until the user keeps one answer;
+ * the remaining scratch threads are then deleted. Scratch threads are
+ * recorded in compare_threads, and only recorded ones can be deleted
+ * through a comparison, so real chats can't be removed by passing their IDs.
+ */
+export class ChatCompareService {
+  /**
+   * Validate the requested provider/model pairs
+   */
+  static parseTargets(value: unknown): CompareTarget[] {
+    if (!Array.isArray(value) || value.length < MIN_COMPARE_TARGETS || value.length > MAX_COMPARE_TARGETS) {
+      throw new ApiError(
+        `targets must list ${MIN_COMPARE_TARGETS} to ${MAX_COMPARE_TARGETS} providers to compare`,
+        400,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    return value.map(target => {
+      if (!target || typeof target.provider !== 'string' || !/^[a-z]+$/.test(target.provider)) {
+        throw new ApiError('Each target needs a provider name', 400, 'VALIDATION_ERROR');
+      }
+      const { model } = ThreadSettingsService.parseSettings({ model: target.model ?? null });
+      return { provider: target.provider, ...(model && { model }) };
+    });
+  }
+
+  /**
+   * Send the prompt to every target at once and collect the answers.
+   * A failing target is reported in its column instead of failing the request.
+   */
+  static async compare(request: CompareRequest): Promise<CompareResult> {
+    const { message, threadId, projectId } = request;
+
+    // Searched and retrieved once so every column answers from the same sources
+    const webSearch = request.webSearchEnabled
+      ? await ChatPipelineService.performWebSearch(message, undefined, false, undefined, { projectId, threadId })
+      : { performed: false, sources: [], messageContent: message };
+    const retrieval = await ChatPipelineService.retrieveDocuments(message, projectId, threadId, request.fileIds);
+    const messages = await ChatPipelineService.buildMessages(webSearch.messageContent, projectId, threadId, retrieval.context);
+
+    const history = threadId ? await AIProviderService.getThreadMessages(threadId) : [];
+    const existingThreadFiles = await ChatPipelineService.getThreadFileIds(threadId);
+    const fileIds = [...new Set([...existingThreadFiles, ...(request.fileIds || [])])];
+
+    const columns = await Promise.all(request.targets.map(target =>
+      this.runColumn(target, messages, history, { ...request, fileIds })
+    ));
+
+    // Every answer was paid for, kept or not; the search is counted once
+    const answered = columns.filter(column => column.status === 'completed');
+    await Promise.all(answered.map((column, index) => UsageService.recordUsage({
+      threadId: threadId || column.threadId!,
+      projectId,
+      provider: column.provider,
+      usage: column.usage,
+      searchCalls: index === 0 && webSearch.performed && !webSearch.cached ? 1 : 0
+    })));
+
+    return {
+      // Citations are checked per answer against the shared sources
+      columns: webSearch.performed
+        ? columns.map(column => column.status === 'completed'
+          ? { ...column, reply: CitationService.link(column.reply, webSearch.sources).reply }
+          : column)
+        : columns,
+      searchSources: webSearch.performed ? webSearch.sources : undefined,
+      documentSources: retrieval.performed ? retrieval.sources : undefined
+    };
+  }
+
+  /**
+   * Keep one column's answer in the chat and delete the other scratch threads
+   */
+  static async keep(request: KeepRequest): Promise<{ threadId: string }> {
+    const discardThreadIds = request.discardThreadIds || [];
+    this.validateThreadIds([request.keepThreadId, ...discardThreadIds]);
+
+    if (!(await this.isScratchThread(request.keepThreadId))) {
+      throw new NotFoundError('Comparison thread', request.keepThreadId);
+    }
+
+    let threadId: string;
+    let scratchThreadIds: string[];
+
+    if (request.threadId) {
+      await AIProviderService.appendTurn(request.threadId, request.message, request.reply);
+      threadId = request.threadId;
+      scratchThreadIds = [request.keepThreadId, ...discardThreadIds];
+    } else {
+      // The scratch thread becomes the chat, so it is no longer a comparison's to delete
+      threadId = request.keepThreadId;
+      scratchThreadIds = discardThreadIds;
+      await this.claimScratchThreads([request.keepThreadId]);
+    }
+
+    await this.discard(scratchThreadIds);
+
+    if (RetrievalService.isEnabled()) {
+      await RetrievalService.indexAnswer({ threadId, projectId: request.projectId, content: request.reply });
+    }
+
+    return { threadId };
+  }
+
+  /**
+   * Delete scratch threads of a comparison that is no longer needed.
+   * IDs that are not comparison scratch threads are ignored.
+   * Returns the number of threads deleted.
+   */
+  static async discard(threadIds: string[]): Promise<number> {
+    this.validateThreadIds(threadIds);
+
+    const scratchThreadIds = await this.claimScratchThreads(threadIds);
+    await this.deleteThreads(scratchThreadIds);
+    return scratchThreadIds.length;
+  }
+
+  // Private helper methods
+
+  private static async runColumn(
+    target: CompareTarget,
+    messages: Message[],
+    history: Message[],
+    request: CompareRequest
+  ): Promise<CompareColumn> {
+    let threadId: string | undefined;
+    let startedAt = Date.now();
+
+    try {
+      threadId = await AIProviderService.createThreadOn(target.provider, history);
+      await this.trackScratchThread(threadId);
+      startedAt = Date.now();
+
+      const response = await AIProviderService.sendToProvider(target.provider, messages, {
+        threadId,
+        projectId: request.projectId,
+        webSearchEnabled: false, // Already searched for all columns
+        fileIds: request.fileIds && request.fileIds.length > 0 ? request.fileIds : undefined,
+        model: target.model,
+        temperature: request.temperature
+      });
+
+      return {
+        provider: target.provider,
+        model: response.usage?.model || target.model,
+        threadId,
+        reply: ContentCleaningService.cleanForActiveChat(response.reply || 'No response received.', {
+          preserveWebSearch: request.webSearchEnabled,
+          preserveFileLinks: true
+        }),
+        status: 'completed',
+        latencyMs: Date.now() - startedAt,
+        usage: response.usage
+      };
+    } catch (error) {
+      console.error(`Comparison with ${target.provider} failed:`, error);
+      if (threadId) {
+        await this.claimScratchThreads([threadId]).catch(() => []);
+        await this.deleteThreads([threadId]);
+      }
+
+      return {
+        provider: target.provider,
+        model: target.model,
+        reply: '',
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        latencyMs: Date.now() - startedAt
+      };
+    }
+  }
+
+  private static async trackScratchThread(threadId: string): Promise<void> {
+    const { error } = await supabase
+      .from('compare_threads')
+      .insert({ thread_id: threadId });
+
+    if (error) {
+      throw new ApiError('Failed to record comparison thread', 500, 'DATABASE_ERROR', error);
+    }
+  }
+
+  private static async isScratchThread(threadId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('compare_threads')
+      .select('thread_id')
+      .eq('thread_id', threadId)
+      .maybeSingle();
+
+    if (error) {
+      throw new ApiError('Failed to look up comparison thread', 500, 'DATABASE_ERROR', error);
+    }
+    return !!data;
+  }
+
+  /**
+   * Stop tracking the given scratch threads and return the ones that were
+   * tracked; deleting the rows first means each thread is claimed only once
+   */
+  private static async claimScratchThreads(threadIds: string[]): Promise<string[]> {
+    if (threadIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('compare_threads')
+      .delete()
+      .in('thread_id', threadIds)
+      .select('thread_id');
+
+    if (error) {
+      throw new ApiError('Failed to release comparison threads', 500, 'DATABASE_ERROR', error);
+    }
+    return (data || []).map(row => row.thread_id as string);
+  }
+
+  private static async deleteThreads(threadIds: string[]): Promise<void> {
+    await Promise.all(threadIds.map(id =>
+      AIProviderService.deleteThread(id).catch(error => {
+        console.error(`Failed to delete comparison thread ${id}:`, error);
+      })
+    ));
+  }
+
+  private static validateThreadIds(threadIds: string[]): void {
+    if (threadIds.some(id => typeof id !== 'string' || !THREAD_ID_PATTERN.test(id))) {
+      throw new ApiError('Invalid thread ID', 400, 'VALIDATION_ERROR');
+    }
+  }
+}
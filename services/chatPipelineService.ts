@@ -0,0 +1,480 @@
+// services/chatPipelineService.ts
+import { createClient } from '@supabase/supabase-js';
+import { openaiClient, storageClient } from '@/lib/clients';
+import { WebSearchResponse } from '@/lib/search/searchProvider.interface';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { ChatResponse, Message, SearchSource } from '@/lib/providers/aiProvider.interface';
+import { LocalThreadStore } from '@/lib/providers/localThreadStore';
+import { ContentCleaningService } from './contentCleaningService';
+import { ProjectInstructionsService } from './projectInstructionsService';
+import { ThreadFileService } from './threadFileService';
+import { UsageService } from './usageService';
+import { RetrievalOutcome, RetrievalService } from './retrievalService';
+import { BudgetStatus } from './budgetService';
+import { CitationService } from './citationService';
+import { SearchScope, WebSearchService } from './webSearchService';
+import { DeepResearchService, ResearchPassage } from './deepResearchService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+const DEBUG = process.env.NODE_ENV === 'development' && process.env.DEBUG_CHAT === 'true';
+
+const STOPPED_NOTICE = '_Response stopped by user._';
+
+export interface WebSearchOutcome {
+  performed: boolean;
+  sources: SearchSource[];
+  messageContent: string;
+  provider?: string; // Search backend that answered
+  cached?: boolean; // Served from the search cache, so not billed
+  pagesRead?: number; // Result pages read in deep research mode
+}
+
+export interface ChatRequestContext {
+  threadId?: string;
+  projectId?: string;
+  budget?: BudgetStatus; // Set when the project is past its soft limit
+  webSearchEnabled?: boolean;
+  newFileIds: string[];
+  allFileIds: string[];
+  webSearch: WebSearchOutcome;
+  retrieval?: RetrievalOutcome;
+}
+
+/**
+ * Shared pre/post-processing for chat requests.
+ * Extracted from: /app/api/chat/route.ts so the streaming route behaves the same.
+ */
+export class ChatPipelineService {
+  /**
+   * Get the file IDs (OpenAI or locally extracted) already attached to a thread
+   */
+  static async getThreadFileIds(threadId?: string): Promise<string[]> {
+    const existingThreadFiles: string[] = [];
+    if (!threadId) return existingThreadFiles;
+
+    try {
+      const { data: threadFiles } = await supabase
+        .from('thread_file_context')
+        .select('*')
+        .eq('thread_id', threadId)
+        .eq('is_active', true);
+
+      if (threadFiles) {
+        threadFiles.forEach((file: any) => {
+          const fileContext = file.file_context_tracking;
+          if (fileContext?.openai_file_id) {
+            existingThreadFiles.push(fileContext.openai_file_id);
+          }
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching thread files:', error);
+    }
+
+    return existingThreadFiles;
+  }
+
+  /**
+   * Messages for the provider: project instructions and retrieved document
+   * passages (if any) plus the user turn
+   */
+  static async buildMessages(
+    content: string,
+    projectId?: string,
+    threadId?: string,
+    documentContext?: string
+  ): Promise<Message[]> {
+    const instructions = await ProjectInstructionsService.getInstructions(projectId, threadId);
+
+    return [
+      ...(instructions ? [{ role: 'system' as const, content: instructions }] : []),
+      ...(documentContext ? [{ role: 'system' as const, content: documentContext }] : []),
+      { role: 'user', content }
+    ];
+  }
+
+  /**
+   * Attach newly uploaded files to the project, then find relevant passages
+   * from project documents and earlier answers
+   */
+  static async retrieveDocuments(
+    query: string,
+    projectId?: string,
+    threadId?: string,
+    newFileIds: string[] = []
+  ): Promise<RetrievalOutcome> {
+    if (!RetrievalService.isEnabled()) {
+      return { performed: false, sources: [] };
+    }
+
+    await RetrievalService.assignSources(newFileIds, projectId, threadId);
+    return RetrievalService.retrieve(query, projectId, threadId);
+  }
+
+  /**
+   * Search with the project's web search backend and build the search-enhanced prompt.
+   * In deep research mode the top result pages are read and their best passages added.
+   */
+  static async performWebSearch(
+    message: string,
+    originalMessage: string | undefined,
+    useJsonFormat: boolean,
+    signal?: AbortSignal,
+    context: SearchScope & { deepResearch?: boolean } = {}
+  ): Promise<WebSearchOutcome> {
+    const outcome: WebSearchOutcome = {
+      performed: false,
+      sources: [],
+      messageContent: originalMessage || message
+    };
+
+    try {
+      if (DEBUG) console.log('Performing web search...');
+      const { deepResearch, ...scope } = context;
+      const searchResults = await WebSearchService.search({ query: originalMessage || message, signal }, scope);
+
+      if (searchResults && searchResults.results) {
+        outcome.performed = true;
+        outcome.provider = searchResults.provider;
+        outcome.cached = searchResults.cached;
+        outcome.sources = CitationService.number(searchResults.results.map(r => ({
+          title: r.title,
+          url: r.url,
+          snippet: r.content?.substring(0, 200) + '...'
+        })));
+
+        let passages: ResearchPassage[] = [];
+        if (deepResearch && DeepResearchService.isEnabled()) {
+          const research = await DeepResearchService.research(originalMessage || message, outcome.sources, signal);
+          passages = research.passages;
+          outcome.pagesRead = research.pagesRead;
+          if (DEBUG) console.log(`Deep research read ${research.pagesRead} pages, ${passages.length} passages (~${research.tokens} tokens)`);
+        }
+
+        outcome.messageContent = this.formatSearchEnhancedMessage(message, searchResults, useJsonFormat, passages);
+        if (DEBUG) console.log('Web search enhanced message created');
+      }
+    } catch (error) {
+      // No backend configured for this project: answer without web results
+      if (!(error instanceof ApiError && error.code === 'SEARCH_NOT_CONFIGURED')) {
+        console.error('Web search failed:', error);
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Friendly reply for runs that failed, so the user still gets an answer
+   */
+  static failedRunResponse(
+    error: ApiError,
+    threadId: string | undefined,
+    webSearchEnabled?: boolean
+  ): ChatResponse {
+    return {
+      reply: webSearchEnabled
+        ? 'The assistant failed to process your request with web search. Please try again without web search.'
+        : 'The assistant run failed. Please try again.',
+      threadId: error.details?.threadId || threadId,
+      messageId: error.details?.runId,
+      status: 'failed'
+    };
+  }
+
+  /**
+   * Response for requests the user stopped before the provider was called
+   */
+  static cancelledResponse(threadId?: string): ChatResponse {
+    return {
+      reply: '',
+      threadId,
+      status: 'cancelled'
+    };
+  }
+
+  /**
+   * Store generated files, update thread tracking and build the API payload
+   */
+  static async finalizeResponse(response: ChatResponse, context: ChatRequestContext) {
+    const currentThreadId = response.threadId || context.threadId || '';
+    const status = response.status || 'completed';
+    let reply = status === 'cancelled'
+      ? [response.reply, STOPPED_NOTICE].filter(Boolean).join('\n\n')
+      : response.reply || 'No response received.';
+
+    // Generated images/graphs from code interpreter
+    const fileOutputs = (response.files || []).map(file => ({
+      fileId: file.file_id,
+      description: file.filename
+    }));
+
+    if (status === 'completed' && fileOutputs.length > 0) {
+      // CRITICAL FIX: Process file outputs (images/graphs)
+      reply = await this.processFileOutputs(fileOutputs, currentThreadId, reply);
+
+      // Also handle storage upload for non-image files
+      if (storageClient) {
+        for (const file of fileOutputs) {
+          if (!file.description.toLowerCase().includes('image') &&
+              !file.description.toLowerCase().includes('graph')) {
+            await this.uploadFileToStorage(file.fileId, file.description, currentThreadId);
+          }
+        }
+      }
+    }
+
+    // Update thread file tracking
+    if (status === 'completed' && currentThreadId && context.newFileIds.length > 0) {
+      await this.updateThreadFileTracking(currentThreadId, context.newFileIds, context.allFileIds);
+    }
+
+    // Token and tool usage for cost accounting
+    if (currentThreadId) {
+      await UsageService.recordUsage({
+        threadId: currentThreadId,
+        projectId: context.projectId,
+        messageId: response.messageId,
+        provider: response.provider,
+        usage: response.usage,
+        searchCalls: context.webSearch.performed && !context.webSearch.cached ? 1 : 0
+      });
+    }
+
+    // Clean response content with proper preservation
+    let cleanedReply = ContentCleaningService.cleanForActiveChat(reply, {
+      preserveWebSearch: context.webSearchEnabled,
+      preserveFileLinks: true
+    });
+
+    // Check [n] citations against the numbered search sources (structured JSON is left as is)
+    let searchSources = context.webSearch.performed ? context.webSearch.sources : response.searchSources;
+    if (status === 'completed' && searchSources?.length && response.parsedResponse === undefined) {
+      const citations = CitationService.link(cleanedReply, searchSources);
+      cleanedReply = citations.reply;
+      searchSources = citations.sources;
+      if (DEBUG && citations.invalidCitations > 0) {
+        console.log(`Removed ${citations.invalidCitations} citation(s) without a matching source`);
+      }
+    }
+
+    // Make the answer and this thread's new files retrievable from sibling threads
+    if (status === 'completed' && currentThreadId && RetrievalService.isEnabled()) {
+      if (!context.threadId && context.newFileIds.length > 0) {
+        await RetrievalService.assignSources(context.newFileIds, context.projectId, currentThreadId);
+      }
+      await RetrievalService.indexAnswer({
+        threadId: currentThreadId,
+        projectId: context.projectId,
+        messageId: response.messageId,
+        content: cleanedReply
+      });
+    }
+
+    return {
+      reply: cleanedReply,
+      threadId: currentThreadId,
+      searchSources,
+      documentSources: context.retrieval?.performed ? context.retrieval.sources : undefined,
+      messageId: response.messageId,
+      status,
+      provider: response.provider,
+      fallbackUsed: response.fallbackUsed,
+      usage: response.usage,
+      parsedResponse: response.parsedResponse,
+      budget: context.budget,
+      fileOutput: fileOutputs.length > 0 ? fileOutputs : undefined, // Keep for backward compatibility
+      isComplete: status === 'completed'
+    };
+  }
+
+  // Private helper methods
+
+  private static formatSearchEnhancedMessage(
+    message: string,
+    searchResults: WebSearchResponse,
+    useJsonFormat: boolean,
+    passages: ResearchPassage[] = []
+  ): string {
+    let enhancedMessage = message;
+
+    // Add search context wrapper
+    enhancedMessage += '\n\n[INTERNAL SEARCH CONTEXT - DO NOT INCLUDE IN RESPONSE]:';
+
+    if (searchResults.answer) {
+      enhancedMessage += `\n\nWeb Search Summary: ${searchResults.answer}`;
+    }
+
+    enhancedMessage += '\n\nSources:\n';
+    searchResults.results.forEach((result, index) => {
+      // Numbered in the same order as WebSearchOutcome.sources, so [n] maps back to a source
+      enhancedMessage += `[${index + 1}] ${result.title}\n`;
+      enhancedMessage += `   ${result.content.substring(0, 200)}...\n`;
+      enhancedMessage += `   Source: ${result.url}↗\n\n`;
+    });
+
+    if (passages.length > 0) {
+      enhancedMessage += DeepResearchService.formatPassages(passages) + '\n';
+    }
+
+    enhancedMessage += '[END SEARCH CONTEXT]\n\n';
+    enhancedMessage += 'Please provide a natural response incorporating relevant information from the search results above. ';
+    enhancedMessage += CitationService.instructions();
+
+    if (useJsonFormat) {
+      enhancedMessage += '\n\nPlease format your response as a valid JSON object.';
+    }
+
+    return enhancedMessage;
+  }
+
+  private static async uploadFileToStorage(fileId: string, description: string, threadId: string) {
+    if (!storageClient) return null;
+
+    try {
+      const fileContent = await openaiClient.getFileContent(fileId);
+      const fileBuffer = Buffer.from(fileContent);
+      const filename = `${description}-${Date.now()}.docx`;
+
+      const result = await storageClient.upload(
+        fileBuffer,
+        `threads/${threadId}/${filename}`,
+        {
+          contentType: 'application/octet-stream'
+        }
+      );
+
+      await supabase
+        .from('blob_files')
+        .insert({
+          openai_file_id: fileId,
+          vercel_blob_url: result.url,
+          vercel_file_key: result.pathname,
+          filename: filename,
+          content_type: 'application/octet-stream',
+          file_size: fileBuffer.length,
+          thread_id: threadId,
+          created_at: new Date().toISOString()
+        });
+
+      return result;
+    } catch (error) {
+      console.error(`Error uploading file ${fileId}:`, error);
+      return null;
+    }
+  }
+
+  private static async updateThreadFileTracking(threadId: string, newFileIds: string[], allFileIds: string[]) {
+    try {
+      for (const fileId of newFileIds) {
+        try {
+          if (LocalThreadStore.isLocalFile(fileId)) {
+            const local = await LocalThreadStore.getFile(fileId);
+            if (local) {
+              await ThreadFileService.addFileToThread(threadId, fileId, local.filename, local.contentType, local.size);
+            }
+            continue;
+          }
+
+          const metadata = await openaiClient.getFile(fileId);
+
+          await ThreadFileService.addFileToThread(
+            threadId,
+            fileId,
+            metadata.filename || `file-${Date.now()}`,
+            metadata.purpose || 'assistants',
+            metadata.bytes || 0
+          );
+        } catch (error) {
+          console.error(`Error processing file ${fileId}:`, error);
+        }
+      }
+
+      if (allFileIds.length > 0) {
+        await ThreadFileService.updateFileUsage(threadId, allFileIds);
+      }
+    } catch (error) {
+      console.error('Error updating thread file tracking:', error);
+    }
+  }
+
+  /**
+   * Store generated file references and inject markdown links/images into the reply
+   */
+  private static async processFileOutputs(
+    fileOutputs: Array<{ fileId: string; description: string }>,
+    threadId: string,
+    messageContent: string
+  ): Promise<string> {
+    if (!fileOutputs || fileOutputs.length === 0) {
+      return messageContent;
+    }
+
+    console.log(`Processing ${fileOutputs.length} file outputs`);
+
+    let enhancedContent = messageContent;
+    const processedFiles: string[] = [];
+
+    for (const fileOutput of fileOutputs) {
+      try {
+        const { fileId, description } = fileOutput;
+
+        // Store file reference in database
+        await supabase
+          .from('blob_files')
+          .upsert({
+            openai_file_id: fileId,
+            file_id: fileId,
+            thread_id: threadId,
+            filename: `${description.replace(/\s+/g, '_')}_${Date.now()}`,
+            description: description,
+            type: 'file',
+            content_type: 'application/octet-stream',
+            file_size: 0,
+            created_at: new Date().toISOString()
+          }, {
+            onConflict: 'openai_file_id',
+            ignoreDuplicates: false
+          });
+
+        // Create download/view URL
+        const fileUrl = `/api/files/${fileId}`;
+
+        // Determine if it's likely an image/graph based on description
+        const imageKeywords = [
+          'graph', 'chart', 'plot', 'diagram',
+          'image', 'visualization', 'figure',
+          'drawing', 'illustration', 'picture'
+        ];
+
+        const isImage = imageKeywords.some(keyword =>
+          description.toLowerCase().includes(keyword)
+        );
+
+        // Add appropriate markdown to content
+        if (isImage) {
+          enhancedContent += `\n\n![${description}](${fileUrl})`;
+          console.log(`Added image reference: ${fileUrl}`);
+        } else {
+          enhancedContent += `\n\n[Download ${description}](${fileUrl})`;
+          console.log(`Added file download link: ${fileUrl}`);
+        }
+
+        processedFiles.push(fileId);
+
+      } catch (error) {
+        console.error(`Error processing file output ${fileOutput.fileId}:`, error);
+      }
+    }
+
+    if (processedFiles.length > 0) {
+      console.log(`Successfully processed ${processedFiles.length} file outputs`);
+    }
+
+    return enhancedContent;
+  }
+}
@@ -1,15 +1,27 @@
-import { baseFetch } from './apiClient';
-import { ChatResponse } from '../types/entities.types';
+import { baseFetch, ApiError } from './apiClient';
+import { ChatResponse, CompareResult, CompareTarget, ModelOptions, ChatRequestSettings } from '../types/entities.types';
 import { CONSTANTS } from '../types/constants';
 
+export interface ChatStreamHandlers {
+  onThread?: (threadId: string) => void;
+  onRun?: (runId: string) => void;
+  onStatus?: (stage: string) => void;
+  onDelta?: (content: string) => void;
+  onTool?: (tool: string, status: string, detail?: string) => void;
+}
+
 export class ChatService {
   static async sendMessage(data: {
     message: string;
     originalMessage: string;
     threadId?: string | null;
+    projectId?: string;
     webSearchEnabled?: boolean;
     fileIds?: string[];
-  }): Promise<ChatResponse> {
+    outputSchema?: Record<string, unknown>; // JSON Schema the answer must match (parsedResponse)
+    outputSchemaName?: string;
+    outputSchemaId?: string; // Or a stored schema from /api/schemas
+  } & ChatRequestSettings): Promise<ChatResponse> {
     const response = await baseFetch(CONSTANTS.API_ENDPOINTS.CHAT, {
       method: 'POST',
       body: JSON.stringify(data),
@@ -18,6 +30,154 @@ export class ChatService {
     return response.json();
   }
 
+  /**
+   * Send a message and receive the reply incrementally over SSE.
+   * Resolves with the same payload as sendMessage once the run finishes.
+   */
+  static async streamMessage(
+    data: {
+      message: string;
+      originalMessage: string;
+      threadId?: string | null;
+      projectId?: string;
+      webSearchEnabled?: boolean;
+      fileIds?: string[];
+      requestId?: string;
+    } & ChatRequestSettings,
+    handlers: ChatStreamHandlers = {},
+    signal?: AbortSignal
+  ): Promise<ChatResponse> {
+    const response = await baseFetch(CONSTANTS.API_ENDPOINTS.CHAT_STREAM, {
+      method: 'POST',
+      body: JSON.stringify(data),
+      signal,
+    });
+
+    if (!response.body) {
+      throw new ApiError(0, 'Streaming not supported');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop() || '';
+
+      for (const frame of frames) {
+        const event = frame.match(/^event: (.*)$/m)?.[1];
+        const payload = frame.match(/^data: (.*)$/m)?.[1];
+        if (!event || !payload) continue;
+
+        const parsed = JSON.parse(payload);
+        switch (event) {
+          case 'thread':
+            handlers.onThread?.(parsed.threadId);
+            break;
+          case 'run':
+            handlers.onRun?.(parsed.runId);
+            break;
+          case 'status':
+            handlers.onStatus?.(parsed.stage);
+            break;
+          case 'delta':
+            handlers.onDelta?.(parsed.content);
+            break;
+          case 'tool':
+            handlers.onTool?.(parsed.tool, parsed.status, parsed.detail);
+            break;
+          case 'done':
+            return parsed;
+          case 'error':
+            throw new ApiError(parsed.error?.status || 500, parsed.error?.message || 'Stream failed', parsed.error?.code);
+        }
+      }
+    }
+
+    throw new ApiError(0, 'Stream ended unexpectedly');
+  }
+
+  /**
+   * Ask the server to stop an in-flight request
+   */
+  static async cancelMessage(data: {
+    requestId: string;
+    threadId?: string | null;
+    runId?: string;
+  }): Promise<{ cancelled: boolean }> {
+    const response = await baseFetch(CONSTANTS.API_ENDPOINTS.CHAT_CANCEL, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+
+  /**
+   * Providers that can take part in a comparison, with their models
+   */
+  static async getCompareOptions(): Promise<ModelOptions[]> {
+    const response = await baseFetch(CONSTANTS.API_ENDPOINTS.CHAT_COMPARE);
+    const { providers } = await response.json();
+    return providers;
+  }
+
+  /**
+   * Answer one message with several providers/models side by side
+   */
+  static async compareMessage(data: {
+    message: string;
+    targets: CompareTarget[];
+    threadId?: string | null;
+    projectId?: string;
+    webSearchEnabled?: boolean;
+    fileIds?: string[];
+    temperature?: number;
+  }): Promise<CompareResult> {
+    const response = await baseFetch(CONSTANTS.API_ENDPOINTS.CHAT_COMPARE, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    const result = await response.json();
+    return { ...result, prompt: data.message };
+  }
+
+  /**
+   * Keep one compared answer in the chat; resolves with the chat's thread ID
+   */
+  static async keepComparison(data: {
+    message: string;
+    reply: string;
+    keepThreadId: string;
+    discardThreadIds: string[];
+    threadId?: string | null;
+    projectId?: string;
+  }): Promise<{ threadId: string }> {
+    const response = await baseFetch(CONSTANTS.API_ENDPOINTS.CHAT_COMPARE_KEEP, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    return response.json();
+  }
+
+  /**
+   * Drop a comparison without keeping an answer
+   */
+  static async discardComparison(threadIds: string[]): Promise<void> {
+    if (threadIds.length === 0) return;
+
+    await baseFetch(`${CONSTANTS.API_ENDPOINTS.CHAT_COMPARE}?threadIds=${encodeURIComponent(threadIds.join(','))}`, {
+      method: 'DELETE',
+    });
+  }
+
   static async uploadFile(file: File): Promise<{ fileId: string }> {
     const formData = new FormData();
     formData.append('file', file);
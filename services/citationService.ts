@@ -0,0 +1,90 @@
+// services/citationService.ts
+import { SearchSource } from '@/lib/providers/aiProvider.interface';
+
+export interface CitationResult {
+  reply: string;
+  sources: SearchSource[]; // With `cited` set on the sources the reply refers to
+  invalidCitations: number; // Markers removed because no source has that number
+}
+
+// [1], [2, 3], [1-3] with the spaces before them; not markdown links like [1](url)
+const CITATION_PATTERN = /( *)\[(\d{1,3}(?:\s*[,–-]\s*\d{1,3})*)\](?!\()/g;
+// Fenced blocks and inline code are left untouched
+const CODE_PATTERN = /(```[\s\S]*?```|`[^`\n]*`)/g;
+const MAX_RANGE = 20;
+
+/**
+ * Inline numbered citations for web search answers. Sources carry stable
+ * 1-based IDs in the prompt; replies cite them as [n]. Checking a reply
+ * drops markers that point at no source, normalizes lists and ranges to
+ * [1][2] and records which sources were actually cited.
+ */
+export class CitationService {
+  /**
+   * Give sources their citation numbers, continuing after `offset` earlier ones
+   */
+  static number<T extends Omit<SearchSource, 'id'>>(sources: T[], offset = 0): (T & { id: number })[] {
+    return sources.map((source, index) => ({ ...source, id: offset + index + 1 }));
+  }
+
+  /**
+   * Prompt instruction asking the model to cite numbered sources
+   */
+  static instructions(): string {
+    return 'Cite the sources above inline by their number in square brackets right after the claim they support, e.g. [1] or [2][3]. ' +
+      'Only use numbers listed above, never invent sources, and do not add a separate reference list.';
+  }
+
+  /**
+   * Check the citations in a reply against its sources
+   */
+  static link(reply: string, sources: SearchSource[]): CitationResult {
+    const ids = new Set(sources.map(source => source.id).filter((id): id is number => id !== undefined));
+    const cited = new Set<number>();
+    let invalidCitations = 0;
+
+    const checked = reply
+      .split(CODE_PATTERN)
+      .map((segment, index) => {
+        // Odd segments are the code captured by the split
+        if (index % 2 === 1) return segment;
+
+        return segment.replace(CITATION_PATTERN, (marker, spaces: string, list: string, offset: number) => {
+          // Escaped brackets (\[1]) are literal text
+          if (offset > 0 && segment[offset - 1] === '\\') return marker;
+
+          const numbers = this.parseList(list);
+          const valid = numbers.filter(id => ids.has(id));
+          invalidCitations += numbers.length - valid.length;
+          valid.forEach(id => cited.add(id));
+
+          // A dropped marker takes its leading spaces with it
+          return valid.length > 0 ? spaces + valid.map(id => `[${id}]`).join('') : '';
+        });
+      })
+      .join('');
+
+    return {
+      reply: ids.size > 0 ? checked : reply,
+      sources: sources.map(source => ({ ...source, cited: source.id !== undefined && cited.has(source.id) })),
+      invalidCitations: ids.size > 0 ? invalidCitations : 0
+    };
+  }
+
+  // Private helper methods
+
+  private static parseList(list: string): number[] {
+    const numbers: number[] = [];
+
+    for (const part of list.split(',')) {
+      const [start, end] = part.split(/[–-]/).map(value => parseInt(value.trim(), 10));
+      if (end === undefined || isNaN(end)) {
+        numbers.push(start);
+      } else if (end >= start && end - start < MAX_RANGE) {
+        for (let id = start; id <= end; id++) numbers.push(id);
+      }
+    }
+
+    return [...new Set(numbers.filter(id => !isNaN(id)))];
+  }
+}
@@ -0,0 +1,445 @@
+// services/deepResearchService.ts
+import { lookup as dnsLookup, LookupAddress } from 'dns';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { isIP, LookupFunction } from 'net';
+import { pipeline, Readable } from 'stream';
+import { createBrotliDecompress, createGunzip, createInflate } from 'zlib';
+import { SearchSource } from '@/lib/providers/aiProvider.interface';
+import { TextExtractionService } from './textExtractionService';
+
+export interface ResearchPassage {
+  sourceId: number; // Citation number of the page it came from
+  title: string;
+  url: string;
+  content: string;
+  score: number;
+}
+
+export interface ResearchOutcome {
+  passages: ResearchPassage[]; // Best passages within the token budget, grouped by source
+  pagesRead: number;
+  pagesFailed: number;
+  tokens: number;
+}
+
+interface PageText {
+  source: SearchSource & { id: number };
+  text: string;
+}
+
+// Same rough estimate as ThreadMemoryService
+const CHARS_PER_TOKEN = 4;
+const MAX_REDIRECTS = 3;
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'under', 'about', 'into', 'any', 'there'
+]);
+
+// Layout around the main content that carries no answer text
+const BOILERPLATE_PATTERN = /<(script|style|noscript|svg|nav|header|footer|aside|form|iframe|template)\b[^>]*>[\s\S]*?<\/\1>/gi;
+
+/**
+ * Deep research for web search answers. Fetches the top result pages,
+ * extracts their readable main text (HTML) or text layer (PDF) locally,
+ * splits it into passages and ranks them against the question with BM25.
+ * The best passages go into the prompt within a token budget, so answers
+ * about a specific regulation can quote the regulation instead of a
+ * 200-character snippet. Only public http(s) addresses are fetched, and
+ * connections are pinned to the addresses that were checked.
+ */
+export class DeepResearchService {
+  static isEnabled(): boolean {
+    return process.env.DEEP_RESEARCH_ENABLED === 'true';
+  }
+
+  /**
+   * Read the top sources and pick the passages that best answer the question
+   */
+  static async research(question: string, sources: SearchSource[], signal?: AbortSignal): Promise<ResearchOutcome> {
+    const { topN } = this.getConfig();
+    const targets = sources
+      .filter((source): source is SearchSource & { id: number } => source.id !== undefined)
+      .slice(0, topN);
+
+    const pages = await Promise.all(targets.map(source => this.readPage(source, signal)));
+    const read = pages.filter((page): page is PageText => page !== null);
+
+    const passages = this.selectPassages(question, read);
+    return {
+      passages,
+      pagesRead: read.length,
+      pagesFailed: targets.length - read.length,
+      tokens: passages.reduce((total, passage) => total + this.estimateTokens(passage.content), 0)
+    };
+  }
+
+  /**
+   * Prompt section with the passages, labelled by citation number
+   */
+  static formatPassages(passages: ResearchPassage[]): string {
+    let section = 'Extracted passages from the top sources (cite them by the same [n]):\n';
+    let currentSource: number | undefined;
+
+    for (const passage of passages) {
+      if (passage.sourceId !== currentSource) {
+        currentSource = passage.sourceId;
+        section += `\n[${passage.sourceId}] ${passage.title}\n`;
+      }
+      section += `   "${passage.content}"\n`;
+    }
+
+    return section;
+  }
+
+  // Private helper methods
+
+  private static getConfig() {
+    return {
+      topN: parseInt(process.env.DEEP_RESEARCH_TOP_N || '3'),
+      tokenBudget: parseInt(process.env.DEEP_RESEARCH_TOKEN_BUDGET || '3000'),
+      fetchTimeout: parseInt(process.env.DEEP_RESEARCH_FETCH_TIMEOUT || '10000'),
+      maxBytes: parseInt(process.env.DEEP_RESEARCH_MAX_BYTES || '5000000'),
+      chunkChars: parseInt(process.env.DEEP_RESEARCH_CHUNK_CHARS || '1000'),
+      maxPassagesPerSource: parseInt(process.env.DEEP_RESEARCH_MAX_PASSAGES_PER_SOURCE || '4')
+    };
+  }
+
+  private static async readPage(source: SearchSource & { id: number }, signal?: AbortSignal): Promise<PageText | null> {
+    try {
+      const { body, contentType, url } = await this.fetchPage(source.url, signal);
+      const isPdf = contentType.includes('application/pdf') || /\.pdf($|[?#])/i.test(url);
+
+      let text: string;
+      if (isPdf) {
+        text = TextExtractionService.extractPdfText(body);
+      } else if (contentType.includes('html') || contentType === '') {
+        text = this.extractMainText(body.toString('utf8'));
+      } else if (contentType.startsWith('text/')) {
+        text = body.toString('utf8');
+      } else {
+        return null;
+      }
+
+      text = text.replace(/[ \t]+/g, ' ').replace(/\n\s*\n\s*/g, '\n\n').trim();
+      return text ? { source, text } : null;
+    } catch (error) {
+      if (signal?.aborted) return null;
+      console.error(`Deep research could not read ${source.url}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch a public page, following redirects manually so every hop is checked
+   */
+  private static async fetchPage(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<{ body: Buffer; contentType: string; url: string }> {
+    const { fetchTimeout, maxBytes } = this.getConfig();
+    const timeout = AbortSignal.timeout(fetchTimeout);
+    const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+    let current = new URL(url);
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      this.assertPublicUrl(current);
+
+      const response = await this.request(current, combined);
+      const status = response.statusCode || 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        current = new URL(response.headers.location, current);
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new Error(`HTTP ${status}`);
+      }
+
+      const declared = parseInt(response.headers['content-length'] || '0');
+      if (declared > maxBytes) {
+        response.destroy();
+        throw new Error(`Page is larger than ${maxBytes} bytes`);
+      }
+
+      // Limit the decoded size too; undeclared sizes are common
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const body = this.decode(response);
+      for await (const chunk of body) {
+        size += chunk.length;
+        if (size > maxBytes) {
+          body.destroy();
+          response.destroy();
+          throw new Error(`Page is larger than ${maxBytes} bytes`);
+        }
+        chunks.push(chunk);
+      }
+
+      return {
+        body: Buffer.concat(chunks),
+        contentType: (response.headers['content-type'] || '').toLowerCase(),
+        url: current.toString()
+      };
+    }
+
+    throw new Error('Too many redirects');
+  }
+
+  /**
+   * GET a URL, connecting only to addresses checked by publicLookup. The
+   * check and the connection use the same resolution, so a DNS answer that
+   * changes between them cannot point the request at an internal host.
+   */
+  private static request(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = client.get(url, {
+        signal,
+        lookup: this.publicLookup,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; DigitalStrategyBot/1.0; research)',
+          Accept: 'text/html,application/xhtml+xml,application/pdf,text/plain;q=0.9,*/*;q=0.5',
+          'Accept-Encoding': 'gzip, deflate, br'
+        }
+      }, resolve);
+      request.on('error', reject);
+    });
+  }
+
+  /**
+   * dns.lookup that fails when the host resolves to any non-public address
+   */
+  private static publicLookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, '', 0);
+
+      const blocked = addresses.find(entry => DeepResearchService.isPrivateAddress(entry.address));
+      if (addresses.length === 0 || blocked) {
+        return callback(new Error(`${hostname} is not a public address`), '', 0);
+      }
+
+      if (options.all) {
+        (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+
+  /**
+   * Decoded body. pipeline() passes aborts and errors from the response on to
+   * the decoder (and destroying the decoder destroys the response), so reads
+   * never hang on a body that stops mid-way.
+   */
+  private static decode(response: IncomingMessage): Readable {
+    const decoder = {
+      gzip: createGunzip,
+      deflate: createInflate,
+      br: createBrotliDecompress
+    }[response.headers['content-encoding'] || ''];
+
+    if (!decoder) return response;
+    // Errors surface through the returned stream; the callback only keeps them from being unhandled
+    return pipeline(response, decoder(), () => {});
+  }
+
+  /**
+   * Refuse non-http(s) URLs and literal non-public IPs. Hostnames are checked
+   * when they are resolved, in publicLookup.
+   */
+  private static assertPublicUrl(url: URL): void {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error(`Unsupported protocol ${url.protocol}`);
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(hostname) && this.isPrivateAddress(hostname)) {
+      throw new Error(`${hostname} is not a public address`);
+    }
+  }
+
+  private static isPrivateAddress(address: string): boolean {
+    const normalized = address.toLowerCase().replace(/%.*$/, '');
+
+    if (isIP(normalized) === 4) {
+      return this.isPrivateIPv4(normalized);
+    }
+    if (isIP(normalized) !== 6) return true;
+
+    const groups = this.parseIPv6(normalized);
+    const prefixZero = (count: number) => groups.slice(0, count).every(group => group === 0);
+
+    // Embedded-IPv4 forms (dotted or hex, e.g. ::ffff:7f00:1) can reach any IPv4 host; no public site needs them
+    return prefixZero(6) || // ::, ::1 and IPv4-compatible addresses
+      (prefixZero(5) && groups[5] === 0xffff) || // IPv4-mapped
+      (prefixZero(4) && groups[4] === 0xffff && groups[5] === 0) || // IPv4-translated
+      (groups[0] === 0x64 && groups[1] === 0xff9b) || // NAT64, which reaches embedded IPv4 addresses
+      groups[0] === 0x2002 || // 6to4
+      (groups[0] === 0x2001 && groups[1] === 0) || // Teredo
+      (groups[0] & 0xfe00) === 0xfc00 || // Unique local
+      (groups[0] & 0xffc0) === 0xfe80 || // Link-local
+      (groups[0] & 0xffc0) === 0xfec0 || // Site-local
+      (groups[0] & 0xff00) === 0xff00; // Multicast
+  }
+
+  private static isPrivateIPv4(address: string): boolean {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)); // Benchmarking
+  }
+
+  /**
+   * Eight 16-bit groups of a valid IPv6 address, with a dotted IPv4 tail expanded
+   */
+  private static parseIPv6(address: string): number[] {
+    let text = address;
+    const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (dotted) {
+      const [a, b, c, d] = dotted.slice(1).map(Number);
+      text = text.slice(0, dotted.index) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+
+    const [head, tail] = text.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const missing = tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+
+    return [...headGroups, ...Array(missing).fill('0'), ...tailGroups].map(group => parseInt(group, 16));
+  }
+
+  /**
+   * Readable main text of an HTML page: the largest <article>, else <main>,
+   * else the body, without navigation, headers, footers and scripts
+   */
+  private static extractMainText(html: string): string {
+    const cleaned = html.replace(/<!--[\s\S]*?-->/g, ' ').replace(BOILERPLATE_PATTERN, ' ');
+
+    const articles = [...cleaned.matchAll(/<article\b[^>]*>([\s\S]*?)<\/article>/gi)].map(match => match[1]);
+    const main = cleaned.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1];
+    const body = cleaned.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1];
+
+    const largestArticle = articles.sort((a, b) => b.length - a.length)[0];
+    return TextExtractionService.stripHtml(largestArticle || main || body || cleaned);
+  }
+
+  /**
+   * Rank passages from every page with BM25 and fill the token budget
+   */
+  private static selectPassages(question: string, pages: PageText[]): ResearchPassage[] {
+    const { tokenBudget, chunkChars, maxPassagesPerSource } = this.getConfig();
+    const queryTerms = [...new Set(this.tokenize(question))];
+    if (queryTerms.length === 0) return [];
+
+    const candidates = pages.flatMap(page =>
+      this.chunkText(page.text, chunkChars).map((content, position) => ({
+        page,
+        content,
+        position,
+        terms: this.tokenize(content)
+      }))
+    );
+    if (candidates.length === 0) return [];
+
+    // Document frequency of each query term across all passages
+    const averageLength = candidates.reduce((total, candidate) => total + candidate.terms.length, 0) / candidates.length;
+    const documentFrequency = new Map(queryTerms.map(term => [
+      term,
+      candidates.filter(candidate => candidate.terms.includes(term)).length
+    ]));
+
+    const scored = candidates
+      .map(candidate => {
+        const counts = new Map<string, number>();
+        candidate.terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+
+        const score = queryTerms.reduce((total, term) => {
+          const frequency = counts.get(term) || 0;
+          if (frequency === 0) return total;
+          const df = documentFrequency.get(term) || 0;
+          const idf = Math.log(1 + (candidates.length - df + 0.5) / (df + 0.5));
+          const norm = frequency + BM25_K1 * (1 - BM25_B + BM25_B * candidate.terms.length / averageLength);
+          return total + idf * (frequency * (BM25_K1 + 1)) / norm;
+        }, 0);
+
+        return { ...candidate, score };
+      })
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const selected: typeof scored = [];
+    const perSource = new Map<number, number>();
+    let tokens = 0;
+
+    for (const candidate of scored) {
+      const sourceId = candidate.page.source.id;
+      const cost = this.estimateTokens(candidate.content);
+      if ((perSource.get(sourceId) || 0) >= maxPassagesPerSource || tokens + cost > tokenBudget) continue;
+
+      selected.push(candidate);
+      perSource.set(sourceId, (perSource.get(sourceId) || 0) + 1);
+      tokens += cost;
+    }
+
+    // Read in page order so passages from one source stay together
+    return selected
+      .sort((a, b) => a.page.source.id - b.page.source.id || a.position - b.position)
+      .map(candidate => ({
+        sourceId: candidate.page.source.id,
+        title: candidate.page.source.title,
+        url: candidate.page.source.url,
+        content: candidate.content,
+        score: Math.round(candidate.score * 100) / 100
+      }));
+  }
+
+  /**
+   * Split text into passages, ending them at natural breaks
+   */
+  private static chunkText(text: string, chunkChars: number): string[] {
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+      let end = Math.min(start + chunkChars, text.length);
+
+      if (end < text.length) {
+        // Paragraph, then line, sentence and word breaks, if not too early in the window
+        const window = text.substring(start, end);
+        const breakAt = ['\n\n', '\n', '. ', ' ']
+          .map(separator => window.lastIndexOf(separator))
+          .find(index => index > chunkChars / 2);
+        if (breakAt !== undefined) {
+          end = start + breakAt + 1;
+        }
+      }
+
+      const chunk = text.substring(start, end).replace(/\s+/g, ' ').trim();
+      if (chunk.length > 40) chunks.push(chunk);
+      start = end;
+    }
+
+    return chunks;
+  }
+
+  private static tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+      .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+  }
+
+  private static estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+}
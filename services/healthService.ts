@@ -0,0 +1,258 @@
+// services/healthService.ts
+import { createClient } from '@supabase/supabase-js';
+import { storageClient } from '@/lib/clients';
+import { SearchProviderFactory } from '@/lib/search/searchProviderFactory';
+import { AIProviderService } from './aiProviderService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export type CheckStatus = 'ok' | 'degraded' | 'down' | 'not_configured';
+
+export interface CheckResult {
+  status: CheckStatus;
+  critical: boolean; // Critical checks decide readiness
+  latencyMs?: number;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface HealthReport {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  ready: boolean;
+  timestamp: string;
+  uptimeSeconds: number;
+  checks: {
+    providers: CheckResult;
+    supabase: CheckResult;
+    storage: CheckResult;
+    search: CheckResult;
+    cleanup: CheckResult;
+  };
+}
+
+// What unauthenticated callers see: status flags only, since check messages
+// and details can carry upstream errors and internal hostnames
+export interface PublicHealthReport {
+  status: HealthReport['status'];
+  ready: boolean;
+  timestamp: string;
+  checks: Record<keyof HealthReport['checks'], Pick<CheckResult, 'status' | 'critical'>>;
+}
+
+const startedAt = Date.now();
+
+/**
+ * Liveness and readiness reporting for uptime monitors and orchestrators.
+ * Full reports (messages, provider circuits) are for admins only.
+ * Reports are cached briefly so frequent probes don't hammer dependencies.
+ */
+export class HealthService {
+  private static cached: { report: HealthReport; expiresAt: number } | null = null;
+  private static pending: Promise<HealthReport> | null = null;
+
+  /**
+   * Liveness: the process is up and answering. Touches no dependencies.
+   */
+  static getLiveness(): { status: 'alive'; timestamp: string; uptimeSeconds: number } {
+    return {
+      status: 'alive',
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: this.getUptimeSeconds()
+    };
+  }
+
+  /**
+   * A report reduced to its status flags, for unauthenticated callers
+   */
+  static toPublic(report: HealthReport): PublicHealthReport {
+    const checks = Object.fromEntries(
+      Object.entries(report.checks).map(([name, check]) => [name, { status: check.status, critical: check.critical }])
+    ) as PublicHealthReport['checks'];
+
+    return {
+      status: report.status,
+      ready: report.ready,
+      timestamp: report.timestamp,
+      checks
+    };
+  }
+
+  /**
+   * Check every dependency; concurrent callers share one run
+   */
+  static async getReport(): Promise<HealthReport> {
+    if (this.cached && this.cached.expiresAt > Date.now()) {
+      return this.cached.report;
+    }
+
+    if (!this.pending) {
+      this.pending = this.buildReport().finally(() => {
+        this.pending = null;
+      });
+    }
+
+    return this.pending;
+  }
+
+  // Private helper methods
+
+  private static async buildReport(): Promise<HealthReport> {
+    const [providers, supabaseCheck, storage, cleanup] = await Promise.all([
+      this.timed(true, () => this.checkProviders()),
+      this.timed(true, () => this.checkSupabase()),
+      this.timed(false, () => this.checkStorage()),
+      this.timed(false, () => this.checkCleanup())
+    ]);
+
+    const checks = {
+      providers,
+      supabase: supabaseCheck,
+      storage,
+      search: this.checkSearch(),
+      cleanup
+    };
+
+    const results = Object.values(checks);
+    const ready = results.every(check => !check.critical || check.status === 'ok' || check.status === 'degraded');
+    const degraded = results.some(check => check.status === 'degraded' || check.status === 'down');
+
+    const report: HealthReport = {
+      status: !ready ? 'unhealthy' : degraded ? 'degraded' : 'healthy',
+      ready,
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: this.getUptimeSeconds(),
+      checks
+    };
+
+    this.cached = {
+      report,
+      expiresAt: Date.now() + parseInt(process.env.HEALTH_CACHE_MS || '10000')
+    };
+
+    return report;
+  }
+
+  /**
+   * Run a check with a deadline so one hung dependency can't stall the probe
+   */
+  private static async timed(
+    critical: boolean,
+    check: () => Promise<Omit<CheckResult, 'critical' | 'latencyMs'>>
+  ): Promise<CheckResult> {
+    const timeoutMs = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '5000');
+    const started = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const result = await Promise.race([
+        check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+        })
+      ]);
+      return { ...result, critical, latencyMs: Date.now() - started };
+    } catch (error) {
+      return {
+        status: 'down',
+        critical,
+        latencyMs: Date.now() - started,
+        message: error instanceof Error ? error.message : String(error)
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private static async checkProviders(): Promise<Omit<CheckResult, 'critical' | 'latencyMs'>> {
+    const health = await AIProviderService.healthCheck();
+    const statusMap: Record<typeof health.status, CheckStatus> = {
+      healthy: 'ok',
+      degraded: 'degraded',
+      unhealthy: 'down'
+    };
+
+    return {
+      status: statusMap[health.status],
+      message: health.details?.message,
+      details: {
+        activeProvider: health.provider,
+        priority: AIProviderService.getPriority(),
+        providers: health.details?.providers || []
+      }
+    };
+  }
+
+  private static async checkSupabase(): Promise<Omit<CheckResult, 'critical' | 'latencyMs'>> {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+      return { status: 'down', message: 'Supabase is not configured' };
+    }
+
+    const { error } = await supabase
+      .from('projects')
+      .select('id', { head: true, count: 'exact' })
+      .limit(1);
+
+    return error
+      ? { status: 'down', message: error.message }
+      : { status: 'ok' };
+  }
+
+  private static async checkStorage(): Promise<Omit<CheckResult, 'critical' | 'latencyMs'>> {
+    if (!storageClient) {
+      return { status: 'not_configured', message: 'VERCEL_BLOB_READ_WRITE_TOKEN is not set' };
+    }
+
+    await storageClient.list({ limit: 1 });
+    return { status: 'ok' };
+  }
+
+  private static checkSearch(): CheckResult {
+    // Configuration only; a live search would spend API credits on every probe
+    const type = SearchProviderFactory.getDefaultType();
+    return SearchProviderFactory.getProvider(type).isConfigured()
+      ? { status: 'ok', critical: false, details: { provider: type } }
+      : {
+          status: 'not_configured',
+          critical: false,
+          message: `Web search backend ${type} is not configured; web search is disabled`,
+          details: { provider: type }
+        };
+  }
+
+  private static async checkCleanup(): Promise<Omit<CheckResult, 'critical' | 'latencyMs'>> {
+    const { data, error } = await supabase
+      .from('storage_cleanup_log')
+      .select('files_deleted, space_freed, executed_at')
+      .order('executed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      return { status: 'down', message: error.message };
+    }
+
+    if (!data) {
+      return { status: 'ok', message: 'No cleanup has run yet', details: { lastRunAt: null } };
+    }
+
+    const maxAgeDays = parseInt(process.env.HEALTH_CLEANUP_MAX_AGE_DAYS || '7');
+    const ageDays = (Date.now() - new Date(data.executed_at).getTime()) / (24 * 60 * 60 * 1000);
+
+    return {
+      status: ageDays > maxAgeDays ? 'degraded' : 'ok',
+      ...(ageDays > maxAgeDays && { message: `Last cleanup ran more than ${maxAgeDays} days ago` }),
+      details: {
+        lastRunAt: data.executed_at,
+        filesDeleted: data.files_deleted,
+        spaceFreed: data.space_freed
+      }
+    };
+  }
+
+  private static getUptimeSeconds(): number {
+    return Math.round((Date.now() - startedAt) / 1000);
+  }
+}
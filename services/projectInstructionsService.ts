@@ -0,0 +1,120 @@
+// services/projectInstructionsService.ts
+import { createClient } from '@supabase/supabase-js';
+import { ApiError } from '@/lib/utils/apiErrors';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface ProjectSettingsRow {
+  custom_instructions: string | null;
+  tone: string | null;
+  target_country: string | null;
+  output_conventions: string | null;
+}
+
+const SETTINGS_FIELDS: Record<keyof ProjectSettingsRow, { input: string; maxLength: number }> = {
+  custom_instructions: { input: 'instructions', maxLength: 10000 },
+  tone: { input: 'tone', maxLength: 200 },
+  target_country: { input: 'targetCountry', maxLength: 100 },
+  output_conventions: { input: 'outputConventions', maxLength: 2000 }
+};
+
+/**
+ * Per-project assistant persona: custom instructions, tone, target country
+ * and output conventions, applied to every run in the project's threads.
+ */
+export class ProjectInstructionsService {
+  /**
+   * Pick and validate the settings fields from a request body (camelCase in, column names out).
+   * Only fields present in the body are returned so PATCH can update a subset.
+   */
+  static parseSettings(body: Record<string, unknown>): Partial<ProjectSettingsRow> {
+    const settings: Partial<ProjectSettingsRow> = {};
+
+    for (const [column, { input, maxLength }] of Object.entries(SETTINGS_FIELDS)) {
+      if (!(input in body)) continue;
+
+      const value = body[input];
+      if (value !== null && typeof value !== 'string') {
+        throw new ApiError(`\`${input}\` must be string if provided`, 400, 'VALIDATION_ERROR');
+      }
+      if (typeof value === 'string' && value.length > maxLength) {
+        throw new ApiError(`\`${input}\` must be at most ${maxLength} characters`, 400, 'VALIDATION_ERROR');
+      }
+
+      settings[column as keyof ProjectSettingsRow] = value?.trim() || null;
+    }
+
+    return settings;
+  }
+
+  /**
+   * Instructions for a chat request, from the project or the thread's project
+   */
+  static async getInstructions(projectId?: string, threadId?: string): Promise<string | undefined> {
+    try {
+      let resolvedProjectId = projectId;
+
+      if (!resolvedProjectId && threadId) {
+        const { data: thread } = await supabase
+          .from('threads')
+          .select('project_id')
+          .eq('id', threadId)
+          .maybeSingle();
+        resolvedProjectId = thread?.project_id || undefined;
+      }
+
+      if (!resolvedProjectId) return undefined;
+
+      const { data: project, error } = await supabase
+        .from('projects')
+        .select('name, custom_instructions, tone, target_country, output_conventions')
+        .eq('id', resolvedProjectId)
+        .maybeSingle();
+
+      if (error || !project) {
+        if (error) console.error('Error loading project instructions:', error);
+        return undefined;
+      }
+
+      return this.buildInstructions(project);
+    } catch (error) {
+      // Runs still work with the assistant's default behaviour
+      console.error('Error resolving project instructions:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Render project settings as instructions appended to the assistant's own
+   */
+  static buildInstructions(project: ProjectSettingsRow & { name?: string }): string | undefined {
+    const sections: string[] = [];
+
+    if (project.target_country) {
+      sections.push(
+        `Target country: ${project.target_country}. Frame recommendations for its institutions, ` +
+        'legal and regulatory context, and public-sector capacity.'
+      );
+    }
+    if (project.tone) {
+      sections.push(`Tone: ${project.tone}`);
+    }
+    if (project.output_conventions) {
+      sections.push(`Output conventions:\n${project.output_conventions}`);
+    }
+    if (project.custom_instructions) {
+      sections.push(`Project instructions:\n${project.custom_instructions}`);
+    }
+
+    if (sections.length === 0) return undefined;
+
+    const header = project.name
+      ? `You are working on the project "${project.name}".`
+      : 'You are working on a specific client project.';
+
+    return [header, ...sections].join('\n\n');
+  }
+}
@@ -1,6 +1,12 @@
 // services/projectService.ts - Fixed version
 import { baseFetch } from './apiClient';
-import { Project, ProjectResponse } from '../types/entities.types';
+import {
+  Project,
+  ProjectAssistantSettings,
+  ProjectBudget,
+  ProjectResponse,
+  ProjectSearchSettings
+} from '../types/entities.types';
 import { CONSTANTS } from '../types/constants';
 
 // Type guard to ensure we have a valid project structure
@@ -13,7 +19,11 @@ const normalizeProject = (data: any): Project => {
     threads: Array.isArray(data.threads) 
       ? data.threads.map((t: any) => typeof t === 'string' ? t : t.id || t.thread_id || '') 
       : [],
-    color: data.color || '#6B7280'
+    color: data.color || '#6B7280',
+    instructions: data.custom_instructions || data.instructions || undefined,
+    tone: data.tone || undefined,
+    targetCountry: data.target_country || data.targetCountry || undefined,
+    outputConventions: data.output_conventions || data.outputConventions || undefined
   };
 };
 
@@ -30,7 +40,7 @@ export class ProjectService {
     name: string;
     description?: string;
     color?: string;
-  }): Promise<Project> {
+  } & ProjectAssistantSettings): Promise<Project> {
     const response = await baseFetch(CONSTANTS.API_ENDPOINTS.PROJECTS, {
       method: 'POST',
       body: JSON.stringify(projectData),
@@ -82,6 +92,62 @@ export class ProjectService {
     };
   }
 
+  static async updateProject(
+    projectId: string,
+    updates: { name?: string; description?: string; color?: string } & ProjectAssistantSettings
+  ): Promise<Project> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.PROJECTS}/${projectId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+
+    const data: ProjectResponse = await response.json();
+    return normalizeProject(data.project || data);
+  }
+
+  static async getBudget(projectId: string): Promise<ProjectBudget> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.PROJECTS}/${projectId}/budget`);
+    const data = await response.json();
+    return data.budget;
+  }
+
+  static async updateBudget(
+    projectId: string,
+    updates: {
+      budgetUsd?: number | null;
+      period?: 'monthly' | 'total';
+      softLimitPercent?: number;
+      overrideHours?: number | null;
+    },
+    adminKey: string
+  ): Promise<ProjectBudget> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.PROJECTS}/${projectId}/budget`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'x-admin-key': adminKey },
+      body: JSON.stringify(updates),
+    });
+    const data = await response.json();
+    return data.budget;
+  }
+
+  static async getSearchSettings(projectId: string): Promise<ProjectSearchSettings> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.PROJECTS}/${projectId}/search`);
+    const data = await response.json();
+    return data.search;
+  }
+
+  static async updateSearchSettings(
+    projectId: string,
+    updates: Partial<Pick<ProjectSearchSettings, 'provider' | 'allowDomains' | 'denyDomains' | 'preferDomains'>>
+  ): Promise<ProjectSearchSettings> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.PROJECTS}/${projectId}/search`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+    const data = await response.json();
+    return data.search;
+  }
+
   static async deleteProject(projectId: string): Promise<void> {
     await baseFetch(`${CONSTANTS.API_ENDPOINTS.PROJECTS}/${projectId}`, {
       method: 'DELETE',
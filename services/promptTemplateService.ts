@@ -0,0 +1,353 @@
+// services/promptTemplateService.ts
+import { createClient } from '@supabase/supabase-js';
+import { ApiError, NotFoundError } from '@/lib/utils/apiErrors';
+import { extractTemplateVariables } from '@/utils/templateUtils';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface PromptTemplate {
+  id: string;
+  projectId: string | null; // null = shared with every project
+  command: string; // Slash command, e.g. "assessment" for /assessment
+  title: string;
+  description?: string;
+  body: string;
+  variables: string[];
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  command: string;
+  title: string;
+  description?: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface PromptTemplateInput {
+  projectId?: string | null;
+  command?: string;
+  title?: string;
+  description?: string | null;
+  body?: string;
+}
+
+interface TemplateRow {
+  id: string;
+  project_id: string | null;
+  command: string;
+  title: string;
+  description: string | null;
+  body: string;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface VersionRow {
+  version: number;
+  command: string;
+  title: string;
+  description: string | null;
+  body: string;
+  created_at: string;
+}
+
+const TEMPLATE_COLUMNS = 'id, project_id, command, title, description, body, version, created_at, updated_at';
+const VERSION_COLUMNS = 'version, command, title, description, body, created_at';
+
+// Fields whose change makes a new version; moving scope does not
+const CONTENT_FIELDS = ['command', 'title', 'description', 'body'] as const;
+
+const COMMAND_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_BODY_LENGTH = 20000;
+
+/**
+ * Prompt template library. Templates belong to a project or are shared
+ * globally, are inserted from the chat input with a slash command, and keep
+ * every saved revision so earlier wording can be looked up or restored.
+ */
+export class PromptTemplateService {
+  /**
+   * Validate a create (all content fields required) or update request body
+   */
+  static parseInput(body: Record<string, unknown>, partial = false): PromptTemplateInput {
+    const input: PromptTemplateInput = {};
+
+    if ('projectId' in body) {
+      const projectId = body.projectId;
+      if (projectId !== null && (typeof projectId !== 'string' || !UUID_PATTERN.test(projectId))) {
+        throw new ApiError('`projectId` must be a project ID or null', 400, 'VALIDATION_ERROR');
+      }
+      input.projectId = projectId as string | null;
+    }
+
+    if ('command' in body || !partial) {
+      const command = typeof body.command === 'string' ? body.command.trim().replace(/^\//, '').toLowerCase() : '';
+      if (!COMMAND_PATTERN.test(command)) {
+        throw new ApiError('`command` must be 1-40 lowercase letters, digits or dashes', 400, 'VALIDATION_ERROR');
+      }
+      input.command = command;
+    }
+
+    if ('title' in body || !partial) {
+      const title = typeof body.title === 'string' ? body.title.trim() : '';
+      if (!title || title.length > MAX_TITLE_LENGTH) {
+        throw new ApiError(`\`title\` is required and must be at most ${MAX_TITLE_LENGTH} characters`, 400, 'VALIDATION_ERROR');
+      }
+      input.title = title;
+    }
+
+    if ('description' in body) {
+      const description = body.description;
+      if (description !== null && typeof description !== 'string') {
+        throw new ApiError('`description` must be string if provided', 400, 'VALIDATION_ERROR');
+      }
+      if (typeof description === 'string' && description.length > MAX_DESCRIPTION_LENGTH) {
+        throw new ApiError(`\`description\` must be at most ${MAX_DESCRIPTION_LENGTH} characters`, 400, 'VALIDATION_ERROR');
+      }
+      input.description = description?.trim() || null;
+    }
+
+    if ('body' in body || !partial) {
+      const text = typeof body.body === 'string' ? body.body.trim() : '';
+      if (!text || text.length > MAX_BODY_LENGTH) {
+        throw new ApiError(`\`body\` is required and must be at most ${MAX_BODY_LENGTH} characters`, 400, 'VALIDATION_ERROR');
+      }
+      input.body = text;
+    }
+
+    return input;
+  }
+
+  /**
+   * Global templates, plus the project's own when projectId is given.
+   * Project templates come first so they win a shared slash command.
+   */
+  static async listTemplates(projectId?: string): Promise<PromptTemplate[]> {
+    let query = supabase
+      .from('prompt_templates')
+      .select(TEMPLATE_COLUMNS);
+
+    if (projectId) {
+      this.validateId(projectId, 'project');
+      query = query.or(`project_id.is.null,project_id.eq.${projectId}`);
+    } else {
+      query = query.is('project_id', null);
+    }
+
+    const { data, error } = await query.order('command', { ascending: true });
+
+    if (error) {
+      throw new ApiError('Failed to load prompt templates', 500, 'DATABASE_ERROR', error);
+    }
+
+    const templates = (data as TemplateRow[] || []).map(row => this.toTemplate(row));
+    return [
+      ...templates.filter(template => template.projectId),
+      ...templates.filter(template => !template.projectId)
+    ];
+  }
+
+  static async getTemplate(id: string): Promise<PromptTemplate> {
+    return this.toTemplate(await this.loadRow(id));
+  }
+
+  static async createTemplate(input: PromptTemplateInput): Promise<PromptTemplate> {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .insert({
+        project_id: input.projectId || null,
+        command: input.command,
+        title: input.title,
+        description: input.description || null,
+        body: input.body,
+        version: 1
+      })
+      .select(TEMPLATE_COLUMNS)
+      .single();
+
+    if (error) {
+      throw this.toWriteError(error, input.command);
+    }
+
+    const row = data as TemplateRow;
+    await this.saveVersion(row);
+    return this.toTemplate(row);
+  }
+
+  /**
+   * Apply an update. Content changes bump the version and are kept in the
+   * history; expectedVersion guards against overwriting someone else's edit.
+   */
+  static async updateTemplate(
+    id: string,
+    input: PromptTemplateInput,
+    expectedVersion?: number
+  ): Promise<PromptTemplate> {
+    const current = await this.loadRow(id);
+
+    if (expectedVersion !== undefined && expectedVersion !== current.version) {
+      throw new ApiError(
+        `Template was changed by someone else (now version ${current.version}); reload before saving`,
+        409,
+        'CONFLICT'
+      );
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (input.projectId !== undefined) updates.project_id = input.projectId;
+    for (const field of CONTENT_FIELDS) {
+      if (input[field] !== undefined && input[field] !== current[field]) {
+        updates[field] = input[field];
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return this.toTemplate(current);
+    }
+
+    const contentChanged = CONTENT_FIELDS.some(field => field in updates);
+    if (contentChanged) updates.version = current.version + 1;
+    updates.updated_at = new Date().toISOString();
+
+    // Matching on the loaded version makes concurrent saves fail instead of interleaving
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .update(updates)
+      .eq('id', id)
+      .eq('version', current.version)
+      .select(TEMPLATE_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw this.toWriteError(error, (updates.command as string) || current.command);
+    }
+    if (!data) {
+      throw new ApiError('Template was changed by someone else; reload before saving', 409, 'CONFLICT');
+    }
+
+    const row = data as TemplateRow;
+    if (contentChanged) await this.saveVersion(row);
+    return this.toTemplate(row);
+  }
+
+  static async deleteTemplate(id: string): Promise<void> {
+    this.validateId(id, 'template');
+
+    // Versions go with it (ON DELETE CASCADE)
+    const { error } = await supabase
+      .from('prompt_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new ApiError('Failed to delete prompt template', 500, 'DATABASE_ERROR', error);
+    }
+  }
+
+  /**
+   * Saved revisions, newest first
+   */
+  static async listVersions(id: string): Promise<PromptTemplateVersion[]> {
+    await this.loadRow(id);
+
+    const { data, error } = await supabase
+      .from('prompt_template_versions')
+      .select(VERSION_COLUMNS)
+      .eq('template_id', id)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw new ApiError('Failed to load template versions', 500, 'DATABASE_ERROR', error);
+    }
+
+    return (data as VersionRow[] || []).map(row => ({
+      version: row.version,
+      command: row.command,
+      title: row.title,
+      description: row.description || undefined,
+      body: row.body,
+      createdAt: row.created_at
+    }));
+  }
+
+  // Private helper methods
+
+  private static async loadRow(id: string): Promise<TemplateRow> {
+    this.validateId(id, 'template');
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select(TEMPLATE_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new ApiError('Failed to load prompt template', 500, 'DATABASE_ERROR', error);
+    }
+    if (!data) {
+      throw new NotFoundError('Prompt template', id);
+    }
+
+    return data as TemplateRow;
+  }
+
+  private static async saveVersion(row: TemplateRow): Promise<void> {
+    const { error } = await supabase
+      .from('prompt_template_versions')
+      .insert({
+        template_id: row.id,
+        version: row.version,
+        command: row.command,
+        title: row.title,
+        description: row.description,
+        body: row.body
+      });
+
+    if (error) {
+      // The template itself is saved; only its history entry is missing
+      console.error(`Failed to record version ${row.version} of template ${row.id}:`, error);
+    }
+  }
+
+  private static toWriteError(error: { code?: string }, command?: string): ApiError {
+    if (error.code === '23505') {
+      return new ApiError(`A template with the command /${command} already exists here`, 409, 'CONFLICT');
+    }
+    if (error.code === '23503') {
+      return new NotFoundError('Project');
+    }
+    return new ApiError('Failed to save prompt template', 500, 'DATABASE_ERROR', error);
+  }
+
+  private static toTemplate(row: TemplateRow): PromptTemplate {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      command: row.command,
+      title: row.title,
+      description: row.description || undefined,
+      body: row.body,
+      variables: extractTemplateVariables(row.body),
+      version: row.version,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private static validateId(id: string, kind: 'template' | 'project'): void {
+    if (!UUID_PATTERN.test(id)) {
+      throw new ApiError(`Invalid ${kind} ID`, 400, 'VALIDATION_ERROR');
+    }
+  }
+}
@@ -0,0 +1,492 @@
+// services/retrievalService.ts
+import { createClient } from '@supabase/supabase-js';
+import { AIProviderService } from './aiProviderService';
+import { TextExtractionService } from './textExtractionService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export type DocumentSourceType = 'file' | 'answer';
+
+export interface DocumentSource {
+  sourceType: DocumentSourceType;
+  sourceId: string; // File ID, or message ID for past answers
+  title: string; // Filename, or the title of the thread the answer came from
+  page?: number;
+  threadId?: string;
+  snippet: string;
+  score: number;
+  url?: string;
+}
+
+export interface RetrievalOutcome {
+  performed: boolean;
+  sources: DocumentSource[];
+  context?: string; // Prompt section with the retrieved passages
+}
+
+interface DocumentChunk {
+  projectId?: string;
+  threadId?: string;
+  sourceType: DocumentSourceType;
+  sourceId: string;
+  sourceName: string;
+  page?: number;
+  chunkIndex: number;
+  content: string;
+  embedding: number[];
+  embeddingModel: string;
+}
+
+export interface ScoredChunk extends Omit<DocumentChunk, 'embedding' | 'embeddingModel' | 'chunkIndex'> {
+  similarity: number;
+}
+
+interface MatchRow {
+  project_id: string | null;
+  thread_id: string | null;
+  source_type: DocumentSourceType;
+  source_id: string;
+  source_name: string;
+  page: number | null;
+  content: string;
+  similarity: number;
+}
+
+interface SearchScope {
+  projectId?: string;
+  threadId?: string; // Neither set: the whole index
+}
+
+/**
+ * Where chunk embeddings live: pgvector in Supabase, or process memory for local dev
+ */
+interface VectorStore {
+  insert(chunks: DocumentChunk[]): Promise<void>;
+  search(embedding: number[], model: string, scope: SearchScope, limit: number): Promise<ScoredChunk[]>;
+  assignSources(sourceIds: string[], scope: SearchScope): Promise<void>;
+  deleteSource(sourceId: string): Promise<void>;
+}
+
+class SupabaseVectorStore implements VectorStore {
+  async insert(chunks: DocumentChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+
+    const { error } = await supabase
+      .from('document_chunks')
+      .insert(chunks.map(chunk => ({
+        project_id: chunk.projectId || null,
+        thread_id: chunk.threadId || null,
+        source_type: chunk.sourceType,
+        source_id: chunk.sourceId,
+        source_name: chunk.sourceName,
+        page: chunk.page ?? null,
+        chunk_index: chunk.chunkIndex,
+        content: chunk.content,
+        embedding: chunk.embedding,
+        embedding_model: chunk.embeddingModel
+      })));
+
+    if (error) throw error;
+  }
+
+  async search(embedding: number[], model: string, scope: SearchScope, limit: number): Promise<ScoredChunk[]> {
+    const { data, error } = await supabase.rpc('match_document_chunks', {
+      query_embedding: embedding,
+      query_model: model,
+      filter_project_id: scope.projectId || null,
+      filter_thread_id: scope.threadId || null,
+      match_count: limit
+    });
+
+    if (error) throw error;
+
+    return ((data || []) as MatchRow[]).map(row => ({
+      projectId: row.project_id || undefined,
+      threadId: row.thread_id || undefined,
+      sourceType: row.source_type,
+      sourceId: row.source_id,
+      sourceName: row.source_name,
+      page: row.page ?? undefined,
+      content: row.content,
+      similarity: row.similarity
+    }));
+  }
+
+  async assignSources(sourceIds: string[], scope: SearchScope): Promise<void> {
+    const { error } = await supabase
+      .from('document_chunks')
+      .update({
+        ...(scope.projectId && { project_id: scope.projectId }),
+        ...(scope.threadId && { thread_id: scope.threadId })
+      })
+      .in('source_id', sourceIds)
+      .is('project_id', null);
+
+    if (error) throw error;
+  }
+
+  async deleteSource(sourceId: string): Promise<void> {
+    const { error } = await supabase
+      .from('document_chunks')
+      .delete()
+      .eq('source_id', sourceId);
+
+    if (error) throw error;
+  }
+}
+
+class MemoryVectorStore implements VectorStore {
+  private chunks: DocumentChunk[] = [];
+
+  async insert(chunks: DocumentChunk[]): Promise<void> {
+    this.chunks.push(...chunks);
+  }
+
+  async search(embedding: number[], model: string, scope: SearchScope, limit: number): Promise<ScoredChunk[]> {
+    return this.chunks
+      .filter(chunk => chunk.embeddingModel === model && (
+        (!scope.projectId && !scope.threadId) ||
+        (scope.projectId && chunk.projectId === scope.projectId) ||
+        (scope.threadId && chunk.threadId === scope.threadId)
+      ))
+      .map(chunk => ({
+        projectId: chunk.projectId,
+        threadId: chunk.threadId,
+        sourceType: chunk.sourceType,
+        sourceId: chunk.sourceId,
+        sourceName: chunk.sourceName,
+        page: chunk.page,
+        content: chunk.content,
+        similarity: cosineSimilarity(embedding, chunk.embedding)
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  async assignSources(sourceIds: string[], scope: SearchScope): Promise<void> {
+    for (const chunk of this.chunks) {
+      if (sourceIds.includes(chunk.sourceId) && !chunk.projectId) {
+        chunk.projectId = scope.projectId || chunk.projectId;
+        chunk.threadId = scope.threadId || chunk.threadId;
+      }
+    }
+  }
+
+  async deleteSource(sourceId: string): Promise<void> {
+    this.chunks = this.chunks.filter(chunk => chunk.sourceId !== sourceId);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * Retrieval-augmented generation over project documents.
+ * Uploaded files and past assistant answers are chunked, embedded with the
+ * active provider and stored in a vector index. The most relevant chunks
+ * are added to each run with citations back to the file and page, so
+ * retrieval works for every provider and across sibling threads of a project.
+ */
+export class RetrievalService {
+  private static store: VectorStore | null = null;
+
+  static isEnabled(): boolean {
+    return process.env.RAG_ENABLED === 'true';
+  }
+
+  /**
+   * Chunk, embed and index an uploaded file. Files uploaded before they are
+   * used in a chat have no project yet; assignSources attaches them later.
+   */
+  static async indexFile(file: {
+    fileId: string;
+    filename: string;
+    fileType: string;
+    buffer: Buffer;
+    projectId?: string;
+    threadId?: string;
+  }): Promise<number> {
+    if (!this.isEnabled()) return 0;
+
+    try {
+      const pages = TextExtractionService.extractPages(file.buffer, file.fileType, file.filename);
+      const pieces = pages.flatMap(page =>
+        this.chunkText(page.text).map(content => ({ page: page.page, content }))
+      ).slice(0, this.getConfig().maxChunksPerFile);
+
+      if (pieces.length === 0) return 0;
+
+      const projectId = file.projectId || await this.resolveProjectId(file.threadId);
+      const chunks = await this.embedChunks(pieces, {
+        projectId,
+        threadId: file.threadId,
+        sourceType: 'file',
+        sourceId: file.fileId,
+        sourceName: file.filename
+      });
+
+      await this.getStore().insert(chunks);
+      return chunks.length;
+    } catch (error) {
+      // Uploads still work without retrieval
+      console.error(`Failed to index file ${file.filename}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Index a completed assistant answer so sibling threads can draw on it
+   */
+  static async indexAnswer(answer: {
+    threadId: string;
+    projectId?: string;
+    messageId?: string;
+    content: string;
+  }): Promise<void> {
+    if (!this.isEnabled() || answer.content.trim().length < this.getConfig().minAnswerChars) return;
+
+    try {
+      const projectId = answer.projectId || await this.resolveProjectId(answer.threadId);
+      if (!projectId) return;
+
+      const pieces = this.chunkText(answer.content)
+        .slice(0, this.getConfig().maxChunksPerFile)
+        .map(content => ({ content }));
+
+      const chunks = await this.embedChunks(pieces, {
+        projectId,
+        threadId: answer.threadId,
+        sourceType: 'answer',
+        sourceId: answer.messageId || `${answer.threadId}-${Date.now()}`,
+        sourceName: await this.getThreadTitle(answer.threadId)
+      });
+
+      await this.getStore().insert(chunks);
+    } catch (error) {
+      console.error(`Failed to index answer for thread ${answer.threadId}:`, error);
+    }
+  }
+
+  /**
+   * Attach files indexed at upload time to the project and thread that used them
+   */
+  static async assignSources(sourceIds: string[], projectId?: string, threadId?: string): Promise<void> {
+    if (!this.isEnabled() || sourceIds.length === 0) return;
+
+    try {
+      const resolvedProjectId = projectId || await this.resolveProjectId(threadId);
+      if (!resolvedProjectId && !threadId) return;
+
+      await this.getStore().assignSources(sourceIds, { projectId: resolvedProjectId, threadId });
+    } catch (error) {
+      console.error('Failed to assign indexed files:', error);
+    }
+  }
+
+  /**
+   * Remove a file's chunks from the index
+   */
+  static async deleteSource(sourceId: string): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    try {
+      await this.getStore().deleteSource(sourceId);
+    } catch (error) {
+      console.error(`Failed to remove ${sourceId} from the retrieval index:`, error);
+    }
+  }
+
+  /**
+   * Find the passages most relevant to a question within the project
+   * (or the thread, for chats outside a project)
+   */
+  static async retrieve(query: string, projectId?: string, threadId?: string): Promise<RetrievalOutcome> {
+    const outcome: RetrievalOutcome = { performed: false, sources: [] };
+    if (!this.isEnabled() || !query.trim()) return outcome;
+
+    try {
+      const resolvedProjectId = projectId || await this.resolveProjectId(threadId);
+      if (!resolvedProjectId && !threadId) return outcome;
+
+      const { embedding, model } = await AIProviderService.embed(query);
+      if (embedding.length === 0) return outcome;
+
+      const { topK, minScore } = this.getConfig();
+      const matches = await this.getStore().search(
+        embedding,
+        model,
+        { projectId: resolvedProjectId, threadId },
+        topK * 2
+      );
+
+      // The thread's own answers are already part of its history
+      const relevant = matches
+        .filter(match => match.similarity >= minScore)
+        .filter(match => !(match.sourceType === 'answer' && threadId && match.threadId === threadId))
+        .slice(0, topK);
+
+      if (relevant.length === 0) return outcome;
+
+      outcome.performed = true;
+      outcome.sources = relevant.map(match => ({
+        sourceType: match.sourceType,
+        sourceId: match.sourceId,
+        title: match.sourceName,
+        page: match.page,
+        threadId: match.threadId,
+        snippet: match.content.substring(0, 200) + (match.content.length > 200 ? '...' : ''),
+        score: Math.round(match.similarity * 1000) / 1000,
+        ...(match.sourceType === 'file' && { url: `/api/files/${match.sourceId}` })
+      }));
+      outcome.context = this.formatContext(relevant);
+    } catch (error) {
+      // Runs go ahead without document context
+      console.error('Document retrieval failed:', error);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Semantic search over the whole index, or one project, for thread search
+   */
+  static async search(query: string, projectId: string | undefined, limit: number): Promise<ScoredChunk[]> {
+    if (!this.isEnabled() || !query.trim()) return [];
+
+    const { embedding, model } = await AIProviderService.embed(query);
+    if (embedding.length === 0) return [];
+
+    const matches = await this.getStore().search(embedding, model, { projectId }, limit);
+    return matches.filter(match => match.similarity >= this.getConfig().minScore);
+  }
+
+  // Private helper methods
+
+  private static getConfig() {
+    return {
+      chunkChars: parseInt(process.env.RAG_CHUNK_CHARS || '1200'),
+      chunkOverlap: parseInt(process.env.RAG_CHUNK_OVERLAP || '200'),
+      maxChunksPerFile: parseInt(process.env.RAG_MAX_CHUNKS_PER_FILE || '100'),
+      minAnswerChars: parseInt(process.env.RAG_MIN_ANSWER_CHARS || '200'),
+      topK: parseInt(process.env.RAG_TOP_K || '5'),
+      minScore: parseFloat(process.env.RAG_MIN_SCORE || '0.3')
+    };
+  }
+
+  private static getStore(): VectorStore {
+    if (!this.store) {
+      this.store = process.env.RAG_VECTOR_STORE === 'memory'
+        ? new MemoryVectorStore()
+        : new SupabaseVectorStore();
+    }
+    return this.store;
+  }
+
+  /**
+   * Split text into overlapping chunks, preferring paragraph and sentence breaks
+   */
+  private static chunkText(text: string): string[] {
+    const { chunkChars, chunkOverlap } = this.getConfig();
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+      let end = Math.min(start + chunkChars, text.length);
+
+      if (end < text.length) {
+        const window = text.substring(start, end);
+        const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '));
+        if (breakAt > chunkChars / 2) {
+          end = start + breakAt + 1;
+        }
+      }
+
+      const chunk = text.substring(start, end).trim();
+      if (chunk) chunks.push(chunk);
+
+      if (end >= text.length) break;
+      start = Math.max(end - chunkOverlap, start + 1);
+    }
+
+    return chunks;
+  }
+
+  private static async embedChunks(
+    pieces: { content: string; page?: number }[],
+    source: Pick<DocumentChunk, 'projectId' | 'threadId' | 'sourceType' | 'sourceId' | 'sourceName'>
+  ): Promise<DocumentChunk[]> {
+    // One batched call instead of a request per chunk, so uploads don't wait on each round trip
+    const { embeddings, model } = await AIProviderService.embedMany(pieces.map(piece => piece.content));
+    const chunks: DocumentChunk[] = [];
+
+    for (const [index, piece] of pieces.entries()) {
+      const embedding = embeddings[index] || [];
+      if (embedding.length === 0) continue;
+
+      chunks.push({
+        ...source,
+        page: piece.page,
+        chunkIndex: index,
+        content: piece.content,
+        embedding,
+        embeddingModel: model
+      });
+    }
+
+    return chunks;
+  }
+
+  private static formatContext(chunks: ScoredChunk[]): string {
+    let context = '[PROJECT DOCUMENT CONTEXT]\n' +
+      'Passages from documents and earlier answers in this project that may be relevant:\n';
+
+    for (const chunk of chunks) {
+      const label = chunk.sourceType === 'file'
+        ? `${chunk.sourceName}${chunk.page ? `, p. ${chunk.page}` : ''}`
+        : `Earlier answer in "${chunk.sourceName}"`;
+      context += `\n--- ${label} ---\n${chunk.content}\n`;
+    }
+
+    context += '\n[END PROJECT DOCUMENT CONTEXT]\n' +
+      'When you use a passage, cite it as (filename, p. N) or (earlier answer in "thread title"). ' +
+      'Ignore passages that are not relevant to the question.';
+
+    return context;
+  }
+
+  private static async resolveProjectId(threadId?: string): Promise<string | undefined> {
+    if (!threadId) return undefined;
+
+    const { data } = await supabase
+      .from('threads')
+      .select('project_id')
+      .eq('id', threadId)
+      .maybeSingle();
+
+    return data?.project_id || undefined;
+  }
+
+  private static async getThreadTitle(threadId: string): Promise<string> {
+    const { data } = await supabase
+      .from('threads')
+      .select('title')
+      .eq('id', threadId)
+      .maybeSingle();
+
+    return data?.title || 'Untitled chat';
+  }
+}
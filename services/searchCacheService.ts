@@ -0,0 +1,249 @@
+// services/searchCacheService.ts
+import { createClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { SearchType, WebSearchOptions, WebSearchResponse } from '@/lib/search/searchProvider.interface';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export const SEARCH_TYPES: SearchType[] = ['general', 'news', 'reference'];
+
+export interface SearchCacheStats {
+  enabled: boolean;
+  ttlSeconds: Record<SearchType, number>;
+  entries: number; // Stored responses, including expired ones not yet overwritten or purged
+  activeEntries: number;
+  since: string; // Start of the metrics window
+  hits: number;
+  misses: number;
+  hitRate: number | null; // null until there is a lookup
+  byType: Record<string, { hits: number; misses: number }>;
+  byProvider: Record<string, { hits: number; misses: number }>;
+}
+
+export interface SearchCachePurgeOptions {
+  expiredOnly?: boolean;
+  provider?: string;
+  query?: string; // Purges every cached variant of the query (all types and domain filters)
+}
+
+interface MetricsRow {
+  provider: string;
+  search_type: string;
+  hits: number;
+  misses: number;
+}
+
+// Short for fast-moving news, long for reference material
+const DEFAULT_TTL_SECONDS: Record<SearchType, number> = {
+  general: 6 * 60 * 60,
+  news: 15 * 60,
+  reference: 7 * 24 * 60 * 60
+};
+
+/**
+ * Persistent web search cache shared by every instance. Responses are stored
+ * in Supabase under a hash of the backend, normalized query and search
+ * options, and expire after a TTL that depends on the search type. Lookups
+ * and misses are counted per day for hit-rate reporting. Cache failures never
+ * fail a search; they are logged and the search goes to the backend.
+ */
+export class SearchCacheService {
+  static isEnabled(): boolean {
+    return process.env.SEARCH_CACHE_ENABLED === 'true';
+  }
+
+  /**
+   * TTL for a search type, from SEARCH_CACHE_TTL_<TYPE> (seconds)
+   */
+  static getTtlSeconds(searchType: SearchType): number {
+    const configured = parseInt(process.env[`SEARCH_CACHE_TTL_${searchType.toUpperCase()}`] || '');
+    return isNaN(configured) || configured < 0 ? DEFAULT_TTL_SECONDS[searchType] : configured;
+  }
+
+  /**
+   * Lowercased query with collapsed whitespace and trailing punctuation removed,
+   * so near-identical questions share an entry
+   */
+  static normalizeQuery(query: string): string {
+    return query
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .replace(/[\s?!.,;:]+$/, '')
+      .trim();
+  }
+
+  /**
+   * Cached response for a search, or null on a miss. Records the hit or miss.
+   */
+  static async get(provider: string, options: WebSearchOptions): Promise<WebSearchResponse | null> {
+    const searchType = options.searchType || 'general';
+    if (!this.isEnabled() || this.getTtlSeconds(searchType) === 0) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('search_cache')
+        .select('cache_key, response, hit_count')
+        .eq('cache_key', this.buildKey(provider, options))
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (error) throw error;
+
+      await this.recordLookup(provider, searchType, !!data);
+      if (!data) return null;
+
+      // Bookkeeping only; a lost update just undercounts
+      await supabase
+        .from('search_cache')
+        .update({ hit_count: (data.hit_count || 0) + 1, last_hit_at: new Date().toISOString() })
+        .eq('cache_key', data.cache_key);
+
+      return { ...(data.response as WebSearchResponse), query: options.query, cached: true };
+    } catch (error) {
+      console.error('Search cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a backend response for its search type's TTL
+   */
+  static async set(provider: string, options: WebSearchOptions, response: WebSearchResponse): Promise<void> {
+    const searchType = options.searchType || 'general';
+    const ttlSeconds = this.getTtlSeconds(searchType);
+    if (!this.isEnabled() || ttlSeconds === 0) return;
+
+    try {
+      const now = new Date();
+      const { error } = await supabase
+        .from('search_cache')
+        .upsert({
+          cache_key: this.buildKey(provider, options),
+          provider,
+          search_type: searchType,
+          query: options.query,
+          normalized_query: this.normalizeQuery(options.query),
+          options: this.keyOptions(options),
+          response: { answer: response.answer, results: response.results, provider: response.provider },
+          hit_count: 0,
+          created_at: now.toISOString(),
+          expires_at: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+          last_hit_at: null
+        }, { onConflict: 'cache_key' });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Search cache write failed:', error);
+    }
+  }
+
+  /**
+   * Cache size and hit/miss counts for the last `days` days
+   */
+  static async getStats(days = 30): Promise<SearchCacheStats> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const [entries, active, metrics] = await Promise.all([
+      supabase.from('search_cache').select('cache_key', { count: 'exact', head: true }),
+      supabase
+        .from('search_cache')
+        .select('cache_key', { count: 'exact', head: true })
+        .gt('expires_at', new Date().toISOString()),
+      supabase
+        .from('search_cache_metrics')
+        .select('provider, search_type, hits, misses')
+        .gte('day', since)
+    ]);
+
+    const error = entries.error || active.error || metrics.error;
+    if (error) {
+      throw new ApiError('Failed to load search cache stats', 500, 'DATABASE_ERROR', error);
+    }
+
+    const byType: SearchCacheStats['byType'] = {};
+    const byProvider: SearchCacheStats['byProvider'] = {};
+    let hits = 0;
+    let misses = 0;
+
+    for (const row of (metrics.data || []) as MetricsRow[]) {
+      hits += row.hits;
+      misses += row.misses;
+      for (const [group, key] of [[byType, row.search_type], [byProvider, row.provider]] as const) {
+        group[key] = group[key] || { hits: 0, misses: 0 };
+        group[key].hits += row.hits;
+        group[key].misses += row.misses;
+      }
+    }
+
+    return {
+      enabled: this.isEnabled(),
+      ttlSeconds: Object.fromEntries(SEARCH_TYPES.map(type => [type, this.getTtlSeconds(type)])) as Record<SearchType, number>,
+      entries: entries.count || 0,
+      activeEntries: active.count || 0,
+      since,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : null,
+      byType,
+      byProvider
+    };
+  }
+
+  /**
+   * Delete cached responses; everything unless narrowed by the options
+   */
+  static async purge(options: SearchCachePurgeOptions = {}): Promise<number> {
+    let query = supabase.from('search_cache').delete({ count: 'exact' });
+
+    if (options.expiredOnly) {
+      query = query.lte('expires_at', new Date().toISOString());
+    }
+    if (options.provider) {
+      query = query.eq('provider', options.provider);
+    }
+    if (options.query) {
+      query = query.eq('normalized_query', this.normalizeQuery(options.query));
+    }
+    if (!options.expiredOnly && !options.provider && !options.query) {
+      // Deletes need a filter; every row has a key
+      query = query.not('cache_key', 'is', null);
+    }
+
+    const { count, error } = await query;
+    if (error) {
+      throw new ApiError('Failed to purge search cache', 500, 'DATABASE_ERROR', error);
+    }
+    return count || 0;
+  }
+
+  // Private helper methods
+
+  private static buildKey(provider: string, options: WebSearchOptions): string {
+    return createHash('sha256')
+      .update(JSON.stringify({ provider, ...this.keyOptions(options) }))
+      .digest('hex');
+  }
+
+  private static keyOptions(options: WebSearchOptions) {
+    return {
+      query: this.normalizeQuery(options.query),
+      searchType: options.searchType || 'general',
+      maxResults: options.maxResults || null,
+      includeDomains: [...(options.includeDomains || [])].sort(),
+      excludeDomains: [...(options.excludeDomains || [])].sort()
+    };
+  }
+
+  private static async recordLookup(provider: string, searchType: SearchType, hit: boolean): Promise<void> {
+    const { error } = await supabase.rpc('record_search_cache_lookup', {
+      lookup_provider: provider,
+      lookup_type: searchType,
+      is_hit: hit
+    });
+    if (error) console.error('Failed to record search cache metrics:', error);
+  }
+}
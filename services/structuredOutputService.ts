@@ -0,0 +1,425 @@
+// services/structuredOutputService.ts
+import { createClient } from '@supabase/supabase-js';
+import { ApiError, NotFoundError, SchemaValidationError } from '@/lib/utils/apiErrors';
+import { ChatResponse, Message, OutputSchema } from '@/lib/providers/aiProvider.interface';
+import { isStrictSchema, JsonSchema, validateJsonSchema } from '@/lib/utils/jsonSchema';
+import { AIProviderService } from './aiProviderService';
+import { UsageService } from './usageService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface StoredOutputSchema {
+  id: string;
+  projectId: string | null; // null = available in every project
+  name: string;
+  description?: string;
+  schema: JsonSchema;
+  strict: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OutputSchemaInput {
+  projectId?: string | null;
+  name?: string;
+  description?: string | null;
+  schema?: JsonSchema;
+}
+
+interface SchemaRow {
+  id: string;
+  project_id: string | null;
+  name: string;
+  description: string | null;
+  schema: JsonSchema;
+  created_at: string;
+  updated_at: string;
+}
+
+interface EnforceContext {
+  threadId?: string;
+  projectId?: string;
+  searchCalls?: number; // Web searches made for the answer, recorded if it is rejected
+  signal?: AbortSignal;
+}
+
+const SCHEMA_COLUMNS = 'id, project_id, name, description, schema, created_at, updated_at';
+
+const NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_SCHEMA_CHARS = 30000;
+const MAX_DESCRIPTION_LENGTH = 500;
+const DEFAULT_SCHEMA_NAME = 'response';
+
+/**
+ * Structured JSON answers. A request names a JSON Schema (inline or from
+ * the stored library); providers that support it decode against the schema,
+ * and every reply is parsed and validated here, with repair attempts before
+ * the request is failed. Callers get the validated value as parsedResponse.
+ */
+export class StructuredOutputService {
+  /**
+   * Schema requested by a chat body (`outputSchema` inline, or `outputSchemaId`), if any
+   */
+  static async parseRequest(body: Record<string, unknown>): Promise<OutputSchema | undefined> {
+    const { outputSchema, outputSchemaId, outputSchemaName } = body;
+
+    if (outputSchema !== undefined && outputSchemaId !== undefined) {
+      throw new ApiError('Send either outputSchema or outputSchemaId, not both', 400, 'VALIDATION_ERROR');
+    }
+
+    if (outputSchemaId !== undefined) {
+      if (typeof outputSchemaId !== 'string') {
+        throw new ApiError('`outputSchemaId` must be a string', 400, 'VALIDATION_ERROR');
+      }
+      const stored = await this.getSchema(outputSchemaId);
+      return { name: stored.name, schema: stored.schema, strict: stored.strict };
+    }
+
+    if (outputSchema === undefined || outputSchema === null) return undefined;
+
+    const name = outputSchemaName ?? DEFAULT_SCHEMA_NAME;
+    if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+      throw new ApiError('`outputSchemaName` must be 1-64 letters, digits, dashes or underscores', 400, 'VALIDATION_ERROR');
+    }
+
+    const schema = this.checkSchema(outputSchema, 'outputSchema');
+    return { name, schema, strict: isStrictSchema(schema) };
+  }
+
+  /**
+   * Add the schema to the prompt, for providers that cannot enforce it while decoding
+   */
+  static withInstructions(messages: Message[], outputSchema: OutputSchema): Message[] {
+    const instructions = [
+      'Reply with a single JSON value and nothing else: no prose, no markdown code fences.',
+      'It must validate against this JSON Schema:',
+      JSON.stringify(outputSchema.schema)
+    ].join('\n');
+
+    return [
+      ...messages.slice(0, -1),
+      { role: 'system', content: instructions },
+      ...messages.slice(-1)
+    ];
+  }
+
+  /**
+   * Parse and validate a completed reply, asking for corrected JSON when it
+   * doesn't match. Fails with 422 once the repair attempts are used up.
+   */
+  static async enforce(
+    response: ChatResponse,
+    outputSchema: OutputSchema,
+    context: EnforceContext = {}
+  ): Promise<ChatResponse> {
+    if (response.status && response.status !== 'completed') return response;
+
+    const threadId = response.threadId || context.threadId;
+    // Repairs go to the provider that answered, never to a failover provider
+    const provider = response.provider || (threadId ? AIProviderService.getThreadOwner(threadId) : undefined);
+    let reply = response.reply;
+    let result = this.check(reply, outputSchema.schema);
+
+    for (let attempt = 0; provider && result.errors.length > 0 && attempt < this.getMaxRetries(); attempt++) {
+      if (context.signal?.aborted) break;
+
+      try {
+        const repair = await AIProviderService.completeOn(provider, [
+          { role: 'system', content: this.repairInstructions(outputSchema) },
+          {
+            role: 'user',
+            content: `Previous reply:\n${reply}\n\nProblems:\n${result.errors.map(error => `- ${error}`).join('\n')}`
+          }
+        ], {
+          outputSchema,
+          temperature: 0,
+          signal: context.signal
+        });
+
+        if (threadId) {
+          await UsageService.recordUsage({ threadId, projectId: context.projectId, provider: repair.provider, usage: repair.usage });
+        }
+
+        reply = repair.reply;
+        result = this.check(reply, outputSchema.schema);
+      } catch (error) {
+        console.error('Structured output repair failed:', error);
+        break;
+      }
+    }
+
+    if (result.errors.length > 0) {
+      // finalizeResponse never runs for a rejected answer, so account for it here
+      if (threadId) {
+        await UsageService.recordUsage({
+          threadId,
+          projectId: context.projectId,
+          messageId: response.messageId,
+          provider: response.provider,
+          usage: response.usage,
+          searchCalls: context.searchCalls
+        });
+      }
+
+      throw new SchemaValidationError(
+        `Reply did not match the "${outputSchema.name}" schema`,
+        result.errors,
+        threadId
+      );
+    }
+
+    return {
+      ...response,
+      reply: JSON.stringify(result.value, null, 2),
+      parsedResponse: result.value
+    };
+  }
+
+  /**
+   * Validate a stored-schema create (name and schema required) or update body
+   */
+  static parseInput(body: Record<string, unknown>, partial = false): OutputSchemaInput {
+    const input: OutputSchemaInput = {};
+
+    if ('projectId' in body) {
+      const projectId = body.projectId;
+      if (projectId !== null && (typeof projectId !== 'string' || !UUID_PATTERN.test(projectId))) {
+        throw new ApiError('`projectId` must be a project ID or null', 400, 'VALIDATION_ERROR');
+      }
+      input.projectId = projectId as string | null;
+    }
+
+    if ('name' in body || !partial) {
+      if (typeof body.name !== 'string' || !NAME_PATTERN.test(body.name)) {
+        throw new ApiError('`name` must be 1-64 letters, digits, dashes or underscores', 400, 'VALIDATION_ERROR');
+      }
+      input.name = body.name;
+    }
+
+    if ('description' in body) {
+      const description = body.description;
+      if (description !== null && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+        throw new ApiError(`\`description\` must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`, 400, 'VALIDATION_ERROR');
+      }
+      input.description = (description as string | null)?.trim() || null;
+    }
+
+    if ('schema' in body || !partial) {
+      input.schema = this.checkSchema(body.schema, 'schema');
+    }
+
+    return input;
+  }
+
+  /**
+   * Global schemas, plus the project's own when projectId is given
+   */
+  static async listSchemas(projectId?: string): Promise<StoredOutputSchema[]> {
+    let query = supabase
+      .from('output_schemas')
+      .select(SCHEMA_COLUMNS);
+
+    if (projectId) {
+      this.validateId(projectId, 'project');
+      query = query.or(`project_id.is.null,project_id.eq.${projectId}`);
+    } else {
+      query = query.is('project_id', null);
+    }
+
+    const { data, error } = await query.order('name', { ascending: true });
+
+    if (error) {
+      throw new ApiError('Failed to load output schemas', 500, 'DATABASE_ERROR', error);
+    }
+
+    return (data as SchemaRow[] || []).map(row => this.toStoredSchema(row));
+  }
+
+  static async getSchema(id: string): Promise<StoredOutputSchema> {
+    this.validateId(id, 'schema');
+
+    const { data, error } = await supabase
+      .from('output_schemas')
+      .select(SCHEMA_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new ApiError('Failed to load output schema', 500, 'DATABASE_ERROR', error);
+    }
+    if (!data) {
+      throw new NotFoundError('Output schema', id);
+    }
+
+    return this.toStoredSchema(data as SchemaRow);
+  }
+
+  static async createSchema(input: OutputSchemaInput): Promise<StoredOutputSchema> {
+    const { data, error } = await supabase
+      .from('output_schemas')
+      .insert({
+        project_id: input.projectId || null,
+        name: input.name,
+        description: input.description || null,
+        schema: input.schema
+      })
+      .select(SCHEMA_COLUMNS)
+      .single();
+
+    if (error) {
+      throw this.toWriteError(error, input.name);
+    }
+
+    return this.toStoredSchema(data as SchemaRow);
+  }
+
+  static async updateSchema(id: string, input: OutputSchemaInput): Promise<StoredOutputSchema> {
+    this.validateId(id, 'schema');
+
+    const updates: Record<string, unknown> = {};
+    if (input.projectId !== undefined) updates.project_id = input.projectId;
+    if (input.name !== undefined) updates.name = input.name;
+    if (input.description !== undefined) updates.description = input.description;
+    if (input.schema !== undefined) updates.schema = input.schema;
+
+    if (Object.keys(updates).length === 0) {
+      throw new ApiError('No fields to update', 400, 'VALIDATION_ERROR');
+    }
+    updates.updated_at = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('output_schemas')
+      .update(updates)
+      .eq('id', id)
+      .select(SCHEMA_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw this.toWriteError(error, input.name);
+    }
+    if (!data) {
+      throw new NotFoundError('Output schema', id);
+    }
+
+    return this.toStoredSchema(data as SchemaRow);
+  }
+
+  static async deleteSchema(id: string): Promise<void> {
+    this.validateId(id, 'schema');
+
+    const { error } = await supabase
+      .from('output_schemas')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new ApiError('Failed to delete output schema', 500, 'DATABASE_ERROR', error);
+    }
+  }
+
+  // Private helper methods
+
+  private static getMaxRetries(): number {
+    return parseInt(process.env.STRUCTURED_OUTPUT_MAX_RETRIES || '2');
+  }
+
+  /**
+   * A usable schema definition: a JSON object describing an object, since
+   * structured output needs an object at the root
+   */
+  private static checkSchema(value: unknown, field: string): JsonSchema {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ApiError(`\`${field}\` must be a JSON Schema object`, 400, 'VALIDATION_ERROR');
+    }
+
+    const schema = value as JsonSchema;
+    if (schema.type !== 'object') {
+      throw new ApiError(`\`${field}\` must describe an object (type: "object")`, 400, 'VALIDATION_ERROR');
+    }
+    if (JSON.stringify(schema).length > MAX_SCHEMA_CHARS) {
+      throw new ApiError(`\`${field}\` must be at most ${MAX_SCHEMA_CHARS} characters`, 400, 'VALIDATION_ERROR');
+    }
+
+    return schema;
+  }
+
+  private static check(reply: string, schema: JsonSchema): { value?: unknown; errors: string[] } {
+    const parsed = this.parseReply(reply);
+    if (parsed === undefined) {
+      return { errors: ['Reply is not valid JSON'] };
+    }
+
+    return { value: parsed, errors: validateJsonSchema(parsed, schema) };
+  }
+
+  /**
+   * JSON value in a reply, tolerating code fences, file-search citation
+   * marks and prose around a single object
+   */
+  private static parseReply(reply: string): unknown {
+    const text = reply
+      .replace(/【[^】]*】/g, '')
+      .trim()
+      .replace(/^```(?:json)?\s*/i, '')
+      .replace(/\s*```$/, '');
+
+    const candidates = [text];
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start >= 0 && end > start) {
+      candidates.push(text.slice(start, end + 1));
+    }
+
+    for (const candidate of candidates) {
+      try {
+        return JSON.parse(candidate);
+      } catch {
+        // Try the next candidate
+      }
+    }
+    return undefined;
+  }
+
+  private static repairInstructions(outputSchema: OutputSchema): string {
+    return [
+      'You fix JSON so that it validates against a JSON Schema.',
+      'Keep the content of the previous reply; change only what the listed problems require.',
+      'Reply with the corrected JSON value only: no prose, no markdown code fences.',
+      `Schema "${outputSchema.name}":`,
+      JSON.stringify(outputSchema.schema)
+    ].join('\n');
+  }
+
+  private static toWriteError(error: { code?: string }, name?: string): ApiError {
+    if (error.code === '23505') {
+      return new ApiError(`A schema named ${name} already exists here`, 409, 'CONFLICT');
+    }
+    if (error.code === '23503') {
+      return new NotFoundError('Project');
+    }
+    return new ApiError('Failed to save output schema', 500, 'DATABASE_ERROR', error);
+  }
+
+  private static toStoredSchema(row: SchemaRow): StoredOutputSchema {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      name: row.name,
+      description: row.description || undefined,
+      schema: row.schema,
+      strict: isStrictSchema(row.schema),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private static validateId(id: string, kind: 'schema' | 'project'): void {
+    if (!UUID_PATTERN.test(id)) {
+      throw new ApiError(`Invalid ${kind} ID`, 400, 'VALIDATION_ERROR');
+    }
+  }
+}
@@ -0,0 +1,53 @@
+// services/templateService.ts
+import { baseFetch } from './apiClient';
+import { PromptTemplate, PromptTemplateInput, PromptTemplateVersion } from '../types/entities.types';
+import { CONSTANTS } from '../types/constants';
+
+export class TemplateService {
+  /**
+   * Global templates plus the project's own (project ones first)
+   */
+  static async getTemplates(projectId?: string): Promise<PromptTemplate[]> {
+    const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.TEMPLATES}${query}`);
+    const data = await response.json();
+    return data.templates || [];
+  }
+
+  static async createTemplate(template: PromptTemplateInput): Promise<PromptTemplate> {
+    const response = await baseFetch(CONSTANTS.API_ENDPOINTS.TEMPLATES, {
+      method: 'POST',
+      body: JSON.stringify(template),
+    });
+    const data = await response.json();
+    return data.template;
+  }
+
+  /**
+   * version is the one the edit started from; a newer saved version makes this fail
+   */
+  static async updateTemplate(
+    templateId: string,
+    updates: PromptTemplateInput,
+    version?: number
+  ): Promise<PromptTemplate> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.TEMPLATES}/${templateId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ ...updates, version }),
+    });
+    const data = await response.json();
+    return data.template;
+  }
+
+  static async deleteTemplate(templateId: string): Promise<void> {
+    await baseFetch(`${CONSTANTS.API_ENDPOINTS.TEMPLATES}/${templateId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  static async getVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.TEMPLATES}/${templateId}/versions`);
+    const data = await response.json();
+    return data.versions || [];
+  }
+}
@@ -0,0 +1,483 @@
+// services/textExtractionService.ts
+import { inflateRawSync, inflateSync } from 'zlib';
+
+export interface TextExtractionResult {
+  text: string;
+  method: 'plain' | 'html' | 'pdf' | 'docx' | 'pptx' | 'unsupported';
+  truncated: boolean;
+}
+
+interface PdfObject {
+  body: string; // Everything between "obj" and "stream"/"endobj"
+  stream?: Buffer; // Raw (still encoded) stream data
+}
+
+/**
+ * Local text extraction for uploaded documents.
+ * Used by providers that cannot process files server-side (LM Studio),
+ * so document content never has to leave our infrastructure, and to
+ * build the retrieval index over project documents.
+ */
+export class TextExtractionService {
+  private static readonly DEFAULT_MAX_CHARS = 50000;
+
+  // Cap on any one decompressed stream or ZIP entry, so a small compressed
+  // upload can't expand into gigabytes of memory
+  private static readonly MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+
+  private static readonly PLAIN_TEXT_EXTENSIONS = [
+    'txt', 'md', 'csv', 'json', 'xml', 'yaml', 'yml', 'log', 'tsv'
+  ];
+
+  /**
+   * Extract readable text from a file buffer based on its type
+   */
+  static extractText(
+    file: Buffer,
+    fileType: string,
+    filename: string,
+    maxChars: number = this.DEFAULT_MAX_CHARS
+  ): TextExtractionResult {
+    const extension = filename.toLowerCase().split('.').pop() || '';
+    let text = '';
+    let method: TextExtractionResult['method'] = 'unsupported';
+
+    try {
+      if (fileType === 'text/html' || extension === 'html' || extension === 'htm') {
+        text = this.stripHtml(file.toString('utf8'));
+        method = 'html';
+      } else if (this.isPlainText(fileType, extension)) {
+        text = file.toString('utf8');
+        method = 'plain';
+      } else if (fileType === 'application/pdf' || extension === 'pdf') {
+        text = this.extractPdfText(file);
+        method = 'pdf';
+      } else if (extension === 'docx') {
+        text = this.extractDocxText(file);
+        method = 'docx';
+      } else if (extension === 'pptx') {
+        text = this.extractPptxText(file);
+        method = 'pptx';
+      }
+    } catch (error) {
+      console.error(`Text extraction failed for ${filename}:`, error);
+      text = '';
+    }
+
+    const normalized = this.normalize(text);
+
+    return {
+      text: normalized.substring(0, maxChars),
+      method,
+      truncated: normalized.length > maxChars
+    };
+  }
+
+  /**
+   * Extract text split by page where the format has pages (PDF pages,
+   * PowerPoint slides); other formats come back as a single entry. PDFs whose
+   * page tree can't be read come back as a single entry too, without a page.
+   */
+  static extractPages(
+    file: Buffer,
+    fileType: string,
+    filename: string
+  ): { page?: number; text: string }[] {
+    const extension = filename.toLowerCase().split('.').pop() || '';
+    let pages: string[] | null = null;
+
+    try {
+      if (fileType === 'application/pdf' || extension === 'pdf') {
+        pages = this.extractPdfPages(file);
+      } else if (extension === 'pptx') {
+        pages = this.extractPptxSlides(file);
+      }
+    } catch (error) {
+      console.error(`Page extraction failed for ${filename}:`, error);
+      return [];
+    }
+
+    if (!pages) {
+      const { text } = this.extractText(file, fileType, filename, Number.MAX_SAFE_INTEGER);
+      return text ? [{ text }] : [];
+    }
+
+    return pages
+      .map((text, index) => ({ page: index + 1, text: this.normalize(text) }))
+      .filter(page => page.text.length > 0);
+  }
+
+  /**
+   * Check whether a file can be read as UTF-8 text directly
+   */
+  static isPlainText(fileType: string, extension: string): boolean {
+    if (fileType.startsWith('text/')) return true;
+    if (['application/json', 'application/xml', 'application/csv'].includes(fileType)) return true;
+    return this.PLAIN_TEXT_EXTENSIONS.includes(extension);
+  }
+
+  /**
+   * Remove markup from HTML/XML and decode common entities
+   */
+  static stripHtml(html: string): string {
+    return this.decodeEntities(
+      html
+        .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<\/(p|div|h[1-6]|li|tr|section|article|br)\s*>/gi, '\n')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<[^>]+>/g, ' ')
+    ).replace(/[ \t]{2,}/g, ' ');
+  }
+
+  /**
+   * Minimal PDF text extraction: inflates content streams and reads
+   * string operands of the Tj/TJ/'/" text operators. Good enough for
+   * text-based PDFs; scanned documents yield no text.
+   */
+  static extractPdfText(file: Buffer): string {
+    return (this.extractPdfPages(file) || this.extractPdfStreams(file)).join('\n');
+  }
+
+  /**
+   * Text of each PDF page, in page order, found by walking the page tree from
+   * the catalog (/Pages, /Kids, /Contents). A page's content may be split over
+   * several streams. Returns null when there is no readable page tree, since
+   * the order of streams in the file says nothing reliable about pages.
+   */
+  static extractPdfPages(file: Buffer): string[] | null {
+    const objects = this.readPdfObjects(file);
+    const catalog = Array.from(objects.values()).find(object => /\/Type\s*\/Catalog\b/.test(object.body));
+    const root = catalog?.body.match(/\/Pages\s+(\d+)\s+\d+\s+R/);
+    if (!root) return null;
+
+    const pages: string[] = [];
+    const visited = new Set<number>();
+
+    const walk = (objectNumber: number) => {
+      // Guard against cycles in damaged files
+      if (visited.has(objectNumber)) return;
+      visited.add(objectNumber);
+
+      const node = objects.get(objectNumber);
+      if (!node) return;
+
+      const kids = node.body.match(/\/Kids\s*\[([^\]]*)\]/);
+      if (kids) {
+        this.readPdfRefs(kids[1]).forEach(walk);
+        return;
+      }
+
+      if (/\/Type\s*\/Page\b/.test(node.body)) {
+        pages.push(this.readPdfPageContents(node, objects).join('\n'));
+      }
+    };
+
+    walk(parseInt(root[1]));
+    return pages.length > 0 ? pages : null;
+  }
+
+  /**
+   * Text of each PDF content stream that contains text, in file order. Used
+   * for the full text when the page tree can't be read.
+   */
+  private static extractPdfStreams(file: Buffer): string[] {
+    const raw = file.toString('latin1');
+    // Each stream's dictionary, read from its own object only (never across endobj)
+    const streamPattern = /\d+\s+\d+\s+obj\s*<<((?:(?!endobj)[^])*?)>>\s*stream\r?\n/g;
+    const chunks: string[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = streamPattern.exec(raw)) !== null) {
+      const dictionary = match[1];
+      const start = match.index + match[0].length;
+      const end = raw.indexOf('endstream', start);
+      if (end === -1) break;
+
+      // Skip images, fonts and other binary payloads
+      if (/\/Subtype\s*\/Image|\/FontFile|\/Type\s*\/XObject/.test(dictionary)) {
+        streamPattern.lastIndex = end;
+        continue;
+      }
+
+      let content = file.subarray(start, end);
+      if (/\/FlateDecode/.test(dictionary)) {
+        try {
+          content = inflateSync(content, { maxOutputLength: this.MAX_INFLATED_BYTES });
+        } catch {
+          streamPattern.lastIndex = end;
+          continue;
+        }
+      }
+
+      const text = this.readPdfTextOperators(content.toString('latin1'));
+      if (text.trim()) {
+        chunks.push(text);
+      }
+      streamPattern.lastIndex = end;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Extract paragraph text from a Word (.docx) document
+   */
+  static extractDocxText(file: Buffer): string {
+    const documentXml = this.readZipEntry(file, 'word/document.xml');
+    if (!documentXml) return '';
+
+    return this.decodeEntities(
+      documentXml
+        .toString('utf8')
+        .replace(/<w:tab\/>/g, '\t')
+        .replace(/<\/w:p>/g, '\n')
+        .replace(/<[^>]+>/g, '')
+    );
+  }
+
+  /**
+   * Extract slide text from a PowerPoint (.pptx) presentation
+   */
+  static extractPptxText(file: Buffer): string {
+    return this.extractPptxSlides(file)
+      .map((text, index) => `Slide ${index + 1}: ${text}`)
+      .join('\n');
+  }
+
+  /**
+   * Text of each PowerPoint slide, in slide order
+   */
+  static extractPptxSlides(file: Buffer): string[] {
+    const slides: string[] = [];
+
+    for (let index = 1; ; index++) {
+      const slideXml = this.readZipEntry(file, `ppt/slides/slide${index}.xml`);
+      if (!slideXml) break;
+
+      const runs = slideXml.toString('utf8').match(/<a:t>([^<]*)<\/a:t>/g) || [];
+      slides.push(runs.map(run => this.decodeEntities(run.replace(/<\/?a:t>/g, ''))).join(' '));
+    }
+
+    return slides;
+  }
+
+  // Private helper methods
+
+  private static normalize(text: string): string {
+    return text
+      .replace(/\r\n/g, '\n')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Every object in a PDF by number, including those packed into object
+   * streams. Later definitions win, as they do in incrementally updated files.
+   */
+  private static readPdfObjects(file: Buffer): Map<number, PdfObject> {
+    const raw = file.toString('latin1');
+    const objects = new Map<number, PdfObject>();
+    const objectPattern = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = objectPattern.exec(raw)) !== null) {
+      const objectNumber = parseInt(match[1]);
+      const bodyStart = match.index + match[0].length;
+      const end = raw.indexOf('endobj', bodyStart);
+      const streamAt = raw.indexOf('stream', bodyStart);
+
+      if (streamAt !== -1 && (end === -1 || streamAt < end)) {
+        let dataStart = streamAt + 'stream'.length;
+        if (raw[dataStart] === '\r') dataStart++;
+        if (raw[dataStart] === '\n') dataStart++;
+        const dataEnd = raw.indexOf('endstream', dataStart);
+        if (dataEnd === -1) break;
+
+        objects.set(objectNumber, { body: raw.slice(bodyStart, streamAt), stream: file.subarray(dataStart, dataEnd) });
+        objectPattern.lastIndex = dataEnd;
+      } else {
+        objects.set(objectNumber, { body: raw.slice(bodyStart, end === -1 ? undefined : end) });
+        if (end === -1) break;
+        objectPattern.lastIndex = end;
+      }
+    }
+
+    // PDF 1.5+ often keeps page objects inside compressed object streams
+    for (const object of Array.from(objects.values())) {
+      if (!/\/Type\s*\/ObjStm\b/.test(object.body)) continue;
+
+      const content = this.decodePdfStream(object);
+      const count = parseInt(object.body.match(/\/N\s+(\d+)/)?.[1] || '0');
+      const first = parseInt(object.body.match(/\/First\s+(\d+)/)?.[1] || '0');
+      if (!content || !count) continue;
+
+      const text = content.toString('latin1');
+      const header = text.slice(0, first).trim().split(/\s+/).map(value => parseInt(value));
+      for (let index = 0; index < count; index++) {
+        const objectNumber = header[index * 2];
+        const start = first + header[index * 2 + 1];
+        const end = index + 1 < count ? first + header[index * 2 + 3] : text.length;
+        if (Number.isNaN(objectNumber) || Number.isNaN(start) || objects.has(objectNumber)) continue;
+        objects.set(objectNumber, { body: text.slice(start, end) });
+      }
+    }
+
+    return objects;
+  }
+
+  /**
+   * Text of a page's content streams. /Contents is one stream or an array of
+   * them, and the array itself may be a separate object.
+   */
+  private static readPdfPageContents(page: PdfObject, objects: Map<number, PdfObject>): string[] {
+    const direct = page.body.match(/\/Contents\s*\[([^\]]*)\]/);
+    let refs = direct ? this.readPdfRefs(direct[1]) : [];
+
+    const single = page.body.match(/\/Contents\s+(\d+)\s+\d+\s+R/);
+    if (!direct && single) {
+      const target = objects.get(parseInt(single[1]));
+      refs = target && !target.stream && target.body.trim().startsWith('[')
+        ? this.readPdfRefs(target.body)
+        : [parseInt(single[1])];
+    }
+
+    return refs
+      .map(ref => objects.get(ref))
+      .map(stream => (stream ? this.decodePdfStream(stream) : null))
+      .map(content => (content ? this.readPdfTextOperators(content.toString('latin1')) : ''))
+      .filter(text => text.trim());
+  }
+
+  private static readPdfRefs(text: string): number[] {
+    return Array.from(text.matchAll(/(\d+)\s+\d+\s+R/g), ref => parseInt(ref[1]));
+  }
+
+  /**
+   * Stream data, inflated when Flate-encoded; null when it can't be decoded
+   */
+  private static decodePdfStream(object: PdfObject): Buffer | null {
+    if (!object.stream) return null;
+    if (!/\/FlateDecode/.test(object.body)) return object.stream;
+
+    try {
+      return inflateSync(object.stream, { maxOutputLength: this.MAX_INFLATED_BYTES });
+    } catch {
+      return null;
+    }
+  }
+
+  private static readPdfTextOperators(content: string): string {
+    const lines: string[] = [];
+    let current = '';
+    const tokenPattern = /\((?:\\.|[^\\)])*\)\s*(?:Tj|'|")|\[((?:\\.|[^\]])*)\]\s*TJ|T\*|-?[\d.]+\s+-?[\d.]+\s+T[dD]|ET/g;
+    let token: RegExpExecArray | null;
+
+    while ((token = tokenPattern.exec(content)) !== null) {
+      const value = token[0];
+
+      if (value === 'ET' || value === 'T*' || /T[dD]$/.test(value)) {
+        if (current.trim()) lines.push(current.trim());
+        current = '';
+        continue;
+      }
+
+      if (value.startsWith('[')) {
+        const parts = token[1].match(/\((?:\\.|[^\\)])*\)|-?\d+(?:\.\d+)?/g) || [];
+        for (const part of parts) {
+          if (part.startsWith('(')) {
+            current += this.decodePdfString(part);
+          } else if (parseFloat(part) < -200) {
+            // Large negative kerning usually means a word gap
+            current += ' ';
+          }
+        }
+      } else {
+        current += this.decodePdfString(value.substring(0, value.lastIndexOf(')') + 1));
+      }
+    }
+
+    if (current.trim()) lines.push(current.trim());
+    return lines.join('\n');
+  }
+
+  private static decodePdfString(literal: string): string {
+    return literal
+      .slice(1, -1)
+      .replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, escape: string) => {
+        switch (escape) {
+          case 'n': return '\n';
+          case 'r': return '\r';
+          case 't': return '\t';
+          case 'b':
+          case 'f': return '';
+          case '(':
+          case ')':
+          case '\\': return escape;
+          default: return String.fromCharCode(parseInt(escape, 8));
+        }
+      });
+  }
+
+  /**
+   * Read a single entry from a ZIP archive (Office Open XML container)
+   */
+  private static readZipEntry(zip: Buffer, entryName: string): Buffer | null {
+    // Locate End Of Central Directory record
+    let eocd = -1;
+    for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65557); i--) {
+      if (zip.readUInt32LE(i) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) return null;
+
+    const entryCount = zip.readUInt16LE(eocd + 10);
+    let offset = zip.readUInt32LE(eocd + 16);
+
+    for (let i = 0; i < entryCount; i++) {
+      if (zip.readUInt32LE(offset) !== 0x02014b50) return null;
+
+      const method = zip.readUInt16LE(offset + 10);
+      const compressedSize = zip.readUInt32LE(offset + 20);
+      const uncompressedSize = zip.readUInt32LE(offset + 24);
+      const nameLength = zip.readUInt16LE(offset + 28);
+      const extraLength = zip.readUInt16LE(offset + 30);
+      const commentLength = zip.readUInt16LE(offset + 32);
+      const localHeaderOffset = zip.readUInt32LE(offset + 42);
+      const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+      if (name === entryName) {
+        if (uncompressedSize > this.MAX_INFLATED_BYTES) {
+          throw new Error(`ZIP entry ${entryName} is larger than ${this.MAX_INFLATED_BYTES} bytes`);
+        }
+
+        const localNameLength = zip.readUInt16LE(localHeaderOffset + 26);
+        const localExtraLength = zip.readUInt16LE(localHeaderOffset + 28);
+        const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+        const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) return data;
+        // The declared size can lie, so also cap what inflate may produce
+        if (method === 8) return inflateRawSync(data, { maxOutputLength: this.MAX_INFLATED_BYTES });
+        return null;
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return null;
+  }
+
+  private static decodeEntities(text: string): string {
+    return text
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&apos;/g, "'")
+      .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(parseInt(code, 10)))
+      .replace(/&amp;/g, '&');
+  }
+}
@@ -0,0 +1,190 @@
+// services/threadBranchService.ts
+import { createClient } from '@supabase/supabase-js';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { Message } from '@/lib/providers/aiProvider.interface';
+import { AIProviderService } from './aiProviderService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export type BranchKind = 'edit' | 'regenerate';
+
+export interface ThreadBranch {
+  threadId: string;
+  title: string;
+  parentThreadId?: string;
+  branchUserTurn?: number; // User message (0-based) that was edited or re-answered
+  kind?: BranchKind;
+  model?: string;
+  createdAt?: string;
+}
+
+export interface BranchOptions {
+  kind?: BranchKind;
+  projectId?: string;
+  model?: string; // Model for the branch; defaults to the source thread's
+}
+
+export interface BranchFamily {
+  rootThreadId: string;
+  branches: ThreadBranch[]; // Root first, then branches oldest first
+}
+
+interface BranchRow {
+  id: string;
+  title: string;
+  parent_thread_id: string | null;
+  branch_user_turn: number | null;
+  branch_kind: BranchKind | null;
+  model: string | null;
+  created_at: string | null;
+}
+
+const BRANCH_COLUMNS = 'id, title, parent_thread_id, branch_user_turn, branch_kind, model, created_at';
+
+// Interpolated into a PostgREST filter, so kept to ID characters
+const THREAD_ID_PATTERN = /^[\w-]{1,100}$/;
+
+/**
+ * Conversation branching. Editing an earlier user message or regenerating
+ * an answer forks the thread: provider threads are append-only, so the
+ * branch is a new thread seeded with the stored history up to that user
+ * message. Branches of a thread share a root so the client can move
+ * between alternatives; regenerated answers are grouped under the thread
+ * they were regenerated from so they read as versions of one answer.
+ */
+export class ThreadBranchService {
+  /**
+   * Fork a thread just before its userTurn-th user message
+   */
+  static async createBranch(
+    threadId: string,
+    userTurn: number,
+    options: BranchOptions = {}
+  ): Promise<ThreadBranch> {
+    const kind = options.kind || 'edit';
+    const { data: source, error } = await supabase
+      .from('threads')
+      .select('title, project_id, root_thread_id, parent_thread_id, branch_user_turn, branch_kind, model, temperature')
+      .eq('id', threadId)
+      .maybeSingle();
+
+    if (error) {
+      throw new ApiError('Failed to load thread', 500, 'DATABASE_ERROR', error);
+    }
+
+    const history = await AIProviderService.getThreadMessages(threadId);
+    const cutIndex = this.findUserTurn(history, userTurn);
+
+    if (cutIndex < 0) {
+      throw new ApiError(`Message ${userTurn + 1} was not found in the thread history`, 400, 'VALIDATION_ERROR');
+    }
+
+    const seed = history.slice(0, cutIndex);
+    const branchThreadId = await AIProviderService.forkThread(threadId, seed);
+    const title = source?.title || 'New Thread';
+
+    // Another take on an answer that was itself regenerated joins the same version group
+    const regeneratesVersion = kind === 'regenerate' &&
+      source?.branch_kind === 'regenerate' &&
+      source.branch_user_turn === userTurn;
+    const parentThreadId = regeneratesVersion ? source.parent_thread_id : threadId;
+
+    const { data: branch, error: insertError } = await supabase
+      .from('threads')
+      .insert({
+        id: branchThreadId,
+        title,
+        project_id: options.projectId || source?.project_id || null,
+        parent_thread_id: parentThreadId,
+        root_thread_id: source?.root_thread_id || threadId,
+        branch_user_turn: userTurn,
+        branch_kind: kind,
+        model: options.model || source?.model || null,
+        temperature: source?.temperature ?? null,
+        messages: seed.map(msg => ({ role: msg.role, content: msg.content })),
+        message_count: seed.length
+      })
+      .select(BRANCH_COLUMNS)
+      .single();
+
+    if (insertError) {
+      // The provider thread exists but would be unreachable
+      await AIProviderService.deleteThread(branchThreadId).catch(() => undefined);
+      throw new ApiError('Failed to save branch', 500, 'DATABASE_ERROR', insertError);
+    }
+
+    return this.toBranch(branch as BranchRow);
+  }
+
+  /**
+   * The thread's root and every branch taken from it
+   */
+  static async getFamily(threadId: string): Promise<BranchFamily> {
+    if (!THREAD_ID_PATTERN.test(threadId)) {
+      throw new ApiError('Invalid thread ID', 400, 'VALIDATION_ERROR');
+    }
+
+    const { data: thread, error } = await supabase
+      .from('threads')
+      .select('root_thread_id')
+      .eq('id', threadId)
+      .maybeSingle();
+
+    if (error) {
+      throw new ApiError('Failed to load thread', 500, 'DATABASE_ERROR', error);
+    }
+
+    const rootThreadId = thread?.root_thread_id || threadId;
+
+    const { data: rows, error: familyError } = await supabase
+      .from('threads')
+      .select(BRANCH_COLUMNS)
+      .or(`id.eq.${rootThreadId},root_thread_id.eq.${rootThreadId}`)
+      .order('created_at', { ascending: true });
+
+    if (familyError) {
+      throw new ApiError('Failed to load branches', 500, 'DATABASE_ERROR', familyError);
+    }
+
+    const branches = ((rows || []) as BranchRow[]).map(row => this.toBranch(row));
+    const root = branches.find(branch => branch.threadId === rootThreadId);
+
+    return {
+      rootThreadId,
+      branches: [
+        // Unsaved chats can still be branched; their root has no record
+        root || { threadId: rootThreadId, title: 'Original' },
+        ...branches.filter(branch => branch.threadId !== rootThreadId)
+      ]
+    };
+  }
+
+  // Private helper methods
+
+  private static findUserTurn(history: Message[], userTurn: number): number {
+    let seen = -1;
+
+    for (let index = 0; index < history.length; index++) {
+      if (history[index].role !== 'user') continue;
+      seen++;
+      if (seen === userTurn) return index;
+    }
+
+    return -1;
+  }
+
+  private static toBranch(row: BranchRow): ThreadBranch {
+    return {
+      threadId: row.id,
+      title: row.title,
+      parentThreadId: row.parent_thread_id || undefined,
+      branchUserTurn: row.branch_user_turn ?? undefined,
+      kind: row.branch_kind || undefined,
+      model: row.model || undefined,
+      createdAt: row.created_at || undefined
+    };
+  }
+}
@@ -0,0 +1,359 @@
+// services/threadMemoryService.ts
+import { createClient } from '@supabase/supabase-js';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { Message } from '@/lib/providers/aiProvider.interface';
+import { AIProviderService } from './aiProviderService';
+import { UsageService } from './usageService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface ThreadMemory {
+  threadId: string;
+  summary: string;
+  summarizedThrough?: string; // Timestamp of the newest message folded into the summary
+  summarizedThroughId?: string; // ID of that message; timestamps can tie within a second
+  summarizedMessages: number;
+  summaryTokens: number;
+  editedAt?: string; // Last manual edit
+  updatedAt?: string;
+}
+
+export interface ContextWindow {
+  summary?: string; // Prompt section with the thread memory
+  messages: Message[]; // Recent history that fits the budget, oldest first
+  tokens: number; // Estimated tokens of the summary and messages
+}
+
+interface MemoryRow {
+  thread_id: string;
+  summary: string;
+  summarized_through: string | null;
+  summarized_through_id: string | null;
+  summarized_messages: number;
+  summary_tokens: number;
+  edited_at: string | null;
+  updated_at: string | null;
+}
+
+const MEMORY_COLUMNS = 'thread_id, summary, summarized_through, summarized_through_id, summarized_messages, summary_tokens, edited_at, updated_at';
+
+// Rough average for English text across the tokenizers in use
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators each message adds to a prompt
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const MAX_SUMMARY_CHARS = 20000;
+
+// Interpolated into provider calls and queries, so kept to ID characters
+const THREAD_ID_PATTERN = /^[\w-]{1,100}$/;
+
+const SUMMARY_INSTRUCTIONS = (words: number) => [
+  'You maintain the running memory of a long consulting conversation.',
+  'Merge the current summary (if any) with the new messages into one updated summary.',
+  'Keep decisions, agreed facts and figures, names, deliverables, the user\'s preferences and open questions;',
+  'drop small talk and detail that later messages superseded.',
+  `Use short bullet points under plain headings and stay under about ${words} words.`,
+  'Reply with the summary only.'
+].join(' ');
+
+/**
+ * Context management for long threads. Prompts are assembled within a token
+ * budget: recent messages go in verbatim and older turns are folded into a
+ * persisted rolling summary (the thread memory) once they no longer fit.
+ * Token counts are estimates, close enough for budgeting across providers
+ * whose tokenizers differ.
+ */
+export class ThreadMemoryService {
+  static isEnabled(): boolean {
+    return process.env.THREAD_MEMORY_ENABLED === 'true';
+  }
+
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  static countTokens(messages: Message[]): number {
+    return messages.reduce(
+      (total, msg) => total + this.estimateTokens(this.toText(msg.content)) + MESSAGE_OVERHEAD_TOKENS,
+      0
+    );
+  }
+
+  /**
+   * Summary and recent history to send with the next prompt. reservedTokens
+   * covers what the caller adds itself (instructions, the new turn, file text).
+   */
+  static async buildContext(threadId: string, history: Message[], reservedTokens = 0): Promise<ContextWindow> {
+    const config = this.getConfig();
+    const budget = Math.max(config.budgetTokens - reservedTokens, 0);
+    const conversation = history.filter(msg => msg.role === 'user' || msg.role === 'assistant');
+
+    let memory = await this.loadMemory(threadId);
+    let pending = this.after(conversation, memory);
+
+    const overBudget = (memory?.summaryTokens || 0) + this.countTokens(pending) > budget;
+    if (overBudget && pending.length > config.recentMessages) {
+      // Keep only what fits in half the budget so folding happens every few turns, not every turn
+      const keep = this.takeRecent(pending, budget / 2, config.recentMessages);
+      const folded = await this.fold(threadId, memory, pending.slice(0, pending.length - keep.length));
+      if (folded) {
+        memory = folded;
+        pending = keep;
+      }
+    }
+
+    const summary = memory?.summary ? this.formatSummary(memory.summary) : undefined;
+    const summaryTokens = summary ? this.estimateTokens(summary) : 0;
+    const messages = this.takeRecent(pending, budget - summaryTokens, 0);
+
+    return { summary, messages, tokens: summaryTokens + this.countTokens(messages) };
+  }
+
+  /**
+   * Stored memory of a thread, or null before anything was summarized
+   */
+  static async getMemory(threadId: string): Promise<ThreadMemory | null> {
+    this.validateThreadId(threadId);
+
+    const { data, error } = await supabase
+      .from('thread_memory')
+      .select(MEMORY_COLUMNS)
+      .eq('thread_id', threadId)
+      .maybeSingle();
+
+    if (error) {
+      throw new ApiError('Failed to load thread memory', 500, 'DATABASE_ERROR', error);
+    }
+
+    return data ? this.toMemory(data as MemoryRow) : null;
+  }
+
+  /**
+   * Replace the summary with the user's edit; later folds build on the edited text
+   */
+  static async updateSummary(threadId: string, summary: string): Promise<ThreadMemory> {
+    this.validateThreadId(threadId);
+
+    if (summary.length > MAX_SUMMARY_CHARS) {
+      throw new ApiError(`summary must be at most ${MAX_SUMMARY_CHARS} characters`, 400, 'VALIDATION_ERROR');
+    }
+
+    const current = await this.getMemory(threadId);
+    return this.saveMemory({
+      threadId,
+      summary: summary.trim(),
+      summarizedThrough: current?.summarizedThrough,
+      summarizedThroughId: current?.summarizedThroughId,
+      summarizedMessages: current?.summarizedMessages || 0,
+      summaryTokens: this.estimateTokens(summary.trim()),
+      editedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Forget the summary; older turns are summarized again when they next overflow
+   */
+  static async deleteMemory(threadId: string): Promise<void> {
+    this.validateThreadId(threadId);
+
+    const { error } = await supabase
+      .from('thread_memory')
+      .delete()
+      .eq('thread_id', threadId);
+
+    if (error) {
+      throw new ApiError('Failed to delete thread memory', 500, 'DATABASE_ERROR', error);
+    }
+  }
+
+  // Private helper methods
+
+  private static getConfig() {
+    return {
+      budgetTokens: parseInt(process.env.CONTEXT_TOKEN_BUDGET || '12000'),
+      recentMessages: parseInt(process.env.CONTEXT_RECENT_MESSAGES || '6'),
+      summaryTokens: parseInt(process.env.THREAD_MEMORY_SUMMARY_TOKENS || '800')
+    };
+  }
+
+  /**
+   * Memory for prompt assembly; a failed lookup just means no summary this time
+   */
+  private static async loadMemory(threadId: string): Promise<ThreadMemory | null> {
+    try {
+      return await this.getMemory(threadId);
+    } catch (error) {
+      console.error(`Failed to load memory for thread ${threadId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Fold messages into the summary, a budget-sized batch at a time
+   */
+  private static async fold(
+    threadId: string,
+    memory: ThreadMemory | null,
+    messages: Message[]
+  ): Promise<ThreadMemory | null> {
+    if (messages.length === 0) return null;
+
+    try {
+      let summary = memory?.summary || '';
+      for (const batch of this.toBatches(messages)) {
+        summary = await this.summarize(threadId, summary, batch);
+      }
+
+      return await this.saveMemory({
+        threadId,
+        summary,
+        summarizedThrough: messages[messages.length - 1].created_at || memory?.summarizedThrough,
+        summarizedThroughId: messages[messages.length - 1].id || memory?.summarizedThroughId,
+        summarizedMessages: (memory?.summarizedMessages || 0) + messages.length,
+        summaryTokens: this.estimateTokens(summary),
+        editedAt: memory?.editedAt
+      });
+    } catch (error) {
+      // The prompt still goes out, trimmed to the budget without a fresh summary
+      console.error(`Failed to update memory for thread ${threadId}:`, error);
+      return null;
+    }
+  }
+
+  private static async summarize(threadId: string, summary: string, batch: Message[]): Promise<string> {
+    const { budgetTokens, summaryTokens } = this.getConfig();
+    const transcript = batch
+      .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${this.toText(msg.content).substring(0, budgetTokens * CHARS_PER_TOKEN)}`)
+      .join('\n\n');
+
+    // The thread's own provider only, so history never leaves where it was sent
+    const response = await AIProviderService.completeOn(AIProviderService.getThreadOwner(threadId), [
+      { role: 'system', content: SUMMARY_INSTRUCTIONS(Math.round(summaryTokens * 0.75)) },
+      {
+        role: 'user',
+        content: `${summary ? `Current summary:\n${summary}\n\n` : ''}New messages:\n${transcript}`
+      }
+    ], {
+      maxTokens: Math.round(summaryTokens * 1.5),
+      temperature: 0.2
+    });
+
+    await UsageService.recordUsage({ threadId, provider: response.provider, usage: response.usage });
+
+    const updated = response.reply.trim();
+    if (!updated) {
+      throw new Error('Summary came back empty');
+    }
+    return updated;
+  }
+
+  /**
+   * Consecutive groups of messages that each fit in one summarization prompt
+   */
+  private static toBatches(messages: Message[]): Message[][] {
+    const { budgetTokens } = this.getConfig();
+    const batches: Message[][] = [];
+    let current: Message[] = [];
+    let tokens = 0;
+
+    for (const msg of messages) {
+      const msgTokens = this.countTokens([msg]);
+      if (current.length > 0 && tokens + msgTokens > budgetTokens) {
+        batches.push(current);
+        current = [];
+        tokens = 0;
+      }
+      current.push(msg);
+      tokens += msgTokens;
+    }
+
+    if (current.length > 0) batches.push(current);
+    return batches;
+  }
+
+  /**
+   * Newest messages that fit in maxTokens (at least minCount), oldest first
+   */
+  private static takeRecent(messages: Message[], maxTokens: number, minCount: number): Message[] {
+    let tokens = 0;
+    let start = messages.length;
+
+    while (start > 0) {
+      const msgTokens = this.countTokens([messages[start - 1]]);
+      if (tokens + msgTokens > maxTokens && messages.length - start >= minCount) break;
+      tokens += msgTokens;
+      start--;
+    }
+
+    return messages.slice(start);
+  }
+
+  /**
+   * Messages newer than the summary. The last summarized message is found by
+   * ID; when it is not in the history (older than the provider returned), every
+   * message is newer. Memories saved without an ID fall back to the timestamp,
+   * keeping messages from the same second so nothing is dropped.
+   */
+  private static after(messages: Message[], memory: ThreadMemory | null): Message[] {
+    if (memory?.summarizedThroughId && messages.some(msg => msg.id)) {
+      const index = messages.findIndex(msg => msg.id === memory.summarizedThroughId);
+      return messages.slice(index + 1);
+    }
+    if (!memory?.summarizedThrough) return messages;
+
+    const cutoff = new Date(memory.summarizedThrough).getTime();
+    return messages.filter(msg => !msg.created_at || new Date(msg.created_at).getTime() >= cutoff);
+  }
+
+  private static formatSummary(summary: string): string {
+    return `[THREAD MEMORY - summary of the earlier conversation]\n${summary}\n[END THREAD MEMORY]`;
+  }
+
+  private static async saveMemory(memory: ThreadMemory): Promise<ThreadMemory> {
+    const { data, error } = await supabase
+      .from('thread_memory')
+      .upsert({
+        thread_id: memory.threadId,
+        summary: memory.summary,
+        summarized_through: memory.summarizedThrough || null,
+        summarized_through_id: memory.summarizedThroughId || null,
+        summarized_messages: memory.summarizedMessages,
+        summary_tokens: memory.summaryTokens,
+        edited_at: memory.editedAt || null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'thread_id' })
+      .select(MEMORY_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new ApiError('Failed to save thread memory', 500, 'DATABASE_ERROR', error);
+    }
+
+    return this.toMemory(data as MemoryRow);
+  }
+
+  private static toMemory(row: MemoryRow): ThreadMemory {
+    return {
+      threadId: row.thread_id,
+      summary: row.summary,
+      summarizedThrough: row.summarized_through || undefined,
+      summarizedThroughId: row.summarized_through_id || undefined,
+      summarizedMessages: row.summarized_messages,
+      summaryTokens: row.summary_tokens,
+      editedAt: row.edited_at || undefined,
+      updatedAt: row.updated_at || undefined
+    };
+  }
+
+  private static validateThreadId(threadId: string): void {
+    if (!THREAD_ID_PATTERN.test(threadId)) {
+      throw new ApiError('Invalid thread ID', 400, 'VALIDATION_ERROR');
+    }
+  }
+
+  private static toText(content: Message['content']): string {
+    return typeof content === 'string' ? content : JSON.stringify(content);
+  }
+}
@@ -0,0 +1,297 @@
+// services/threadSearchService.ts
+import { createClient } from '@supabase/supabase-js';
+import { RetrievalService, ScoredChunk } from './retrievalService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export type SearchMatchType = 'title' | 'message' | 'file';
+export type SearchMatchSource = 'text' | 'semantic';
+
+export interface ThreadSearchOptions {
+  query: string;
+  projectId?: string;
+  from?: string; // ISO date; threads active on or after
+  to?: string; // ISO date; threads active before
+  limit?: number;
+}
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface ThreadSearchResult {
+  threadId: string;
+  threadTitle: string;
+  projectId?: string;
+  lastActivity?: string;
+  matchType: SearchMatchType;
+  messageIndex?: number; // Position in the saved thread
+  role?: string;
+  fileName?: string;
+  page?: number;
+  snippet: string;
+  highlights: SearchHighlight[]; // Ranges of the snippet to highlight
+  anchor?: string; // Text of the matched message, to find it once the thread is loaded
+  matchedBy: SearchMatchSource[];
+  score: number;
+}
+
+interface TextMatchRow {
+  thread_id: string;
+  project_id: string | null;
+  title: string;
+  last_activity: string | null;
+  match_type: SearchMatchType;
+  message_index: number | null;
+  role: string | null;
+  content: string;
+  rank: number;
+}
+
+interface ThreadRow {
+  id: string;
+  title: string;
+  project_id: string | null;
+  last_activity: string | null;
+}
+
+interface Candidate {
+  result: ThreadSearchResult;
+  content: string;
+}
+
+// Reciprocal rank fusion constant; higher values flatten the rank curve
+const RRF_K = 60;
+const SNIPPET_CHARS = 240;
+const ANCHOR_CHARS = 80;
+const MAX_LIMIT = 50;
+
+/**
+ * Search across thread titles, saved messages and uploaded file names.
+ * Postgres full-text search and embedding search over the retrieval index
+ * (when enabled) are ranked separately and merged with reciprocal rank fusion.
+ */
+export class ThreadSearchService {
+  static async search(options: ThreadSearchOptions): Promise<ThreadSearchResult[]> {
+    const limit = Math.min(options.limit || 20, MAX_LIMIT);
+    const terms = this.getTerms(options.query);
+
+    const [textMatches, semanticMatches] = await Promise.all([
+      this.textSearch(options, limit * 3),
+      this.semanticSearch(options, limit * 2)
+    ]);
+
+    const candidates = new Map<string, Candidate>();
+
+    textMatches.forEach((row, rank) => {
+      const key = this.getKey(row.thread_id, row.match_type, row.message_index ?? row.content);
+      candidates.set(key, {
+        content: row.content,
+        result: {
+          threadId: row.thread_id,
+          threadTitle: row.title,
+          projectId: row.project_id || undefined,
+          lastActivity: row.last_activity || undefined,
+          matchType: row.match_type,
+          ...(row.message_index !== null && { messageIndex: row.message_index }),
+          ...(row.role && { role: row.role }),
+          ...(row.match_type === 'file' && { fileName: row.content }),
+          ...this.buildSnippet(row.content, terms),
+          ...(row.match_type === 'message' && { anchor: this.getAnchor(row.content, terms) }),
+          matchedBy: ['text'],
+          score: 1 / (RRF_K + rank + 1)
+        }
+      });
+    });
+
+    semanticMatches.forEach(({ chunk, thread }, rank) => {
+      const score = 1 / (RRF_K + rank + 1);
+      const key = chunk.sourceType === 'file'
+        ? this.getKey(thread.id, 'file', chunk.sourceName)
+        : this.findMessageKey(candidates, thread.id, chunk.content) ||
+          this.getKey(thread.id, 'message', chunk.sourceId);
+
+      const existing = candidates.get(key);
+      if (existing) {
+        existing.result.score += score;
+        if (!existing.result.matchedBy.includes('semantic')) {
+          existing.result.matchedBy.push('semantic');
+        }
+        return;
+      }
+
+      candidates.set(key, {
+        content: chunk.content,
+        result: {
+          threadId: thread.id,
+          threadTitle: thread.title,
+          projectId: thread.project_id || undefined,
+          lastActivity: thread.last_activity || undefined,
+          matchType: chunk.sourceType === 'file' ? 'file' : 'message',
+          ...(chunk.sourceType === 'file'
+            ? { fileName: chunk.sourceName, page: chunk.page }
+            : { role: 'assistant', anchor: this.getAnchor(chunk.content, terms) }),
+          ...this.buildSnippet(chunk.content, terms),
+          matchedBy: ['semantic'],
+          score
+        }
+      });
+    });
+
+    return Array.from(candidates.values())
+      .map(candidate => ({
+        ...candidate.result,
+        score: Math.round(candidate.result.score * 10000) / 10000
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Private helper methods
+
+  private static async textSearch(options: ThreadSearchOptions, limit: number): Promise<TextMatchRow[]> {
+    const { data, error } = await supabase.rpc('search_threads', {
+      search_query: options.query,
+      filter_project_id: options.projectId || null,
+      date_from: options.from || null,
+      date_to: options.to || null,
+      match_count: limit
+    });
+
+    if (error) throw error;
+    return (data || []) as TextMatchRow[];
+  }
+
+  /**
+   * Embedding matches that belong to a thread in the requested project and date range
+   */
+  private static async semanticSearch(
+    options: ThreadSearchOptions,
+    limit: number
+  ): Promise<{ chunk: ScoredChunk; thread: ThreadRow }[]> {
+    try {
+      const chunks = (await RetrievalService.search(options.query, options.projectId, limit))
+        .filter(chunk => chunk.threadId);
+
+      if (chunks.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('threads')
+        .select('id, title, project_id, last_activity')
+        .in('id', [...new Set(chunks.map(chunk => chunk.threadId!))]);
+
+      if (error) throw error;
+
+      const threads = new Map(((data || []) as ThreadRow[]).map(thread => [thread.id, thread]));
+      const from = options.from ? new Date(options.from).getTime() : null;
+      const to = options.to ? new Date(options.to).getTime() : null;
+
+      return chunks.flatMap(chunk => {
+        const thread = threads.get(chunk.threadId!);
+        if (!thread) return [];
+
+        const activity = thread.last_activity ? new Date(thread.last_activity).getTime() : null;
+        if (from !== null && (activity === null || activity < from)) return [];
+        if (to !== null && (activity === null || activity >= to)) return [];
+
+        return [{ chunk, thread }];
+      });
+    } catch (error) {
+      // Full-text results are still returned
+      console.error('Semantic thread search failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Text match in the same thread whose message contains the indexed passage
+   */
+  private static findMessageKey(
+    candidates: Map<string, Candidate>,
+    threadId: string,
+    passage: string
+  ): string | undefined {
+    const probe = this.normalize(passage).substring(0, ANCHOR_CHARS);
+
+    for (const [key, candidate] of candidates) {
+      if (
+        candidate.result.threadId === threadId &&
+        candidate.result.matchType === 'message' &&
+        this.normalize(candidate.content).includes(probe)
+      ) {
+        return key;
+      }
+    }
+
+    return undefined;
+  }
+
+  private static getKey(threadId: string, matchType: SearchMatchType, id: string | number): string {
+    return `${threadId}:${matchType}:${id}`;
+  }
+
+  /**
+   * Query words, plus a crude stem so "laws" also highlights "law"
+   */
+  private static getTerms(query: string): string[] {
+    const words = query
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length >= 2);
+
+    return [...new Set(words.map(word => {
+      const stem = word.replace(/(ing|ed|es|s)$/, '');
+      return stem.length >= 3 ? stem : word;
+    }))];
+  }
+
+  /**
+   * Window of the text around the first query term, with term ranges to highlight
+   */
+  private static buildSnippet(text: string, terms: string[]): Pick<ThreadSearchResult, 'snippet' | 'highlights'> {
+    const content = this.normalize(text);
+    const pattern = this.getTermPattern(terms);
+    const firstMatch = pattern ? content.search(pattern) : -1;
+
+    let start = Math.max(0, firstMatch - SNIPPET_CHARS / 3);
+    if (start > 0) {
+      const wordBreak = content.indexOf(' ', start);
+      start = wordBreak >= 0 && wordBreak < firstMatch ? wordBreak + 1 : start;
+    }
+    const end = Math.min(content.length, start + SNIPPET_CHARS);
+
+    const prefix = start > 0 ? '…' : '';
+    const snippet = prefix + content.substring(start, end) + (end < content.length ? '…' : '');
+    const highlights: SearchHighlight[] = [];
+
+    if (pattern) {
+      for (const match of snippet.matchAll(new RegExp(pattern.source, 'giu'))) {
+        highlights.push({ start: match.index!, end: match.index! + match[0].length });
+      }
+    }
+
+    return { snippet, highlights };
+  }
+
+  private static getAnchor(text: string, terms: string[]): string {
+    const content = this.normalize(text);
+    const pattern = this.getTermPattern(terms);
+    const firstMatch = pattern ? Math.max(0, content.search(pattern)) : 0;
+    return content.substring(firstMatch, firstMatch + ANCHOR_CHARS);
+  }
+
+  private static getTermPattern(terms: string[]): RegExp | null {
+    if (terms.length === 0) return null;
+
+    const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})[\\p{L}\\p{N}]*`, 'iu');
+  }
+
+  private static normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
@@ -1,5 +1,16 @@
 import { baseFetch } from './apiClient';
-import { Thread, Message } from '../types/entities.types';
+import {
+  BranchFamily,
+  BranchKind,
+  Thread,
+  ThreadBranch,
+  ThreadMemory,
+  Message,
+  ModelOptions,
+  ThreadSettings,
+  ThreadSearchFilters,
+  ThreadSearchResult
+} from '../types/entities.types';
 import { CONSTANTS } from '../types/constants';
 
 export class ThreadService {
@@ -37,6 +48,87 @@ export class ThreadService {
     });
   }
 
+  static async getSettings(threadId: string): Promise<ThreadSettings> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.THREADS}/${threadId}/settings`);
+    const data = await response.json();
+    return data.settings || {};
+  }
+
+  static async updateSettings(threadId: string, settings: ThreadSettings): Promise<ThreadSettings> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.THREADS}/${threadId}/settings`, {
+      method: 'PUT',
+      // null clears a setting on the server
+      body: JSON.stringify({
+        model: settings.model ?? null,
+        temperature: settings.temperature ?? null
+      }),
+    });
+    const data = await response.json();
+    return data.settings || {};
+  }
+
+  /**
+   * Rolling summary of the thread's older messages; enabled is false when
+   * thread memory is switched off on the server
+   */
+  static async getMemory(threadId: string): Promise<{ memory: ThreadMemory | null; enabled: boolean }> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.THREADS}/${threadId}/memory`);
+    return response.json();
+  }
+
+  static async updateMemory(threadId: string, summary: string): Promise<ThreadMemory> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.THREADS}/${threadId}/memory`, {
+      method: 'PUT',
+      body: JSON.stringify({ summary }),
+    });
+    const data = await response.json();
+    return data.memory;
+  }
+
+  static async resetMemory(threadId: string): Promise<void> {
+    await baseFetch(`${CONSTANTS.API_ENDPOINTS.THREADS}/${threadId}/memory`, {
+      method: 'DELETE',
+    });
+  }
+
+  static async createBranch(
+    threadId: string,
+    userTurn: number,
+    options: { kind?: BranchKind; projectId?: string; model?: string } = {}
+  ): Promise<ThreadBranch> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.THREADS}/${threadId}/branches`, {
+      method: 'POST',
+      body: JSON.stringify({ userTurn, ...options }),
+    });
+    const data = await response.json();
+    return data.branch;
+  }
+
+  static async getBranches(threadId: string): Promise<BranchFamily> {
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.THREADS}/${threadId}/branches`);
+    return response.json();
+  }
+
+  static async searchThreads(
+    query: string,
+    filters: ThreadSearchFilters = {},
+    signal?: AbortSignal
+  ): Promise<ThreadSearchResult[]> {
+    const params = new URLSearchParams({ q: query });
+    if (filters.projectId) params.set('projectId', filters.projectId);
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+
+    const response = await baseFetch(`${CONSTANTS.API_ENDPOINTS.THREAD_SEARCH}?${params}`, { signal });
+    const data = await response.json();
+    return data.results || [];
+  }
+
+  static async getModelOptions(): Promise<ModelOptions> {
+    const response = await baseFetch(CONSTANTS.API_ENDPOINTS.MODELS);
+    return response.json();
+  }
+
   static async updateThreadTitles(projectId: string): Promise<any> {
     const response = await baseFetch('/api/update-thread-titles', {
       method: 'POST',
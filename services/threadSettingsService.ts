@@ -0,0 +1,110 @@
+// services/threadSettingsService.ts
+import { createClient } from '@supabase/supabase-js';
+import { ApiError } from '@/lib/utils/apiErrors';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+export interface ThreadSettings {
+  model?: string;
+  temperature?: number;
+}
+
+const MODEL_PATTERN = /^[\w.:\/-]{1,100}$/;
+
+/**
+ * Per-thread model and temperature, stored on the thread record and
+ * applied to every run in the thread. Unset values keep the provider default.
+ */
+export class ThreadSettingsService {
+  /**
+   * Pick and validate model/temperature from a request body.
+   * `null` or '' clears a setting; absent fields are left out.
+   */
+  static parseSettings(body: Record<string, unknown>): { model?: string | null; temperature?: number | null } {
+    const settings: { model?: string | null; temperature?: number | null } = {};
+
+    if ('model' in body) {
+      const model = body.model;
+      if (model !== null && model !== '' && (typeof model !== 'string' || !MODEL_PATTERN.test(model))) {
+        throw new ApiError('`model` must be a valid model name', 400, 'VALIDATION_ERROR');
+      }
+      settings.model = (model as string) || null;
+    }
+
+    if ('temperature' in body) {
+      const temperature = body.temperature;
+      if (temperature !== null && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+        throw new ApiError('`temperature` must be a number between 0 and 2', 400, 'VALIDATION_ERROR');
+      }
+      settings.temperature = temperature as number | null;
+    }
+
+    return settings;
+  }
+
+  /**
+   * Stored settings for a thread (empty if the thread isn't saved yet)
+   */
+  static async getSettings(threadId: string): Promise<ThreadSettings> {
+    const { data, error } = await supabase
+      .from('threads')
+      .select('model, temperature')
+      .eq('id', threadId)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to load settings for thread ${threadId}:`, error);
+      return {};
+    }
+
+    return {
+      model: data?.model || undefined,
+      temperature: data?.temperature ?? undefined
+    };
+  }
+
+  /**
+   * Update a saved thread's settings
+   */
+  static async updateSettings(
+    threadId: string,
+    settings: { model?: string | null; temperature?: number | null }
+  ): Promise<ThreadSettings> {
+    const { data, error } = await supabase
+      .from('threads')
+      .update(settings)
+      .eq('id', threadId)
+      .select('model, temperature')
+      .maybeSingle();
+
+    if (error) {
+      throw new ApiError('Failed to update thread settings', 500, 'DATABASE_ERROR', error);
+    }
+    if (!data) {
+      throw new ApiError('Thread not found', 404, 'THREAD_NOT_FOUND');
+    }
+
+    return {
+      model: data.model || undefined,
+      temperature: data.temperature ?? undefined
+    };
+  }
+
+  /**
+   * Settings for a chat request: values sent with the request win over the stored ones
+   */
+  static async resolve(threadId: string | undefined, body: Record<string, unknown>): Promise<ThreadSettings> {
+    const requested = this.parseSettings(body);
+    const stored = threadId && (!('model' in requested) || !('temperature' in requested))
+      ? await this.getSettings(threadId)
+      : {};
+
+    return {
+      model: 'model' in requested ? requested.model || undefined : stored.model,
+      temperature: 'temperature' in requested ? requested.temperature ?? undefined : stored.temperature
+    };
+  }
+}
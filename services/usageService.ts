@@ -0,0 +1,317 @@
+// services/usageService.ts
+import { createClient } from '@supabase/supabase-js';
+import { UsageMetrics } from '@/lib/providers/aiProvider.interface';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+interface ModelPrice {
+  input: number; // USD per 1M prompt tokens
+  output: number; // USD per 1M completion tokens
+}
+
+export interface PriceTable {
+  models: Record<string, ModelPrice>;
+  webSearch: number; // USD per search call
+  codeInterpreterSession: number; // USD per session
+}
+
+export interface UsageRecord {
+  threadId: string;
+  projectId?: string;
+  messageId?: string;
+  provider?: string;
+  usage?: UsageMetrics;
+  searchCalls?: number; // Searches made outside the provider (prompt pre-search)
+}
+
+export interface UsageRollup {
+  id: string;
+  name: string;
+  projectId?: string;
+  messages: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  searchCalls: number;
+  codeInterpreterSessions: number;
+  estimatedCost: number;
+}
+
+interface UsageRow {
+  thread_id: string;
+  project_id: string | null;
+  message_id: string | null;
+  provider: string | null;
+  model: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  search_calls: number;
+  code_interpreter_sessions: number;
+  estimated_cost: number;
+  created_at: string;
+}
+
+// List prices at the time of writing; override with USAGE_PRICE_TABLE
+const DEFAULT_PRICES: PriceTable = {
+  models: {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 }
+  },
+  webSearch: 0.008,
+  codeInterpreterSession: 0.03
+};
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Records token usage and billable tool activity per assistant message,
+ * and rolls it up per thread and project with an estimated cost.
+ */
+export class UsageService {
+  private static priceTable?: PriceTable;
+
+  /**
+   * Default prices merged with the USAGE_PRICE_TABLE JSON override
+   */
+  static getPriceTable(): PriceTable {
+    if (this.priceTable) return this.priceTable;
+
+    let override: Partial<PriceTable> = {};
+    if (process.env.USAGE_PRICE_TABLE) {
+      try {
+        override = JSON.parse(process.env.USAGE_PRICE_TABLE);
+      } catch (error) {
+        console.error('Invalid USAGE_PRICE_TABLE, using default prices:', error);
+      }
+    }
+
+    this.priceTable = {
+      ...DEFAULT_PRICES,
+      ...override,
+      models: { ...DEFAULT_PRICES.models, ...override.models }
+    };
+    return this.priceTable;
+  }
+
+  /**
+   * Estimated cost in USD; models without a price (e.g. local ones) cost nothing
+   */
+  static estimateCost(usage: Omit<UsageMetrics, 'totalTokens'>): number {
+    const prices = this.getPriceTable();
+    const modelPrice = this.findModelPrice(usage.model, prices);
+
+    const cost =
+      (modelPrice ? (usage.promptTokens * modelPrice.input + usage.completionTokens * modelPrice.output) / 1_000_000 : 0) +
+      (usage.searchCalls || 0) * prices.webSearch +
+      (usage.codeInterpreterSessions || 0) * prices.codeInterpreterSession;
+
+    return Math.round(cost * 1_000_000) / 1_000_000;
+  }
+
+  /**
+   * Store usage for one assistant message. Failures are logged, never thrown.
+   */
+  static async recordUsage(record: UsageRecord): Promise<void> {
+    const searchCalls = (record.usage?.searchCalls || 0) + (record.searchCalls || 0);
+    if (!record.usage && searchCalls === 0) return;
+
+    const metrics = {
+      promptTokens: record.usage?.promptTokens || 0,
+      completionTokens: record.usage?.completionTokens || 0,
+      model: record.usage?.model,
+      searchCalls,
+      codeInterpreterSessions: record.usage?.codeInterpreterSessions || 0
+    };
+
+    try {
+      const projectId = record.projectId || await this.getThreadProjectId(record.threadId);
+
+      const { error } = await supabase
+        .from('message_usage')
+        .insert({
+          thread_id: record.threadId,
+          project_id: projectId || null,
+          message_id: record.messageId || null,
+          provider: record.provider || null,
+          model: metrics.model || null,
+          prompt_tokens: metrics.promptTokens,
+          completion_tokens: metrics.completionTokens,
+          total_tokens: record.usage?.totalTokens || metrics.promptTokens + metrics.completionTokens,
+          search_calls: metrics.searchCalls,
+          code_interpreter_sessions: metrics.codeInterpreterSessions,
+          estimated_cost: this.estimateCost(metrics)
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to record usage:', error);
+    }
+  }
+
+  /**
+   * Usage rolled up per project and thread, optionally filtered
+   */
+  static async getSummary(filters: { projectId?: string; threadId?: string; days?: number } = {}) {
+    const rows = await this.loadRows(filters);
+
+    const projects = new Map<string, UsageRollup>();
+    const threads = new Map<string, UsageRollup>();
+    const totals = this.emptyRollup('total', 'All usage');
+
+    for (const row of rows) {
+      const projectKey = row.project_id || 'unassigned';
+      if (!projects.has(projectKey)) {
+        projects.set(projectKey, this.emptyRollup(projectKey, 'No project'));
+      }
+      if (!threads.has(row.thread_id)) {
+        threads.set(row.thread_id, {
+          ...this.emptyRollup(row.thread_id, row.thread_id),
+          projectId: row.project_id || undefined
+        });
+      }
+
+      for (const rollup of [totals, projects.get(projectKey)!, threads.get(row.thread_id)!]) {
+        this.addRow(rollup, row);
+      }
+    }
+
+    await this.applyNames(projects, threads);
+
+    const byCost = (a: UsageRollup, b: UsageRollup) => b.estimatedCost - a.estimatedCost;
+    return {
+      totals,
+      projects: [...projects.values()].sort(byCost),
+      threads: [...threads.values()].sort(byCost),
+      messages: filters.threadId ? rows : undefined,
+      prices: this.getPriceTable()
+    };
+  }
+
+  /**
+   * Estimated spend of a project in USD, optionally since a date
+   */
+  static async getProjectSpend(projectId: string, since?: Date): Promise<number> {
+    let spent = 0;
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('message_usage')
+        .select('estimated_cost')
+        .eq('project_id', projectId)
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (since) query = query.gte('created_at', since.toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      spent += (data || []).reduce((sum, row) => sum + Number(row.estimated_cost || 0), 0);
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return Math.round(spent * 1_000_000) / 1_000_000;
+  }
+
+  // Private helper methods
+
+  private static findModelPrice(model: string | undefined, prices: PriceTable): ModelPrice | undefined {
+    if (!model) return undefined;
+    if (prices.models[model]) return prices.models[model];
+
+    // Dated snapshots (gpt-4o-2024-08-06) use their base model's price
+    const base = Object.keys(prices.models)
+      .filter(name => model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return base ? prices.models[base] : undefined;
+  }
+
+  private static async getThreadProjectId(threadId: string): Promise<string | undefined> {
+    const { data } = await supabase
+      .from('threads')
+      .select('project_id')
+      .eq('id', threadId)
+      .maybeSingle();
+
+    return data?.project_id || undefined;
+  }
+
+  private static async loadRows(filters: { projectId?: string; threadId?: string; days?: number }): Promise<UsageRow[]> {
+    const rows: UsageRow[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('message_usage')
+        .select('thread_id, project_id, message_id, provider, model, prompt_tokens, completion_tokens, total_tokens, search_calls, code_interpreter_sessions, estimated_cost, created_at')
+        .order('created_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (filters.projectId) query = query.eq('project_id', filters.projectId);
+      if (filters.threadId) query = query.eq('thread_id', filters.threadId);
+      if (filters.days) {
+        query = query.gte('created_at', new Date(Date.now() - filters.days * 24 * 60 * 60 * 1000).toISOString());
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  private static emptyRollup(id: string, name: string): UsageRollup {
+    return {
+      id,
+      name,
+      messages: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      searchCalls: 0,
+      codeInterpreterSessions: 0,
+      estimatedCost: 0
+    };
+  }
+
+  private static addRow(rollup: UsageRollup, row: UsageRow): void {
+    rollup.messages++;
+    rollup.promptTokens += row.prompt_tokens || 0;
+    rollup.completionTokens += row.completion_tokens || 0;
+    rollup.totalTokens += row.total_tokens || 0;
+    rollup.searchCalls += row.search_calls || 0;
+    rollup.codeInterpreterSessions += row.code_interpreter_sessions || 0;
+    rollup.estimatedCost = Math.round((rollup.estimatedCost + Number(row.estimated_cost || 0)) * 1_000_000) / 1_000_000;
+  }
+
+  private static async applyNames(
+    projects: Map<string, UsageRollup>,
+    threads: Map<string, UsageRollup>
+  ): Promise<void> {
+    const projectIds = [...projects.keys()].filter(id => id !== 'unassigned');
+    if (projectIds.length > 0) {
+      const { data } = await supabase.from('projects').select('id, name').in('id', projectIds);
+      for (const project of data || []) {
+        projects.get(project.id)!.name = project.name;
+      }
+    }
+
+    // Batched to keep the query string short
+    const threadIds = [...threads.keys()];
+    for (let i = 0; i < threadIds.length; i += 100) {
+      const { data } = await supabase.from('threads').select('id, title').in('id', threadIds.slice(i, i + 100));
+      for (const thread of data || []) {
+        threads.get(thread.id)!.name = thread.title;
+      }
+    }
+  }
+}
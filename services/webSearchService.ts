@@ -0,0 +1,331 @@
+// services/webSearchService.ts
+import { createClient } from '@supabase/supabase-js';
+import { ApiError } from '@/lib/utils/apiErrors';
+import { SearchProvider, SearchType, WebSearchOptions, WebSearchResponse } from '@/lib/search/searchProvider.interface';
+import { matchesDomain, normalizeDomain, rankByPreference } from '@/lib/search/searchDomains';
+import {
+  SearchProviderFactory,
+  SearchProviderInfo,
+  SearchProviderType,
+  SEARCH_PROVIDER_TYPES
+} from '@/lib/search/searchProviderFactory';
+import { SearchCacheService, SEARCH_TYPES } from './searchCacheService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+const MAX_DOMAINS = 50;
+const MAX_PREFER_WEIGHT = 5;
+const DEFAULT_PREFER_WEIGHT = 1;
+
+// Queries about current events, which get the news search type (and its short cache TTL)
+const NEWS_PATTERN = /\b(latest|news|today|yesterday|this (week|month)|breaking|announced|recent(ly)?)\b/i;
+
+export interface SearchScope {
+  projectId?: string;
+  threadId?: string;
+}
+
+export interface PreferredDomain {
+  domain: string;
+  weight: number; // Ranking boost, above 0 and up to 5
+}
+
+export interface ProjectSearchSettings {
+  projectId: string;
+  provider: SearchProviderType | null; // null = deployment default
+  defaultProvider: SearchProviderType; // SEARCH_PROVIDER
+  effectiveProvider: SearchProviderType;
+  providers: SearchProviderInfo[];
+  allowDomains: string[]; // When set, only these domains are searched
+  denyDomains: string[];
+  preferDomains: PreferredDomain[];
+}
+
+export interface SearchSettingsRow {
+  search_provider?: SearchProviderType | null;
+  search_allow_domains?: string[];
+  search_deny_domains?: string[];
+  search_prefer_domains?: PreferredDomain[];
+}
+
+// Backend and domain rules applied to one search
+interface SearchProfile {
+  provider: SearchProvider;
+  allowDomains: string[];
+  denyDomains: string[];
+  preferDomains: PreferredDomain[];
+}
+
+const SETTINGS_COLUMNS = 'search_provider, search_allow_domains, search_deny_domains, search_prefer_domains';
+
+/**
+ * Web search through the backend chosen for the deployment (SEARCH_PROVIDER)
+ * or overridden per project, with the project's trusted-domain rules applied
+ * to every search: allowed domains restrict it, denied domains are removed
+ * and preferred domains are ranked higher. A project's choice is never
+ * swapped for another backend: when it is not configured, web search is
+ * unavailable for that project rather than sending its queries somewhere it
+ * has ruled out.
+ */
+export class WebSearchService {
+  /**
+   * Validate a search settings update (camelCase in, column names out)
+   */
+  static parseSettings(body: Record<string, unknown>): SearchSettingsRow {
+    const settings: SearchSettingsRow = {};
+
+    if ('provider' in body) {
+      const provider = body.provider;
+      if (provider !== null && provider !== '' && !SearchProviderFactory.isSupported(provider)) {
+        throw new ApiError(
+          `\`provider\` must be one of ${SEARCH_PROVIDER_TYPES.join(', ')} or null`,
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+      settings.search_provider = provider ? provider as SearchProviderType : null;
+    }
+    if ('allowDomains' in body) {
+      settings.search_allow_domains = this.parseDomainList(body.allowDomains, 'allowDomains');
+    }
+    if ('denyDomains' in body) {
+      settings.search_deny_domains = this.parseDomainList(body.denyDomains, 'denyDomains');
+    }
+    if ('preferDomains' in body) {
+      settings.search_prefer_domains = this.parsePreferredDomains(body.preferDomains);
+    }
+
+    const allowed = settings.search_allow_domains || [];
+    const conflict = (settings.search_deny_domains || []).find(domain => allowed.includes(domain));
+    if (conflict) {
+      throw new ApiError(`${conflict} cannot be both allowed and denied`, 400, 'VALIDATION_ERROR');
+    }
+
+    return settings;
+  }
+
+  /**
+   * A project's search settings and the backends it can choose from
+   */
+  static async getSettings(projectId: string): Promise<ProjectSearchSettings> {
+    const { data: project, error } = await supabase
+      .from('projects')
+      .select(`id, ${SETTINGS_COLUMNS}`)
+      .eq('id', projectId)
+      .maybeSingle();
+
+    if (error) {
+      throw new ApiError('Failed to load project search settings', 500, 'DATABASE_ERROR', error);
+    }
+    if (!project) {
+      throw new ApiError('Project not found', 404, 'NOT_FOUND');
+    }
+
+    const provider = SearchProviderFactory.isSupported(project.search_provider) ? project.search_provider : null;
+    const defaultProvider = SearchProviderFactory.getDefaultType();
+    return {
+      projectId,
+      provider,
+      defaultProvider,
+      effectiveProvider: provider || defaultProvider,
+      providers: SearchProviderFactory.listProviders(),
+      allowDomains: project.search_allow_domains || [],
+      denyDomains: project.search_deny_domains || [],
+      preferDomains: project.search_prefer_domains || []
+    };
+  }
+
+  static async updateSettings(projectId: string, settings: SearchSettingsRow): Promise<ProjectSearchSettings> {
+    // A partial update can still contradict the list that is already stored
+    if (settings.search_allow_domains || settings.search_deny_domains) {
+      const current = await this.getSettings(projectId);
+      const allowed = settings.search_allow_domains || current.allowDomains;
+      const conflict = (settings.search_deny_domains || current.denyDomains).find(domain => allowed.includes(domain));
+      if (conflict) {
+        throw new ApiError(`${conflict} cannot be both allowed and denied`, 400, 'VALIDATION_ERROR');
+      }
+    }
+
+    const { error } = await supabase
+      .from('projects')
+      .update({ ...settings, updated_at: new Date().toISOString() })
+      .eq('id', projectId);
+
+    if (error) {
+      throw new ApiError('Failed to update project search settings', 500, 'DATABASE_ERROR', error);
+    }
+
+    return this.getSettings(projectId);
+  }
+
+  /**
+   * Backend for a request: the project's (or the thread's project's) choice, else the default
+   */
+  static async resolveProvider(scope: SearchScope = {}): Promise<SearchProvider> {
+    return (await this.resolveProfile(scope)).provider;
+  }
+
+  /**
+   * Whether any backend is configured, for tools that are offered before
+   * the request's project is known
+   */
+  static hasConfiguredProvider(): boolean {
+    return SearchProviderFactory.listProviders().some(provider => provider.configured);
+  }
+
+  /**
+   * Whether web search works for the project or thread
+   */
+  static async isAvailable(scope: SearchScope = {}): Promise<boolean> {
+    try {
+      return (await this.resolveProvider(scope)).isConfigured();
+    } catch (error) {
+      console.error('Error resolving web search backend:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Run a search with the backend and domain rules for the project or thread
+   */
+  static async search(options: WebSearchOptions, scope: SearchScope = {}): Promise<WebSearchResponse> {
+    const query = options.query?.trim();
+    if (!query) {
+      throw new ApiError('Search query cannot be empty', 400, 'INVALID_QUERY');
+    }
+    if (query.length > 500) {
+      throw new ApiError('Search query too long (max 500 characters)', 400, 'QUERY_TOO_LONG');
+    }
+
+    const { provider, allowDomains, denyDomains, preferDomains } = await this.resolveProfile(scope);
+    if (!provider.isConfigured()) {
+      throw new ApiError(`Web search backend ${provider.name} is not configured`, 503, 'SEARCH_NOT_CONFIGURED');
+    }
+
+    // The project's allow list narrows any domains the caller asked for
+    const requested = options.includeDomains || [];
+    const includeDomains = allowDomains.length === 0
+      ? requested
+      : requested.length === 0
+        ? allowDomains
+        : requested.filter(domain => allowDomains.some(allowed => matchesDomain(`https://${domain}`, allowed)));
+    if (allowDomains.length > 0 && includeDomains.length === 0) {
+      return { query, results: [], provider: provider.name };
+    }
+    const excludeDomains = [...new Set([...(options.excludeDomains || []), ...denyDomains])];
+
+    const searchType: SearchType = options.searchType && SEARCH_TYPES.includes(options.searchType)
+      ? options.searchType
+      : NEWS_PATTERN.test(query) ? 'news' : 'general';
+    const request = { ...options, query, searchType, includeDomains, excludeDomains };
+    let response = provider.cacheable ? await SearchCacheService.get(provider.name, request) : null;
+    if (!response) {
+      response = await provider.search(request);
+      if (provider.cacheable) await SearchCacheService.set(provider.name, request, response);
+    }
+
+    // Backends treat domain filters as hints, so they are enforced here too
+    const results = response.results
+      .filter(result => includeDomains.length === 0 || includeDomains.some(domain => matchesDomain(result.url, domain)))
+      .filter(result => !excludeDomains.some(domain => matchesDomain(result.url, domain)));
+
+    return { ...response, results: rankByPreference(results, preferDomains) };
+  }
+
+  // Private helper methods
+
+  private static async resolveProfile(scope: SearchScope): Promise<SearchProfile> {
+    const projectId = scope.projectId || (scope.threadId ? await this.getThreadProjectId(scope.threadId) : undefined);
+    const profile: SearchProfile = {
+      provider: SearchProviderFactory.getProvider(SearchProviderFactory.getDefaultType()),
+      allowDomains: [],
+      denyDomains: [],
+      preferDomains: []
+    };
+    if (!projectId) return profile;
+
+    // Failing here rather than searching without the project's rules
+    const { data: project, error } = await supabase
+      .from('projects')
+      .select(SETTINGS_COLUMNS)
+      .eq('id', projectId)
+      .maybeSingle();
+    if (error) {
+      throw new ApiError('Failed to load project search settings', 500, 'DATABASE_ERROR', error);
+    }
+    if (!project) return profile;
+
+    if (SearchProviderFactory.isSupported(project.search_provider)) {
+      profile.provider = SearchProviderFactory.getProvider(project.search_provider);
+    }
+    profile.allowDomains = project.search_allow_domains || [];
+    profile.denyDomains = project.search_deny_domains || [];
+    profile.preferDomains = project.search_prefer_domains || [];
+    return profile;
+  }
+
+  private static async getThreadProjectId(threadId: string): Promise<string | undefined> {
+    const { data, error } = await supabase
+      .from('threads')
+      .select('project_id')
+      .eq('id', threadId)
+      .maybeSingle();
+    if (error) {
+      throw new ApiError('Failed to load thread project', 500, 'DATABASE_ERROR', error);
+    }
+    return data?.project_id || undefined;
+  }
+
+  private static parseDomainList(value: unknown, field: string): string[] {
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+      throw new ApiError(`\`${field}\` must be an array of domains`, 400, 'VALIDATION_ERROR');
+    }
+
+    const domains = value.filter(item => item.trim() !== '').map(item => {
+      const domain = normalizeDomain(item);
+      if (!domain) {
+        throw new ApiError(`\`${field}\`: "${item}" is not a domain`, 400, 'VALIDATION_ERROR');
+      }
+      return domain;
+    });
+
+    const unique = [...new Set(domains)];
+    if (unique.length > MAX_DOMAINS) {
+      throw new ApiError(`\`${field}\` can have at most ${MAX_DOMAINS} domains`, 400, 'VALIDATION_ERROR');
+    }
+    return unique;
+  }
+
+  private static parsePreferredDomains(value: unknown): PreferredDomain[] {
+    if (!Array.isArray(value)) {
+      throw new ApiError('`preferDomains` must be an array of { domain, weight }', 400, 'VALIDATION_ERROR');
+    }
+
+    const preferred = new Map<string, number>();
+    for (const item of value) {
+      const entry = typeof item === 'string' ? { domain: item } : item as Partial<PreferredDomain> | null;
+      const domain = typeof entry?.domain === 'string' ? normalizeDomain(entry.domain) : null;
+      if (!domain) {
+        throw new ApiError(`\`preferDomains\`: ${JSON.stringify(item)} is not a domain`, 400, 'VALIDATION_ERROR');
+      }
+
+      const weight = entry?.weight ?? DEFAULT_PREFER_WEIGHT;
+      if (typeof weight !== 'number' || !isFinite(weight) || weight <= 0 || weight > MAX_PREFER_WEIGHT) {
+        throw new ApiError(
+          `\`preferDomains\`: weight for ${domain} must be above 0 and at most ${MAX_PREFER_WEIGHT}`,
+          400,
+          'VALIDATION_ERROR'
+        );
+      }
+      preferred.set(domain, weight);
+    }
+
+    if (preferred.size > MAX_DOMAINS) {
+      throw new ApiError(`\`preferDomains\` can have at most ${MAX_DOMAINS} domains`, 400, 'VALIDATION_ERROR');
+    }
+    return [...preferred].map(([domain, weight]) => ({ domain, weight }));
+  }
+}
@@ -8,8 +8,15 @@ export const CONSTANTS = {
   },
   API_ENDPOINTS: {
     CHAT: '/api/chat',
+    CHAT_STREAM: '/api/chat/stream',
+    CHAT_CANCEL: '/api/chat/cancel',
+    CHAT_COMPARE: '/api/chat/compare',
+    CHAT_COMPARE_KEEP: '/api/chat/compare/keep',
     PROJECTS: '/api/projects',
     THREADS: '/api/threads',
+    THREAD_SEARCH: '/api/threads/search',
+    MODELS: '/api/models',
+    TEMPLATES: '/api/templates',
     UPLOAD: '/api/upload',
     FILES: '/api/files'
   },
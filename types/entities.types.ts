@@ -4,6 +4,62 @@ export interface Message {
   files?: MessageFile[];
   timestamp?: string;
   fileIds?: string[];
+  streaming?: boolean; // Reply still arriving from /api/chat/stream
+  progress?: string; // Current tool activity while streaming
+  documentSources?: DocumentSource[]; // Project passages the reply drew on
+  searchSources?: SearchSource[]; // Web results the reply cites as [id]
+}
+
+// Web search result; replies cite it inline as [id]
+export interface SearchSource {
+  id?: number;
+  title: string;
+  url: string;
+  snippet?: string;
+  cited?: boolean; // The reply cites this source
+}
+
+// Passage from a project file or earlier answer used to ground a reply
+export interface DocumentSource {
+  sourceType: 'file' | 'answer';
+  sourceId: string;
+  title: string;
+  page?: number;
+  threadId?: string;
+  snippet: string;
+  score: number;
+  url?: string;
+}
+
+// Hit from /api/threads/search; highlights are ranges of the snippet
+export interface ThreadSearchResult {
+  threadId: string;
+  threadTitle: string;
+  projectId?: string;
+  lastActivity?: string;
+  matchType: 'title' | 'message' | 'file';
+  messageIndex?: number;
+  role?: string;
+  fileName?: string;
+  page?: number;
+  snippet: string;
+  highlights: { start: number; end: number }[];
+  anchor?: string;
+  matchedBy: ('text' | 'semantic')[];
+  score: number;
+}
+
+// Message to scroll to once a thread opened from search has loaded
+export interface MessageFocus {
+  messageIndex?: number;
+  anchor?: string;
+  requestedAt: number;
+}
+
+export interface ThreadSearchFilters {
+  projectId?: string;
+  from?: string;
+  to?: string;
 }
 
 export interface MessageFile {
@@ -21,8 +77,15 @@ export interface Project {
   createdAt: string;
   threads: string[];
   color?: string;
+  instructions?: string;
+  tone?: string;
+  targetCountry?: string;
+  outputConventions?: string;
 }
 
+// Editable assistant settings of a project
+export type ProjectAssistantSettings = Pick<Project, 'instructions' | 'tone' | 'targetCountry' | 'outputConventions'>;
+
 export interface Thread {
   id: string;
   projectId?: string;
@@ -32,6 +95,107 @@ export interface Thread {
   lastActivity?: string;
   isSaved?: boolean;
   isNew?: boolean;
+  model?: string;
+  temperature?: number;
+}
+
+export type BranchKind = 'edit' | 'regenerate';
+
+// Thread forked from another to edit a user message or regenerate an answer
+export interface ThreadBranch {
+  threadId: string;
+  title: string;
+  parentThreadId?: string;
+  branchUserTurn?: number; // User message (0-based) that was edited or re-answered
+  kind?: BranchKind;
+  model?: string;
+  createdAt?: string;
+}
+
+// Versions of one assistant answer, in creation order
+export interface AnswerVersions {
+  threadIds: string[];
+  current: number;
+}
+
+export interface BranchFamily {
+  rootThreadId: string;
+  branches: ThreadBranch[]; // Root first
+}
+
+// Rolling summary of the older part of a long thread
+export interface ThreadMemory {
+  threadId: string;
+  summary: string;
+  summarizedThrough?: string;
+  summarizedMessages: number; // Messages folded into the summary so far
+  summaryTokens: number;
+  editedAt?: string;
+  updatedAt?: string;
+}
+
+// Reusable prompt with {{variables}}, inserted from the chat input via /command
+export interface PromptTemplate {
+  id: string;
+  projectId: string | null; // null = shared with every project
+  command: string;
+  title: string;
+  description?: string;
+  body: string;
+  variables: string[];
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  command: string;
+  title: string;
+  description?: string;
+  body: string;
+  createdAt: string;
+}
+
+export type PromptTemplateInput = Partial<Pick<PromptTemplate, 'projectId' | 'command' | 'title' | 'description' | 'body'>>;
+
+// Per-thread run settings; unset values use the provider default
+export type ThreadSettings = Pick<Thread, 'model' | 'temperature'>;
+
+// Thread settings plus options that only apply to one request
+export type ChatRequestSettings = ThreadSettings & {
+  deepResearch?: boolean; // Read the top web search hits instead of only their snippets
+};
+
+export interface ModelOptions {
+  provider: string;
+  models: string[];
+}
+
+// Provider/model pair answering in one column of a comparison
+export interface CompareTarget {
+  provider: string;
+  model?: string;
+}
+
+export interface CompareColumn extends CompareTarget {
+  threadId?: string; // Scratch thread holding this answer until one is kept
+  reply: string;
+  status: 'completed' | 'failed';
+  error?: string;
+  latencyMs: number;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+export interface CompareResult {
+  prompt: string;
+  columns: CompareColumn[];
+  searchSources?: SearchSource[];
+  documentSources?: DocumentSource[];
 }
 
 export interface ShareLink {
@@ -78,6 +242,38 @@ export interface ChatResponse {
   reply: string;
   threadId?: string;
   files?: MessageFile[];
+  messageId?: string;
+  status?: string;
+  provider?: string;
+  budget?: ProjectBudget; // Present when the project is past its soft limit
+  documentSources?: DocumentSource[];
+  searchSources?: SearchSource[];
+  parsedResponse?: unknown; // Validated JSON when an output schema was requested
+}
+
+export interface ProjectBudget {
+  projectId: string;
+  budgetUsd: number | null;
+  period: 'monthly' | 'total';
+  softLimitPercent: number;
+  spent: number;
+  percentUsed: number | null;
+  state: 'ok' | 'warning' | 'exceeded';
+  overrideUntil: string | null;
+  overrideActive: boolean;
+}
+
+export type SearchProviderName = 'tavily' | 'searxng' | 'fixture';
+
+export interface ProjectSearchSettings {
+  projectId: string;
+  provider: SearchProviderName | null; // null = deployment default
+  defaultProvider: SearchProviderName;
+  effectiveProvider: SearchProviderName;
+  providers: { name: SearchProviderName; label: string; configured: boolean }[];
+  allowDomains: string[]; // When set, only these domains are searched
+  denyDomains: string[];
+  preferDomains: { domain: string; weight: number }[]; // Ranked higher, weight up to 5
 }
 
 // Fix: Make ProjectResponse more flexible to handle API variations
@@ -255,4 +255,21 @@ export const cleanForExport = (content: string): string => {
   cleaned = cleaned.replace(/^\s*-\s*$/gm, ''); // Remove empty bullets
   
   return cleaned;
-};
\ No newline at end of file
+};
+/**
+ * Turn inline [n] citations into #cite-n links for the given source numbers,
+ * leaving code and existing markdown links alone
+ */
+export const linkCitations = (content: string, sourceIds: number[]): string => {
+  if (typeof content !== 'string' || sourceIds.length === 0) return content;
+
+  const ids = new Set(sourceIds);
+  return content
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/g)
+    .map((segment, index) => index % 2 === 1
+      ? segment
+      : segment.replace(/(?<!\\)\[(\d{1,3})\](?![(:])/g, (marker, id: string) =>
+        ids.has(Number(id)) ? `[${id}](#cite-${id})` : marker
+      ))
+    .join('');
+};
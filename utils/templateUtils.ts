@@ -0,0 +1,30 @@
+// utils/templateUtils.ts - {{variable}} handling for prompt templates
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w-]*)\s*\}\}/g;
+
+/**
+ * Variable names in the order they first appear in the template body
+ */
+export const extractTemplateVariables = (body: string): string[] => {
+  const names: string[] = [];
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+/**
+ * Substitute values into the body; unfilled variables are left as written
+ */
+export const fillTemplate = (body: string, values: Record<string, string>): string =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name]?.trim();
+    return value ? value : placeholder;
+  });
+
+/**
+ * "assessment_pillars" -> "Assessment pillars", for form labels
+ */
+export const formatVariableLabel = (name: string): string => {
+  const words = name.replace(/[_-]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};